@@ -1,6 +1,8 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
+  // HEIC 디코더(WASM libheif)는 번들링하지 않고 node_modules에서 그대로 로드
+  serverExternalPackages: ['heic-decode', 'libheif-js'],
   images: {
     remotePatterns: [
       {
@@ -0,0 +1,165 @@
+/**
+ * 음식 분석 정확도 오프라인 평가
+ *
+ * 사용법:
+ *   npm run eval:analysis -- <dataset.json> [옵션]
+ *
+ * 옵션:
+ *   --record <fixtures.json>   provider 원시 응답을 local provider용 fixture로 기록
+ *   --output <report.json>     전체 리포트(샘플별 결과 포함)를 JSON으로 저장
+ *   --detail-level <level>     basic | detailed | comprehensive
+ *   --language <lang>          ko | en
+ *   --prompt-version <id>      프롬프트 레지스트리 id (예: food-analysis@v2, 기본값은 기본 프롬프트)
+ *   --tolerance <ratio>        칼로리 허용 오차 비율 (기본값 0.2)
+ *
+ * provider는 FOOD_ANALYSIS_PROVIDER 설정을 따름. 기록한 fixture로 오프라인 실행:
+ *   FOOD_ANALYSIS_PROVIDER=local FOOD_ANALYSIS_FIXTURES_PATH=fixtures.json npm run eval:analysis -- dataset.json
+ * fixture는 이미지 해시 기준이므로 프롬프트 버전을 비교할 때는 버전별로 따로 기록
+ *
+ * 데이터셋 형식 (image는 데이터셋 파일 기준 상대 경로):
+ *   { "samples": [{ "id": "lunch-01", "image": "images/lunch-01.jpg", "expected_calories": 650,
+ *                   "expected_foods": ["김치찌개", { "name": "흰쌀밥", "aliases": ["쌀밥", "공기밥"] }] }] }
+ */
+import fs from 'fs';
+import { getFoodAnalysisProvider, RecordingFoodAnalysisProvider } from '@/lib/analysis-provider';
+import { parseAnalysisOptions } from '@/lib/analysis-prompts';
+import { getAnalysisPrompt } from '@/lib/prompt-registry';
+import {
+  AnalysisEvaluationReport,
+  CalibrationReport,
+  evaluateAnalysisAccuracy,
+  loadEvaluationDataset
+} from '@/lib/analysis-evaluation';
+
+interface CliArgs {
+  datasetPath: string;
+  recordPath?: string;
+  outputPath?: string;
+  detailLevel?: string;
+  language?: string;
+  promptVersion?: string;
+  tolerance?: number;
+}
+
+function parseArgs(argv: string[]): CliArgs {
+  const positional: string[] = [];
+  const flags: Record<string, string> = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg.startsWith('--')) {
+      const value = argv[i + 1];
+      if (value === undefined || value.startsWith('--')) {
+        throw new Error(`${arg} 옵션에 값이 필요합니다.`);
+      }
+      flags[arg.slice(2)] = value;
+      i++;
+    } else {
+      positional.push(arg);
+    }
+  }
+
+  if (positional.length !== 1) {
+    throw new Error('사용법: npm run eval:analysis -- <dataset.json> [--record fixtures.json] [--output report.json]');
+  }
+
+  const tolerance = flags.tolerance !== undefined ? Number(flags.tolerance) : undefined;
+  if (tolerance !== undefined && (!Number.isFinite(tolerance) || tolerance <= 0)) {
+    throw new Error('--tolerance는 0보다 큰 숫자여야 합니다.');
+  }
+
+  return {
+    datasetPath: positional[0],
+    recordPath: flags.record,
+    outputPath: flags.output,
+    detailLevel: flags['detail-level'],
+    language: flags.language,
+    promptVersion: flags['prompt-version'],
+    tolerance
+  };
+}
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+function printCalibration(title: string, calibration: CalibrationReport) {
+  console.log(`\n${title} (ECE ${calibration.expectedCalibrationError.toFixed(3)})`);
+  for (const bin of calibration.bins) {
+    console.log(
+      `  ${bin.range[0].toFixed(1)}-${bin.range[1].toFixed(1)}  n=${String(bin.count).padStart(3)}  ` +
+      `신뢰도 ${percent(bin.meanConfidence).padStart(6)}  정확도 ${percent(bin.accuracy).padStart(6)}`
+    );
+  }
+}
+
+function printReport(report: AnalysisEvaluationReport) {
+  console.log(`\n=== 분석 정확도 평가 (${report.provider}${report.modelVersion ? `, ${report.modelVersion}` : ''}, ${report.options.prompt_version}) ===`);
+  console.log(`샘플: ${report.evaluatedCount}/${report.sampleCount} 평가, ${report.failedCount} 실패`);
+  if (report.unrecordedCount > 0) {
+    console.warn(`⚠️  기록된 응답이 없어 기본 fixture로 대체된 샘플: ${report.unrecordedCount}개`);
+  }
+
+  console.log('\n칼로리');
+  console.log(`  평균 절대 오차: ${report.calories.meanAbsoluteError.toFixed(1)} kcal`);
+  console.log(`  평균 절대 백분율 오차: ${percent(report.calories.meanAbsolutePercentageError)}`);
+  console.log(`  평균 부호 오차: ${report.calories.meanSignedError.toFixed(1)} kcal`);
+  console.log(`  허용 오차(±${percent(report.calories.tolerance)}) 이내: ${percent(report.calories.withinToleranceRate)}`);
+
+  console.log('\n음식 인식');
+  console.log(`  재현율: ${percent(report.foods.recall)} (${report.foods.matchedCount}/${report.foods.expectedCount})`);
+  console.log(`  정밀도: ${percent(report.foods.precision)} (${report.foods.matchedCount}/${report.foods.predictedCount})`);
+
+  printCalibration('분석 신뢰도 보정 (칼로리 허용 오차 이내 여부)', report.calibration.analysis);
+  printCalibration('음식별 신뢰도 보정 (라벨 일치 여부)', report.calibration.foods);
+
+  const failed = report.samples.filter(sample => sample.status === 'failed');
+  if (failed.length > 0) {
+    console.log('\n실패한 샘플');
+    failed.forEach(sample => console.log(`  ${sample.id}: ${sample.error}`));
+  }
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+
+  const { options: analysisOptions, errors } = parseAnalysisOptions({
+    detail_level: args.detailLevel,
+    preferred_language: args.language
+  });
+  if (errors.length > 0) {
+    throw new Error(errors.join(' '));
+  }
+  if (args.promptVersion) {
+    getAnalysisPrompt(args.promptVersion);
+    analysisOptions.prompt_version = args.promptVersion;
+  }
+
+  const samples = loadEvaluationDataset(args.datasetPath);
+  const baseProvider = getFoodAnalysisProvider();
+  const provider = args.recordPath ? new RecordingFoodAnalysisProvider(baseProvider) : baseProvider;
+
+  const report = await evaluateAnalysisAccuracy(samples, provider, {
+    analysisOptions,
+    calorieTolerance: args.tolerance
+  });
+
+  printReport(report);
+
+  if (provider instanceof RecordingFoodAnalysisProvider) {
+    fs.writeFileSync(args.recordPath!, JSON.stringify(provider.toFixtures(), null, 2));
+    console.log(`\n응답 fixture 저장: ${args.recordPath}`);
+  }
+
+  if (args.outputPath) {
+    fs.writeFileSync(args.outputPath, JSON.stringify(report, null, 2));
+    console.log(`리포트 저장: ${args.outputPath}`);
+  }
+
+  if (report.evaluatedCount === 0) {
+    process.exitCode = 1;
+  }
+}
+
+main().catch(error => {
+  console.error('평가 실패:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,139 @@
+/**
+ * 식사 이미지 저장소의 고아 파일 정리
+ * (식사 저장 실패나 식사 삭제로 meals 행 없이 남은 users/{userId}/meals/{mealId}/ 폴더,
+ *  끝난 분석 작업이 남긴 users/{userId}/analysis-retry/ 재시도용 원본)
+ *
+ * 사용법:
+ *   npm run gc:images -- [옵션]
+ *
+ * 옵션:
+ *   --dry-run                  삭제/격리하지 않고 리포트만 출력
+ *   --quarantine               삭제 대신 quarantine/<날짜>/ 아래로 옮기기 (보관 기간이 지나면 다음 실행에서 삭제)
+ *   --grace-hours <hours>      마지막 업로드 후 이 시간이 지난 폴더만 정리 (기본값 48)
+ *   --retention-days <days>    격리 파일 보관 기간 (기본값 30)
+ *   --user <userId>            해당 사용자 폴더만 검사
+ *   --output <report.json>     전체 리포트(고아 폴더 목록 포함)를 JSON으로 저장
+ *
+ * IMAGE_CACHE_STORE=supabase면 유효 기간이 지난 처리된 이미지 캐시(cache/processed/)도 함께 삭제
+ * 저장소는 STORAGE_DRIVER 설정을 따름. 처음에는 --dry-run으로 결과를 확인한 뒤 실행 권장
+ */
+import fs from 'fs';
+import {
+  collectOrphanedMealImages,
+  OrphanImageCollectionOptions,
+  OrphanImageReport
+} from '@/lib/storage-gc';
+import { SupabaseImageCacheStore } from '@/lib/image-cache-store';
+
+interface CliArgs {
+  options: OrphanImageCollectionOptions;
+  outputPath?: string;
+}
+
+const BOOLEAN_FLAGS = ['dry-run', 'quarantine'];
+
+function parseArgs(argv: string[]): CliArgs {
+  const flags: Record<string, string> = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) {
+      throw new Error(`알 수 없는 인자입니다: ${arg}`);
+    }
+
+    const name = arg.slice(2);
+    if (BOOLEAN_FLAGS.includes(name)) {
+      flags[name] = 'true';
+      continue;
+    }
+
+    const value = argv[i + 1];
+    if (value === undefined || value.startsWith('--')) {
+      throw new Error(`${arg} 옵션에 값이 필요합니다.`);
+    }
+    flags[name] = value;
+    i++;
+  }
+
+  const parseNonNegative = (flag: string): number | undefined => {
+    if (flags[flag] === undefined) return undefined;
+    const value = Number(flags[flag]);
+    if (!Number.isFinite(value) || value < 0) {
+      throw new Error(`--${flag}는 0 이상의 숫자여야 합니다.`);
+    }
+    return value;
+  };
+
+  const graceHours = parseNonNegative('grace-hours');
+  const retentionDays = parseNonNegative('retention-days');
+
+  return {
+    options: {
+      dryRun: flags['dry-run'] === 'true',
+      action: flags.quarantine === 'true' ? 'quarantine' : 'delete',
+      gracePeriodMs: graceHours !== undefined ? graceHours * 60 * 60 * 1000 : undefined,
+      quarantineRetentionMs: retentionDays !== undefined ? retentionDays * 24 * 60 * 60 * 1000 : undefined,
+      userId: flags.user
+    },
+    outputPath: flags.output
+  };
+}
+
+const megabytes = (bytes: number) => `${(bytes / 1024 / 1024).toFixed(2)} MB`;
+
+function printReport(report: OrphanImageReport) {
+  const mode = report.dryRun ? 'dry run' : report.action === 'quarantine' ? '격리' : '삭제';
+  console.log(`\n=== 고아 이미지 정리 (${mode}, 유예 기간 ${report.gracePeriodMs / 1000 / 60 / 60}시간) ===`);
+  console.log(`검사: 폴더 ${report.scannedFolders}개, 파일 ${report.scannedFiles}개 (${megabytes(report.scannedBytes)})`);
+  console.log(`고아 폴더: ${report.orphans.length}개, 파일 ${report.orphanFiles}개 (${megabytes(report.orphanBytes)})`);
+  console.log(`끝난 분석 작업의 재시도용 원본: ${report.staleRetryImages.length}개 (${megabytes(report.staleRetryBytes)})`);
+  console.log(`유예 기간이라 건너뛴 고아 폴더: ${report.skippedRecentFolders}개`);
+  console.log(`보관 기간이 지난 격리 파일: ${report.expiredQuarantineFiles}개 (${megabytes(report.expiredQuarantineBytes)})`);
+
+  if (!report.dryRun) {
+    if (report.action === 'quarantine') {
+      console.log(`격리한 파일: ${report.quarantinedFiles}개`);
+    }
+    console.log(`회수한 용량: 파일 ${report.reclaimedFiles}개 (${megabytes(report.reclaimedBytes)})`);
+  }
+
+  if (report.errors.length > 0) {
+    console.log('\n오류');
+    report.errors.forEach(error => console.log(`  ${error}`));
+  }
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+
+  const result = await collectOrphanedMealImages(args.options);
+  if (!result.success || !result.data) {
+    throw new Error(result.error || 'Unknown error');
+  }
+
+  printReport(result.data);
+
+  if (!args.options.dryRun && process.env.IMAGE_CACHE_STORE === 'supabase') {
+    try {
+      const purged = await new SupabaseImageCacheStore().purgeExpired();
+      console.log(`만료된 이미지 캐시 삭제: ${purged}개`);
+    } catch (error) {
+      result.data.errors.push(`이미지 캐시 정리 실패: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      console.log(`\n이미지 캐시 정리 실패: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  if (args.outputPath) {
+    fs.writeFileSync(args.outputPath, JSON.stringify(result.data, null, 2));
+    console.log(`리포트 저장: ${args.outputPath}`);
+  }
+
+  if (result.data.errors.length > 0) {
+    process.exitCode = 1;
+  }
+}
+
+main().catch(error => {
+  console.error('정리 실패:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,24 @@
+/**
+ * 분석 작업 정리 (재시도 예정 시각이 지난 작업 실행 + 제한 시간을 넘긴 작업 실패 처리)
+ *
+ * 사용법:
+ *   npm run jobs:sweep
+ *
+ * 서버 프로세스가 유지되는 배포에서는 서버가 주기적으로 실행하므로 필요 없음 (src/instrumentation.ts)
+ * 서버리스 배포에서는 ANALYSIS_JOB_SWEEP_INTERVAL_MS=0으로 두고 이 스크립트를 1분 간격 cron으로 실행
+ */
+import { sweepAnalysisJobs } from '@/lib/analysis-jobs';
+
+async function main() {
+  const result = await sweepAnalysisJobs();
+  if (!result.success || !result.data) {
+    throw new Error(result.error || 'Unknown error');
+  }
+
+  console.log(`재시도 실행: ${result.data.retried}개, 시간 초과 처리: ${result.data.timedOut}개`);
+}
+
+main().catch(error => {
+  console.error('작업 정리 실패:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
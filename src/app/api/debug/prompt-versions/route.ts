@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { ANALYSIS_PROMPTS, getPromptRollout } from '@/lib/prompt-registry'
+import { getPromptVersionStats } from '@/lib/prompt-version-stats'
+
+// 프롬프트 버전별 수정률/신뢰도 비교 (?since=YYYY-MM-DD)
+export async function GET(request: NextRequest) {
+  // 개발 환경에서만 작동
+  if (process.env.NODE_ENV !== 'development') {
+    return NextResponse.json(
+      { error: 'This endpoint is only available in development' },
+      { status: 403 }
+    )
+  }
+
+  const sinceParam = request.nextUrl.searchParams.get('since')
+  const since = sinceParam ? new Date(sinceParam) : undefined
+  if (since && Number.isNaN(since.getTime())) {
+    return NextResponse.json(
+      { success: false, error: 'since는 YYYY-MM-DD 형식이어야 합니다.' },
+      { status: 400 }
+    )
+  }
+
+  const result = await getPromptVersionStats(since)
+  if (!result.success) {
+    return NextResponse.json(
+      { success: false, error: result.error },
+      { status: 500 }
+    )
+  }
+
+  return NextResponse.json({
+    success: true,
+    prompts: ANALYSIS_PROMPTS.map(({ id, description }) => ({ id, description })),
+    rollout: getPromptRollout(),
+    stats: result.data
+  })
+}
@@ -0,0 +1,166 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { extractBearerToken, getUserFromToken } from '@/lib/auth-utils';
+import {
+  checkRateLimit,
+  rateLimiters,
+  getClientIP,
+  getUserAgent,
+  logSecurityEvent
+} from '@/lib/security';
+import { saveMealCorrection, getMealCorrections } from '@/lib/meal-corrections';
+import { createValidationFailureResponse } from '@/lib/meal-recording';
+import { MealCorrectionInput } from '@/types/food-analysis';
+
+const ERROR_STATUS = {
+  NOT_FOUND: 404,
+  FORBIDDEN: 403,
+  INVALID_CORRECTION: 400,
+  VALIDATION_FAILED: 422,
+  DATABASE_ERROR: 500
+} as const;
+
+// 식사 분석 결과 수정 (AI 원본과 수정 내역은 별도 보관)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  const clientIP = getClientIP(request);
+  const userAgent = getUserAgent(request);
+
+  try {
+    // 1. Rate limiting 체크
+    const rateLimitResult = await checkRateLimit(rateLimiters.general, clientIP);
+    if (!rateLimitResult.allowed) {
+      return NextResponse.json(
+        { success: false, error: '요청이 너무 많습니다. 잠시 후 다시 시도해주세요.' },
+        { status: 429 }
+      );
+    }
+
+    // 2. 인증 토큰 검증
+    const authHeader = request.headers.get('authorization');
+    const token = extractBearerToken(authHeader);
+
+    if (!token) {
+      return NextResponse.json(
+        { success: false, error: '인증 토큰이 필요합니다.' },
+        { status: 401 }
+      );
+    }
+
+    const user = await getUserFromToken(token);
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: '유효하지 않은 토큰입니다.' },
+        { status: 401 }
+      );
+    }
+
+    // 3. 요청 본문 파싱
+    const { id: mealId } = await params;
+    let corrections: MealCorrectionInput;
+    try {
+      const body = await request.json();
+      corrections = body.corrections;
+    } catch {
+      return NextResponse.json(
+        { success: false, error: '잘못된 JSON 형식입니다.' },
+        { status: 400 }
+      );
+    }
+
+    if (!corrections || !Array.isArray(corrections.foods)) {
+      return NextResponse.json(
+        { success: false, error: 'corrections.foods 필드가 필요합니다.' },
+        { status: 400 }
+      );
+    }
+
+    // 4. 수정 적용 및 저장
+    const result = await saveMealCorrection(user.id, mealId, corrections);
+
+    // 식사 타입 변경이 시간대/중복 규칙에 맞지 않으면 업로드와 같은 422 응답
+    if (result.code === 'VALIDATION_FAILED' && result.validation && result.analysis) {
+      logSecurityEvent('MEAL_CORRECTION_VALIDATION_FAILED', {
+        userId: user.id,
+        mealId,
+        mealType: result.analysis.meal_type,
+        clientIP,
+        userAgent
+      });
+      return createValidationFailureResponse(result.validation, result.analysis);
+    }
+
+    if (!result.success || !result.data) {
+      return NextResponse.json(
+        { success: false, error: result.error || '식사 수정에 실패했습니다.' },
+        { status: ERROR_STATUS[result.code || 'DATABASE_ERROR'] }
+      );
+    }
+
+    logSecurityEvent('MEAL_CORRECTION_SAVED', {
+      userId: user.id,
+      mealId,
+      correctionId: result.data.correction_id,
+      foodCount: result.data.result.foods.length,
+      totalCalories: result.data.result.total_calories,
+      clientIP,
+      userAgent
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: result.data.result,
+      meal_id: mealId,
+      warnings: result.data.warnings,
+      message: '식사 기록이 수정되었습니다.'
+    });
+
+  } catch (error) {
+    console.error('Meal correction error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json(
+      {
+        success: false,
+        error: '식사 수정 중 오류가 발생했습니다.',
+        details: process.env.NODE_ENV === 'development' ? errorMessage : undefined
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// 식사 수정 이력 조회
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  const authHeader = request.headers.get('authorization');
+  const token = extractBearerToken(authHeader);
+
+  if (!token) {
+    return NextResponse.json(
+      { success: false, error: '인증 토큰이 필요합니다.' },
+      { status: 401 }
+    );
+  }
+
+  const user = await getUserFromToken(token);
+  if (!user) {
+    return NextResponse.json(
+      { success: false, error: '유효하지 않은 토큰입니다.' },
+      { status: 401 }
+    );
+  }
+
+  const { id: mealId } = await params;
+  const result = await getMealCorrections(user.id, mealId);
+  if (!result.success) {
+    return NextResponse.json(
+      { success: false, error: result.error || '수정 이력을 불러올 수 없습니다.' },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json({ success: true, data: result.data });
+}
@@ -68,7 +68,7 @@ export async function GET(request: NextRequest) {
       result.data.forEach(meal => {
         // created_at이 없으면 현재 날짜 사용
         const createdAt = meal.created_at || new Date().toISOString()
-        const mealDate = createdAt.split('T')[0] // YYYY-MM-DD 형식
+        const mealDate = meal.meal_date || createdAt.split('T')[0] // YYYY-MM-DD 형식 (가져온 과거 식사는 촬영 날짜)
         
         if (!mealsByDate[mealDate]) {
           mealsByDate[mealDate] = {
@@ -92,9 +92,19 @@ export async function GET(request: NextRequest) {
             name: mealName,
             calories: meal.total_calories,
             time: createdAt.split('T')[1].substring(0, 5), // HH:MM
-            foods: foods
+            foods: foods,
+            unverified: meal.input_mode === 'text', // 사진 없이 텍스트로 기록
+            mock: meal.is_mock_data === true, // 테스트 데이터 (합계에서 제외)
+            possiblyReused: meal.possibly_reused === true, // 이전 사진 재사용 의심
+            late: meal.photo_freshness === 'late', // 촬영 시각이 늦은 사진
+            imported: meal.analysis_result?.metadata?.imported === true, // 과거 사진 가져오기로 기록
+            hasPhoto: !!(meal.image_path || meal.image_url), // 사진 URL은 /api/meals/images에서 발급
+            photoPlaceholder: meal.image_placeholder || undefined, // 썸네일 로딩 전 흐린 미리보기
+            photoColor: meal.image_dominant_color || undefined
           })
-          mealsByDate[mealDate].userTotalCalories += meal.total_calories
+          if (!meal.is_mock_data) {
+            mealsByDate[mealDate].userTotalCalories += meal.total_calories
+          }
         } else {
           // 파트너의 식사
           mealsByDate[mealDate].partnerMeals.push({
@@ -103,9 +113,19 @@ export async function GET(request: NextRequest) {
             name: mealName,
             calories: meal.total_calories,
             time: createdAt.split('T')[1].substring(0, 5), // HH:MM
-            foods: foods
+            foods: foods,
+            unverified: meal.input_mode === 'text',
+            mock: meal.is_mock_data === true,
+            possiblyReused: meal.possibly_reused === true,
+            late: meal.photo_freshness === 'late',
+            imported: meal.analysis_result?.metadata?.imported === true,
+            hasPhoto: !!(meal.image_path || meal.image_url),
+            photoPlaceholder: meal.image_placeholder || undefined,
+            photoColor: meal.image_dominant_color || undefined
           })
-          mealsByDate[mealDate].partnerTotalCalories += meal.total_calories
+          if (!meal.is_mock_data) {
+            mealsByDate[mealDate].partnerTotalCalories += meal.total_calories
+          }
         }
       })
     }
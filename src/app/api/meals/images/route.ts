@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { extractBearerToken, getUserFromToken } from '@/lib/auth-utils';
+import { checkRateLimit, rateLimiters, getClientIP, getUserAgent, logSecurityEvent } from '@/lib/security';
+import { getSignedMealImageUrls, MAX_SIGNED_MEAL_IMAGES, MealImageVariant } from '@/lib/meal-images';
+
+const IMAGE_VARIANTS: MealImageVariant[] = ['original', 'thumbnail'];
+
+// 식사 사진의 짧게 유효한 서명된 URL 발급 ({ meal_ids: string[], variant?: 'original' | 'thumbnail' })
+// 본인 식사와 활성 커플 상대의 식사만 발급하고, URL이 만료되기 전에 클라이언트가 다시 요청
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  const clientIP = getClientIP(request);
+  const rateLimitResult = await checkRateLimit(rateLimiters.general, clientIP);
+  if (!rateLimitResult.allowed) {
+    return NextResponse.json(
+      { success: false, error: '요청이 너무 많습니다. 잠시 후 다시 시도해주세요.' },
+      { status: 429 }
+    );
+  }
+
+  const authHeader = request.headers.get('authorization');
+  const token = extractBearerToken(authHeader);
+
+  if (!token) {
+    return NextResponse.json(
+      { success: false, error: '인증 토큰이 필요합니다.' },
+      { status: 401 }
+    );
+  }
+
+  const user = await getUserFromToken(token);
+  if (!user) {
+    return NextResponse.json(
+      { success: false, error: '유효하지 않은 토큰입니다.' },
+      { status: 401 }
+    );
+  }
+
+  let mealIds: unknown;
+  let variant: unknown;
+  try {
+    const body = await request.json();
+    mealIds = body.meal_ids;
+    variant = body.variant ?? 'original';
+  } catch {
+    return NextResponse.json(
+      { success: false, error: '잘못된 JSON 형식입니다.' },
+      { status: 400 }
+    );
+  }
+
+  if (!Array.isArray(mealIds) || mealIds.length === 0 || !mealIds.every(id => typeof id === 'string')) {
+    return NextResponse.json(
+      { success: false, error: 'meal_ids는 식사 ID 배열이어야 합니다.' },
+      { status: 400 }
+    );
+  }
+
+  if (mealIds.length > MAX_SIGNED_MEAL_IMAGES) {
+    return NextResponse.json(
+      { success: false, error: `한 번에 최대 ${MAX_SIGNED_MEAL_IMAGES}개 식사의 이미지만 요청할 수 있습니다.` },
+      { status: 400 }
+    );
+  }
+
+  if (!IMAGE_VARIANTS.includes(variant as MealImageVariant)) {
+    return NextResponse.json(
+      { success: false, error: `variant는 ${IMAGE_VARIANTS.join(', ')} 중 하나여야 합니다.` },
+      { status: 400 }
+    );
+  }
+
+  const result = await getSignedMealImageUrls(user.id, mealIds, variant as MealImageVariant);
+  if (!result.success || !result.data) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: '이미지 URL을 발급할 수 없습니다.',
+        details: process.env.NODE_ENV === 'development' ? result.error : undefined
+      },
+      { status: 500 }
+    );
+  }
+
+  if (result.data.denied.length > 0) {
+    logSecurityEvent('MEAL_IMAGE_ACCESS_DENIED', {
+      userId: user.id,
+      mealIds: result.data.denied,
+      clientIP,
+      userAgent: getUserAgent(request)
+    }, 'warn');
+  }
+
+  return NextResponse.json({ success: true, data: result.data }, {
+    headers: {
+      'Cache-Control': 'no-cache, no-store, must-revalidate'
+    }
+  });
+}
@@ -0,0 +1,153 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  checkRateLimit,
+  rateLimiters,
+  getClientIP,
+  getUserAgent,
+  logSecurityEvent
+} from '@/lib/security';
+import { extractBearerToken, getUserFromToken } from '@/lib/auth-utils';
+import { getFoodAnalysisProvider } from '@/lib/analysis-provider';
+import { getAnalysisCache } from '@/lib/analysis-cache';
+import { parseAnalysisOptions } from '@/lib/analysis-prompts';
+import { importMealPhotos, MAX_IMPORT_FILES, MealImportFile } from '@/lib/meal-import';
+import { MealImportStatus } from '@/types/food-analysis';
+
+// 과거 식사 사진 일괄 가져오기 (EXIF 촬영 시각 기준으로 날짜/식사 타입 기록)
+// multipart: images (여러 개), save_images, detail_level, include_nutrition, preferred_language
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  const startTime = Date.now();
+  const clientIP = getClientIP(request);
+  const userAgent = getUserAgent(request);
+
+  try {
+    // 1. 분석 provider 선택 및 환경 변수 검증
+    const provider = getFoodAnalysisProvider();
+    const envValidation = provider.validateEnvironment();
+    if (!envValidation.isValid) {
+      throw new Error(`환경 변수 누락: ${envValidation.errors.join(', ')}`);
+    }
+
+    // 2. Rate limiting 체크
+    const rateLimitResult = await checkRateLimit(rateLimiters.general, clientIP);
+    if (!rateLimitResult.allowed) {
+      return NextResponse.json(
+        { success: false, error: '요청이 너무 많습니다. 잠시 후 다시 시도해주세요.' },
+        { status: 429 }
+      );
+    }
+
+    // 3. 인증 토큰 검증
+    const authHeader = request.headers.get('authorization');
+    const token = extractBearerToken(authHeader);
+
+    if (!token) {
+      return NextResponse.json(
+        { success: false, error: '인증 토큰이 필요합니다.' },
+        { status: 401 }
+      );
+    }
+
+    const user = await getUserFromToken(token);
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: '유효하지 않은 토큰입니다.' },
+        { status: 401 }
+      );
+    }
+
+    // 4. FormData 파싱
+    const formData = await request.formData();
+    const imageFiles = formData.getAll('images').filter((entry): entry is File => entry instanceof File);
+    const saveImages = formData.get('save_images') !== 'false'; // 가져오기는 기본적으로 이미지도 저장
+    const { options: analysisOptions, errors: optionErrors } = parseAnalysisOptions({
+      detail_level: formData.get('detail_level'),
+      include_nutrition: formData.get('include_nutrition'),
+      preferred_language: formData.get('preferred_language')
+    });
+
+    if (optionErrors.length > 0) {
+      return NextResponse.json(
+        { success: false, error: optionErrors.join(' ') },
+        { status: 400 }
+      );
+    }
+
+    if (imageFiles.length === 0) {
+      return NextResponse.json(
+        { success: false, error: '이미지 파일이 필요합니다.' },
+        { status: 400 }
+      );
+    }
+
+    if (imageFiles.length > MAX_IMPORT_FILES) {
+      return NextResponse.json(
+        { success: false, error: `한 번에 최대 ${MAX_IMPORT_FILES}개까지 가져올 수 있습니다.` },
+        { status: 400 }
+      );
+    }
+
+    const files: MealImportFile[] = await Promise.all(
+      imageFiles.map(async file => ({
+        fileName: file.name,
+        buffer: Buffer.from(await file.arrayBuffer())
+      }))
+    );
+
+    // 5. 파일별 분석 및 저장 (동시 처리 수 제한)
+    const results = await importMealPhotos(user.id, files, {
+      provider,
+      cache: process.env.ANALYSIS_CACHE_ENABLED !== 'false' ? getAnalysisCache() : null,
+      analysisOptions,
+      saveImages,
+      clientIP,
+      userAgent
+    });
+
+    const summary: Record<MealImportStatus, number> & { total: number } = {
+      total: results.length,
+      imported: results.filter(result => result.status === 'imported').length,
+      duplicate: results.filter(result => result.status === 'duplicate').length,
+      skipped: results.filter(result => result.status === 'skipped').length,
+      failed: results.filter(result => result.status === 'failed').length
+    };
+
+    logSecurityEvent('MEAL_IMPORT_COMPLETED', {
+      userId: user.id,
+      ...summary,
+      processingTime: Date.now() - startTime,
+      clientIP,
+      userAgent
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: { results, summary }
+    }, {
+      headers: {
+        'X-Processing-Time': (Date.now() - startTime).toString(),
+        'Cache-Control': 'no-cache, no-store, must-revalidate'
+      }
+    });
+
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Meal import error:', error);
+
+    logSecurityEvent('MEAL_IMPORT_ERROR', {
+      error: errorMessage,
+      processingTime: Date.now() - startTime,
+      clientIP,
+      userAgent
+    });
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: '식사 가져오기 중 오류가 발생했습니다.',
+        details: process.env.NODE_ENV === 'development' ? errorMessage : undefined
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { extractBearerToken, getUserFromToken } from '@/lib/auth-utils';
+import { getAnalysisJob } from '@/lib/analysis-jobs';
+
+// 비동기 분석 작업 상태 조회 (queued → processing → succeeded/failed)
+// AI 장애로 재시도 대기 중인 작업은 조회와 관계없이 서버의 작업 정리(sweepAnalysisJobs)가 다시 실행
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  const authHeader = request.headers.get('authorization');
+  const token = extractBearerToken(authHeader);
+
+  if (!token) {
+    return NextResponse.json(
+      { success: false, error: '인증 토큰이 필요합니다.' },
+      { status: 401 }
+    );
+  }
+
+  const user = await getUserFromToken(token);
+  if (!user) {
+    return NextResponse.json(
+      { success: false, error: '유효하지 않은 토큰입니다.' },
+      { status: 401 }
+    );
+  }
+
+  const { id: jobId } = await params;
+  const result = await getAnalysisJob(user.id, jobId);
+  if (!result.success) {
+    return NextResponse.json(
+      { success: false, error: result.error || '분석 작업을 불러올 수 없습니다.' },
+      { status: 500 }
+    );
+  }
+
+  if (!result.data) {
+    return NextResponse.json(
+      { success: false, error: '분석 작업을 찾을 수 없습니다.' },
+      { status: 404 }
+    );
+  }
+
+  const job = result.data;
+  const isFinished = job.status === 'succeeded' || job.status === 'failed';
+
+  return NextResponse.json({ success: true, data: job }, {
+    headers: {
+      // 진행 중이면 다음 조회까지 기다릴 시간(초) 안내
+      ...(!isFinished && { 'Retry-After': '2' }),
+      'Cache-Control': 'no-cache, no-store, must-revalidate'
+    }
+  });
+}
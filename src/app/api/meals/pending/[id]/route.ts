@@ -0,0 +1,162 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { extractBearerToken, getUserFromToken } from '@/lib/auth-utils';
+import {
+  checkRateLimit,
+  rateLimiters,
+  getClientIP,
+  getUserAgent,
+  logSecurityEvent
+} from '@/lib/security';
+import { confirmPendingMeal, discardPendingMeal } from '@/lib/pending-meals';
+import { buildValidationDetails, createValidationFailureResponse } from '@/lib/meal-recording';
+import { MealCorrectionInput } from '@/types/food-analysis';
+
+const ERROR_STATUS = {
+  NOT_FOUND: 404,
+  EXPIRED: 410,
+  INVALID_CORRECTION: 400,
+  VALIDATION_FAILED: 422,
+  DATABASE_ERROR: 500
+} as const;
+
+// 신뢰도가 낮아 확인 대기 중인 분석 결과를 확인(선택적으로 수정)하고 식사로 저장
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  const clientIP = getClientIP(request);
+  const userAgent = getUserAgent(request);
+
+  try {
+    // 1. Rate limiting 체크
+    const rateLimitResult = await checkRateLimit(rateLimiters.general, clientIP);
+    if (!rateLimitResult.allowed) {
+      return NextResponse.json(
+        { success: false, error: '요청이 너무 많습니다. 잠시 후 다시 시도해주세요.' },
+        { status: 429 }
+      );
+    }
+
+    // 2. 인증 토큰 검증
+    const authHeader = request.headers.get('authorization');
+    const token = extractBearerToken(authHeader);
+
+    if (!token) {
+      return NextResponse.json(
+        { success: false, error: '인증 토큰이 필요합니다.' },
+        { status: 401 }
+      );
+    }
+
+    const user = await getUserFromToken(token);
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: '유효하지 않은 토큰입니다.' },
+        { status: 401 }
+      );
+    }
+
+    // 3. 요청 본문 파싱 (수정 없이 확인만 하는 경우 본문 생략 가능)
+    const { id: pendingId } = await params;
+    let corrections: MealCorrectionInput | undefined;
+    try {
+      const text = await request.text();
+      corrections = text ? JSON.parse(text).corrections : undefined;
+    } catch {
+      return NextResponse.json(
+        { success: false, error: '잘못된 JSON 형식입니다.' },
+        { status: 400 }
+      );
+    }
+
+    if (corrections !== undefined && (!corrections || !Array.isArray(corrections.foods))) {
+      return NextResponse.json(
+        { success: false, error: 'corrections.foods 필드가 필요합니다.' },
+        { status: 400 }
+      );
+    }
+
+    // 4. 확인 및 저장
+    const result = await confirmPendingMeal(user.id, pendingId, corrections, { clientIP, userAgent });
+
+    if (result.code === 'VALIDATION_FAILED' && result.validation && result.analysis) {
+      return createValidationFailureResponse(result.validation, result.analysis);
+    }
+
+    if (!result.success || !result.data) {
+      return NextResponse.json(
+        { success: false, error: result.error || '식사 저장에 실패했습니다.' },
+        { status: ERROR_STATUS[result.code || 'DATABASE_ERROR'] }
+      );
+    }
+
+    logSecurityEvent('PENDING_MEAL_CONFIRMED', {
+      userId: user.id,
+      pendingId,
+      mealId: result.data.meal_id,
+      corrected: !!corrections,
+      totalCalories: result.data.result.total_calories,
+      clientIP,
+      userAgent
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: result.data.result,
+      meal_id: result.data.meal_id,
+      warnings: result.data.warnings,
+      // 늦은 사진으로 저장된 경우 안내용
+      ...(result.validation?.freshnessValidation?.isLate && {
+        validation: buildValidationDetails(result.validation)
+      }),
+      message: '식사가 저장되었습니다.'
+    });
+
+  } catch (error) {
+    console.error('Pending meal confirmation error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json(
+      {
+        success: false,
+        error: '식사 저장 중 오류가 발생했습니다.',
+        details: process.env.NODE_ENV === 'development' ? errorMessage : undefined
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// 확인 대기 중인 분석 결과 폐기
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  const authHeader = request.headers.get('authorization');
+  const token = extractBearerToken(authHeader);
+
+  if (!token) {
+    return NextResponse.json(
+      { success: false, error: '인증 토큰이 필요합니다.' },
+      { status: 401 }
+    );
+  }
+
+  const user = await getUserFromToken(token);
+  if (!user) {
+    return NextResponse.json(
+      { success: false, error: '유효하지 않은 토큰입니다.' },
+      { status: 401 }
+    );
+  }
+
+  const { id: pendingId } = await params;
+  const result = await discardPendingMeal(user.id, pendingId);
+  if (!result.success) {
+    return NextResponse.json(
+      { success: false, error: result.error || '분석 결과를 삭제할 수 없습니다.' },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json({ success: true, message: '분석 결과가 삭제되었습니다.' });
+}
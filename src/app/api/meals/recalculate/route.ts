@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { extractBearerToken, getUserFromToken } from '@/lib/auth-utils';
+import { checkRateLimit, rateLimiters, getClientIP } from '@/lib/security';
+import { responseProcessor } from '@/lib/response-processor';
+import { FoodAnalysisResult, MealCorrectionInput } from '@/types/food-analysis';
+
+// 저장되지 않은 분석 결과에 수정 사항을 적용해 총합만 재계산 (저장하지 않음)
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  const startTime = Date.now();
+  const clientIP = getClientIP(request);
+
+  try {
+    // 1. Rate limiting 체크
+    const rateLimitResult = await checkRateLimit(rateLimiters.general, clientIP);
+    if (!rateLimitResult.allowed) {
+      return NextResponse.json(
+        { success: false, error: '요청이 너무 많습니다. 잠시 후 다시 시도해주세요.' },
+        { status: 429 }
+      );
+    }
+
+    // 2. 인증 토큰 검증
+    const authHeader = request.headers.get('authorization');
+    const token = extractBearerToken(authHeader);
+
+    if (!token) {
+      return NextResponse.json(
+        { success: false, error: '인증 토큰이 필요합니다.' },
+        { status: 401 }
+      );
+    }
+
+    const user = await getUserFromToken(token);
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: '유효하지 않은 토큰입니다.' },
+        { status: 401 }
+      );
+    }
+
+    // 3. 요청 본문 파싱
+    let original: FoodAnalysisResult;
+    let corrections: MealCorrectionInput;
+    try {
+      const body = await request.json();
+      original = body.original;
+      corrections = body.corrections;
+    } catch {
+      return NextResponse.json(
+        { success: false, error: '잘못된 JSON 형식입니다.' },
+        { status: 400 }
+      );
+    }
+
+    if (!original || !Array.isArray(original.foods) || !corrections) {
+      return NextResponse.json(
+        { success: false, error: 'original, corrections 필드가 필요합니다.' },
+        { status: 400 }
+      );
+    }
+
+    // 4. 재계산
+    const validationResult = responseProcessor.applyCorrections(original, corrections, startTime);
+    if (!validationResult.isValid) {
+      return NextResponse.json(
+        { success: false, error: validationResult.errors.join(', '), warnings: validationResult.warnings },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: validationResult.corrected_data,
+      warnings: validationResult.warnings
+    });
+
+  } catch (error) {
+    console.error('Meal recalculation error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json(
+      {
+        success: false,
+        error: '재계산 중 오류가 발생했습니다.',
+        details: process.env.NODE_ENV === 'development' ? errorMessage : undefined
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -62,8 +62,14 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
         calories,
         meal_type,
         photo_url,
+        image_placeholder,
+        image_dominant_color,
         description,
+        nutritional_info,
+        input_mode,
+        is_mock_data,
         meal_date,
+        imported:analysis_result->metadata->imported,
         created_at,
         updated_at,
         users!inner(id, email, display_name)
@@ -108,13 +114,21 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
     const transformedMeals: (MealAnalysisRecord & { authorName?: string; authorEmail?: string })[] = meals.map((meal) => ({
       id: meal.id,
       user_id: meal.user_id,
-      image_url: meal.photo_url || '',
+      image_path: meal.photo_url || undefined, // 표시용 URL은 /api/meals/images에서 서명해서 발급
+      image_placeholder: meal.image_placeholder || undefined,
+      image_dominant_color: meal.image_dominant_color || undefined,
       meal_type: meal.meal_type,
       total_calories: meal.calories || 0,
+      nutritional_info: meal.nutritional_info || undefined,
+      input_mode: meal.input_mode || 'photo',
+      is_mock_data: meal.is_mock_data ?? false,
+      meal_date: meal.meal_date,
       analysis_result: {
         total_calories: meal.calories || 0,
         meal_type: meal.meal_type,
         analysis_confidence: 0.85, // 기본값
+        nutritional_info: meal.nutritional_info || undefined,
+        ...(meal.imported === true && { metadata: { imported: true } }), // 과거 사진 가져오기 표시용
         foods: [
           {
             name: meal.meal_name,
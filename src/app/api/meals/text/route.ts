@@ -0,0 +1,214 @@
+import { NextRequest, NextResponse } from 'next/server';
+import crypto from 'crypto';
+import {
+  checkRateLimit,
+  rateLimiters,
+  getClientIP,
+  getUserAgent,
+  logSecurityEvent
+} from '@/lib/security';
+import { extractBearerToken, getUserFromToken } from '@/lib/auth-utils';
+import { recordMealAnalysis, createValidationFailureResponse } from '@/lib/meal-recording';
+import {
+  parseMealDescription,
+  MEAL_TEXT_PARSER_VERSION,
+  MAX_MEAL_DESCRIPTION_LENGTH
+} from '@/lib/meal-text-parser';
+import { responseProcessor } from '@/lib/response-processor';
+import { FoodAnalysisResult } from '@/types/food-analysis';
+
+const VALID_MEAL_TYPES = ['breakfast', 'lunch', 'dinner', 'snack'];
+
+// 사진 없이 텍스트 설명으로 식사 기록 (사진 인증이 없으므로 미인증으로 표시)
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  const startTime = Date.now();
+  const clientIP = getClientIP(request);
+  const userAgent = getUserAgent(request);
+  let user = null;
+
+  try {
+    // 1. Rate limiting 체크
+    const rateLimitResult = await checkRateLimit(rateLimiters.general, clientIP);
+    if (!rateLimitResult.allowed) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: '요청이 너무 많습니다. 잠시 후 다시 시도해주세요.',
+          retryAfter: rateLimitResult.retryAfter
+        },
+        {
+          status: 429,
+          headers: {
+            'X-RateLimit-Remaining': '0',
+            'Retry-After': Math.ceil((rateLimitResult.retryAfter || 60000) / 1000).toString()
+          }
+        }
+      );
+    }
+
+    // 2. 인증 토큰 검증
+    const authHeader = request.headers.get('authorization');
+    const token = extractBearerToken(authHeader);
+
+    if (!token) {
+      return NextResponse.json(
+        { success: false, error: '인증 토큰이 필요합니다.' },
+        { status: 401 }
+      );
+    }
+
+    user = await getUserFromToken(token);
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: '유효하지 않은 토큰입니다.' },
+        { status: 401 }
+      );
+    }
+
+    // 3. 요청 본문 파싱
+    let description: unknown;
+    let requestedMealType: unknown;
+    let saveToHistory = true;
+    try {
+      const body = await request.json();
+      description = body.description;
+      requestedMealType = body.meal_type;
+      saveToHistory = body.save_to_history !== false;
+    } catch {
+      return NextResponse.json(
+        { success: false, error: '잘못된 JSON 형식입니다.' },
+        { status: 400 }
+      );
+    }
+
+    if (typeof description !== 'string' || description.trim().length === 0) {
+      return NextResponse.json(
+        { success: false, error: '식사 설명이 필요합니다.' },
+        { status: 400 }
+      );
+    }
+
+    if (description.length > MAX_MEAL_DESCRIPTION_LENGTH) {
+      return NextResponse.json(
+        { success: false, error: `식사 설명은 ${MAX_MEAL_DESCRIPTION_LENGTH}자 이하로 입력해주세요.` },
+        { status: 400 }
+      );
+    }
+
+    if (requestedMealType !== undefined && !VALID_MEAL_TYPES.includes(requestedMealType as string)) {
+      return NextResponse.json(
+        { success: false, error: '유효하지 않은 식사 타입입니다.' },
+        { status: 400 }
+      );
+    }
+
+    // 4. 텍스트 파싱
+    const { foods, unmatched } = parseMealDescription(description);
+    if (foods.length === 0) {
+      return NextResponse.json(
+        { success: false, error: '설명에서 음식을 찾을 수 없습니다. 예: "공기밥 1공기, 된장찌개"' },
+        { status: 400 }
+      );
+    }
+
+    // 5. 사진 분석과 같은 정규화 (참조 DB 교차 검증, 영양 성분 합산)
+    const descriptionHash = crypto.createHash('md5').update(description.trim()).digest('hex');
+    const validationResult = responseProcessor.validateAndProcessResponse(
+      {
+        foods,
+        total_calories: foods.reduce((sum, food) => sum + food.calories, 0),
+        meal_type: requestedMealType
+      },
+      descriptionHash,
+      startTime,
+      0,
+      false,
+      MEAL_TEXT_PARSER_VERSION,
+      undefined,
+      foods.map(food => food.sources) // 칼로리를 직접 적은 음식만 참조 DB 보정 생략
+    );
+
+    if (!validationResult.isValid || !validationResult.corrected_data) {
+      return NextResponse.json(
+        { success: false, error: validationResult.errors.join(', '), warnings: validationResult.warnings },
+        { status: 400 }
+      );
+    }
+
+    const analysisResult = validationResult.corrected_data as FoodAnalysisResult;
+    analysisResult.metadata = { ...analysisResult.metadata, input_mode: 'text' };
+
+    // 참조 DB 값 사용 경고는 텍스트 입력에서는 당연하므로 찾지 못한 음식만 안내
+    const warnings = unmatched.map(name => `"${name}"의 칼로리를 찾을 수 없습니다. 칼로리를 직접 입력해주세요.`);
+
+    // 6. 히스토리 저장 (사진 분석과 같은 식사 규칙 검증)
+    let mealId;
+    if (saveToHistory) {
+      const recordResult = await recordMealAnalysis(user.id, analysisResult, {
+        imageHash: descriptionHash,
+        clientIP,
+        userAgent
+      });
+
+      if (recordResult.status === 'rejected') {
+        return createValidationFailureResponse(recordResult.validation, analysisResult);
+      }
+
+      if (recordResult.status === 'saved') {
+        mealId = recordResult.mealId;
+      }
+    }
+
+    // 7. 성공 로깅
+    logSecurityEvent('MEAL_TEXT_LOGGED', {
+      userId: user.id,
+      mealId,
+      foodCount: analysisResult.foods.length,
+      unmatchedCount: unmatched.length,
+      totalCalories: analysisResult.total_calories,
+      processingTime: Date.now() - startTime,
+      savedToHistory: saveToHistory,
+      clientIP,
+      userAgent
+    });
+
+    // 8. 응답 반환
+    return NextResponse.json({
+      ...responseProcessor.createSuccessResponse(analysisResult),
+      ...(mealId && { meal_id: mealId }),
+      warnings
+    }, {
+      status: 200,
+      headers: {
+        'X-Processing-Time': (Date.now() - startTime).toString(),
+        'X-Total-Calories': analysisResult.total_calories.toString(),
+        ...(mealId && { 'X-Meal-ID': mealId }),
+        'Cache-Control': 'no-cache, no-store, must-revalidate'
+      }
+    });
+
+  } catch (error) {
+    const processingTime = Date.now() - startTime;
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+    logSecurityEvent('MEAL_ANALYSIS_ERROR', {
+      userId: user?.id || 'unknown',
+      error: errorMessage,
+      inputMode: 'text',
+      processingTime,
+      clientIP,
+      userAgent
+    });
+
+    console.error('Meal text logging error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: '식사 기록 중 오류가 발생했습니다. 잠시 후 다시 시도해주세요.',
+        details: process.env.NODE_ENV === 'development' ? errorMessage : undefined
+      },
+      { status: 500 }
+    );
+  }
+}
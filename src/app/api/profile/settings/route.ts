@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { checkRateLimit, rateLimiters, getClientIP, getUserAgent, logSecurityEvent } from '@/lib/security';
+import { extractBearerToken, getUserFromToken } from '@/lib/auth-utils';
+import { getUserPhotoSettings, updateUserPhotoSettings } from '@/lib/user-settings';
+
+async function authenticate(request: NextRequest) {
+  const rateLimitResult = await checkRateLimit(rateLimiters.general, getClientIP(request));
+  if (!rateLimitResult.allowed) {
+    return {
+      error: NextResponse.json(
+        { success: false, error: '요청이 너무 많습니다. 잠시 후 다시 시도해주세요.' },
+        { status: 429 }
+      )
+    };
+  }
+
+  const token = extractBearerToken(request.headers.get('authorization'));
+  if (!token) {
+    return {
+      error: NextResponse.json(
+        { success: false, error: '인증 토큰이 필요합니다.' },
+        { status: 401 }
+      )
+    };
+  }
+
+  const user = await getUserFromToken(token);
+  if (!user) {
+    return {
+      error: NextResponse.json(
+        { success: false, error: '유효하지 않은 토큰입니다.' },
+        { status: 401 }
+      )
+    };
+  }
+
+  return { user };
+}
+
+// 사진 개인정보 설정 조회
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  const { user, error } = await authenticate(request);
+  if (error) return error;
+
+  const settings = await getUserPhotoSettings(user.id);
+  return NextResponse.json({ success: true, data: settings }, {
+    headers: { 'Cache-Control': 'no-cache, no-store, must-revalidate' }
+  });
+}
+
+// 사진 개인정보 설정 변경 ({ keep_photo_taken_at: boolean })
+export async function PATCH(request: NextRequest): Promise<NextResponse> {
+  const { user, error } = await authenticate(request);
+  if (error) return error;
+
+  let keepPhotoTakenAt: unknown;
+  try {
+    const body = await request.json();
+    keepPhotoTakenAt = body.keep_photo_taken_at;
+  } catch {
+    return NextResponse.json(
+      { success: false, error: '잘못된 JSON 형식입니다.' },
+      { status: 400 }
+    );
+  }
+
+  if (typeof keepPhotoTakenAt !== 'boolean') {
+    return NextResponse.json(
+      { success: false, error: 'keep_photo_taken_at은 true 또는 false여야 합니다.' },
+      { status: 400 }
+    );
+  }
+
+  const result = await updateUserPhotoSettings(user.id, { keep_photo_taken_at: keepPhotoTakenAt });
+  if (!result.success || !result.data) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: '설정을 저장할 수 없습니다.',
+        details: process.env.NODE_ENV === 'development' ? result.error : undefined
+      },
+      { status: 500 }
+    );
+  }
+
+  logSecurityEvent('PHOTO_PRIVACY_SETTINGS_UPDATED', {
+    userId: user.id,
+    keepPhotoTakenAt,
+    clientIP: getClientIP(request),
+    userAgent: getUserAgent(request)
+  }, 'info');
+
+  return NextResponse.json({ success: true, data: result.data });
+}
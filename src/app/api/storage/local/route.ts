@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getStorageDriver, LocalStorageDriver } from '@/lib/storage-driver';
+import { STORAGE_CONFIG } from '@/lib/storage';
+
+// local 저장소(STORAGE_DRIVER=local)의 서명된 URL로 파일 제공 (?path=&expires=&signature=)
+// 권한 확인은 URL을 발급할 때 끝났으므로 서명과 만료 시각만 검사
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  const driver = getStorageDriver(STORAGE_CONFIG);
+  if (!(driver instanceof LocalStorageDriver)) {
+    return NextResponse.json(
+      { success: false, error: '찾을 수 없습니다.' },
+      { status: 404 }
+    );
+  }
+
+  const { searchParams } = new URL(request.url);
+  const objectPath = searchParams.get('path');
+  const signature = searchParams.get('signature');
+  const expires = Number(searchParams.get('expires'));
+
+  if (!objectPath || !signature) {
+    return NextResponse.json(
+      { success: false, error: 'path와 signature가 필요합니다.' },
+      { status: 400 }
+    );
+  }
+
+  const file = await driver.readSigned(objectPath, expires, signature).catch(() => null);
+  if (!file) {
+    return NextResponse.json(
+      { success: false, error: '만료되었거나 유효하지 않은 URL입니다.' },
+      { status: 403 }
+    );
+  }
+
+  return new NextResponse(new Uint8Array(file.buffer), {
+    headers: {
+      'Content-Type': file.contentType,
+      'Cache-Control': 'private, no-store'
+    }
+  });
+}
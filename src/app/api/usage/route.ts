@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { checkRateLimit, rateLimiters, getClientIP } from '@/lib/security';
+import { extractBearerToken, getUserFromToken } from '@/lib/auth-utils';
+import { createAIQuotaHeaders, getAIUsageSummary } from '@/lib/ai-usage';
+
+// 로그인한 사용자의 AI 분석 사용량과 남은 한도 조회 (UTC 기준 오늘/이번 달)
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  const rateLimitResult = await checkRateLimit(rateLimiters.general, getClientIP(request));
+  if (!rateLimitResult.allowed) {
+    return NextResponse.json(
+      { success: false, error: '요청이 너무 많습니다. 잠시 후 다시 시도해주세요.' },
+      { status: 429 }
+    );
+  }
+
+  const authHeader = request.headers.get('authorization');
+  const token = extractBearerToken(authHeader);
+
+  if (!token) {
+    return NextResponse.json(
+      { success: false, error: '인증 토큰이 필요합니다.' },
+      { status: 401 }
+    );
+  }
+
+  const user = await getUserFromToken(token);
+  if (!user) {
+    return NextResponse.json(
+      { success: false, error: '유효하지 않은 토큰입니다.' },
+      { status: 401 }
+    );
+  }
+
+  const result = await getAIUsageSummary(user.id);
+  if (!result.success || !result.data) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'AI 사용량을 불러올 수 없습니다.',
+        details: process.env.NODE_ENV === 'development' ? result.error : undefined
+      },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json({ success: true, data: result.data }, {
+    headers: {
+      ...createAIQuotaHeaders(result.data),
+      'Cache-Control': 'no-cache, no-store, must-revalidate'
+    }
+  });
+}
@@ -23,6 +23,8 @@ import {
   AlertCircle
 } from 'lucide-react'
 import Link from 'next/link'
+import Image from 'next/image'
+import { getMealPlaceholderStyle, useMealImageUrls } from '@/hooks/useMealImageUrls'
 
 // 식단 확인 상태 타입
 type MealStatus = 'completed' | 'incomplete' | 'partner-only' | 'both' | 'none'
@@ -37,6 +39,14 @@ interface MealInfo {
   photo?: string
   notes?: string
   ingredients?: string[]
+  unverified?: boolean // 사진 없이 텍스트로 기록한 식사
+  mock?: boolean // 실제 AI 분석이 아닌 테스트 데이터 (합계에서 제외)
+  possiblyReused?: boolean // 이전 식사 사진을 다시 사용한 것으로 의심됨
+  late?: boolean // 식사 시간보다 늦게/다른 시간대에 찍힌 사진
+  imported?: boolean // 과거 사진 가져오기로 기록 (식사 시간에 인증하지 않음)
+  hasPhoto?: boolean // 저장된 사진이 있음 (서명된 썸네일 URL로 표시)
+  photoPlaceholder?: string // 썸네일 로딩 전 흐린 미리보기 (data URL)
+  photoColor?: string // 사진 대표 색상
 }
 
 // 날짜별 상세 식단 데이터 타입
@@ -473,6 +483,15 @@ const MealDetailModal = React.memo(function MealDetailModal({
   isOpen: boolean
   onClose: () => void
 }) {
+  // 모달이 열렸을 때만 사진 썸네일의 서명된 URL 발급 (훅은 조기 반환 전에 호출)
+  const photoMealIds = useMemo(
+    () => isOpen && detailedData
+      ? [...detailedData.userMeals, ...detailedData.partnerMeals].filter(meal => meal.hasPhoto).map(meal => meal.id)
+      : [],
+    [isOpen, detailedData]
+  )
+  const { urls: photoUrls, refresh: refreshPhotoUrls } = useMealImageUrls(photoMealIds, 'thumbnail')
+
   if (!isOpen) return null
 
   // detailedData가 없으면 기본값 사용
@@ -568,6 +587,31 @@ const MealDetailModal = React.memo(function MealDetailModal({
                             </span>
                           </div>
                           <h4 className="font-semibold text-gray-800 mb-1">{meal.name}</h4>
+                          {meal.unverified && (
+                            <span className="inline-block text-xs bg-gray-100 text-gray-600 px-2 py-0.5 rounded mb-1">
+                              사진 없음 · 미인증
+                            </span>
+                          )}
+                          {meal.possiblyReused && (
+                            <span className="inline-block text-xs bg-red-100 text-red-700 px-2 py-0.5 rounded mb-1 ml-1">
+                              재사용 의심 사진
+                            </span>
+                          )}
+                          {meal.late && (
+                            <span className="inline-block text-xs bg-orange-100 text-orange-700 px-2 py-0.5 rounded mb-1 ml-1">
+                              늦은 사진 · 미인증
+                            </span>
+                          )}
+                          {meal.imported && (
+                            <span className="inline-block text-xs bg-purple-100 text-purple-700 px-2 py-0.5 rounded mb-1 ml-1">
+                              가져온 사진 · 미인증
+                            </span>
+                          )}
+                          {meal.mock && (
+                            <span className="inline-block text-xs bg-amber-100 text-amber-700 px-2 py-0.5 rounded mb-1 ml-1">
+                              테스트 데이터 · 통계 제외
+                            </span>
+                          )}
                           <p className="text-blue-600 font-medium mb-2">{meal.calories} kcal</p>
                           
                           {meal.ingredients && (
@@ -585,11 +629,36 @@ const MealDetailModal = React.memo(function MealDetailModal({
                           )}
                         </div>
                         
-                        {meal.photo && (
+                        {(meal.photo || meal.hasPhoto) && (
                           <div className="ml-4 flex-shrink-0">
-                            <div className="w-16 h-16 bg-gray-200 rounded-lg flex items-center justify-center">
-                              <Camera className="w-6 h-6 text-gray-400" />
-                            </div>
+                            {photoUrls[meal.id] || meal.photoPlaceholder || meal.photoColor ? (
+                              <div className="relative w-16 h-16 rounded-lg overflow-hidden bg-gray-200">
+                                {(meal.photoPlaceholder || meal.photoColor) && (
+                                  <div
+                                    className="absolute inset-0 scale-110 blur-sm"
+                                    style={getMealPlaceholderStyle({
+                                      image_placeholder: meal.photoPlaceholder,
+                                      image_dominant_color: meal.photoColor
+                                    })}
+                                  />
+                                )}
+                                {photoUrls[meal.id] && (
+                                  <Image
+                                    src={photoUrls[meal.id]}
+                                    alt={meal.name}
+                                    fill
+                                    className="object-cover"
+                                    sizes="64px"
+                                    unoptimized
+                                    onError={refreshPhotoUrls}
+                                  />
+                                )}
+                              </div>
+                            ) : (
+                              <div className="w-16 h-16 bg-gray-200 rounded-lg flex items-center justify-center">
+                                <Camera className="w-6 h-6 text-gray-400" />
+                              </div>
+                            )}
                           </div>
                         )}
                       </div>
@@ -630,6 +699,31 @@ const MealDetailModal = React.memo(function MealDetailModal({
                             </span>
                           </div>
                           <h4 className="font-semibold text-gray-800 mb-1">{meal.name}</h4>
+                          {meal.unverified && (
+                            <span className="inline-block text-xs bg-gray-100 text-gray-600 px-2 py-0.5 rounded mb-1">
+                              사진 없음 · 미인증
+                            </span>
+                          )}
+                          {meal.possiblyReused && (
+                            <span className="inline-block text-xs bg-red-100 text-red-700 px-2 py-0.5 rounded mb-1 ml-1">
+                              재사용 의심 사진
+                            </span>
+                          )}
+                          {meal.late && (
+                            <span className="inline-block text-xs bg-orange-100 text-orange-700 px-2 py-0.5 rounded mb-1 ml-1">
+                              늦은 사진 · 미인증
+                            </span>
+                          )}
+                          {meal.imported && (
+                            <span className="inline-block text-xs bg-purple-100 text-purple-700 px-2 py-0.5 rounded mb-1 ml-1">
+                              가져온 사진 · 미인증
+                            </span>
+                          )}
+                          {meal.mock && (
+                            <span className="inline-block text-xs bg-amber-100 text-amber-700 px-2 py-0.5 rounded mb-1 ml-1">
+                              테스트 데이터 · 통계 제외
+                            </span>
+                          )}
                           <p className="text-purple-600 font-medium mb-2">{meal.calories} kcal</p>
                           
                           {meal.ingredients && (
@@ -647,11 +741,36 @@ const MealDetailModal = React.memo(function MealDetailModal({
                           )}
                         </div>
                         
-                        {meal.photo && (
+                        {(meal.photo || meal.hasPhoto) && (
                           <div className="ml-4 flex-shrink-0">
-                            <div className="w-16 h-16 bg-gray-200 rounded-lg flex items-center justify-center">
-                              <Camera className="w-6 h-6 text-gray-400" />
-                            </div>
+                            {photoUrls[meal.id] || meal.photoPlaceholder || meal.photoColor ? (
+                              <div className="relative w-16 h-16 rounded-lg overflow-hidden bg-gray-200">
+                                {(meal.photoPlaceholder || meal.photoColor) && (
+                                  <div
+                                    className="absolute inset-0 scale-110 blur-sm"
+                                    style={getMealPlaceholderStyle({
+                                      image_placeholder: meal.photoPlaceholder,
+                                      image_dominant_color: meal.photoColor
+                                    })}
+                                  />
+                                )}
+                                {photoUrls[meal.id] && (
+                                  <Image
+                                    src={photoUrls[meal.id]}
+                                    alt={meal.name}
+                                    fill
+                                    className="object-cover"
+                                    sizes="64px"
+                                    unoptimized
+                                    onError={refreshPhotoUrls}
+                                  />
+                                )}
+                              </div>
+                            ) : (
+                              <div className="w-16 h-16 bg-gray-200 rounded-lg flex items-center justify-center">
+                                <Camera className="w-6 h-6 text-gray-400" />
+                              </div>
+                            )}
                           </div>
                         )}
                       </div>
@@ -866,7 +985,15 @@ function CalendarContent() {
           name: meal.name || '식사',
           calories: meal.calories || 0,
           time: meal.time || '12:00',
-          ingredients: meal.foods?.map((f: any) => f.name) || []
+          ingredients: meal.foods?.map((f: any) => f.name) || [],
+          unverified: meal.unverified === true,
+          mock: meal.mock === true,
+          possiblyReused: meal.possiblyReused === true,
+          late: meal.late === true,
+          imported: meal.imported === true,
+          hasPhoto: meal.hasPhoto === true,
+          photoPlaceholder: meal.photoPlaceholder,
+          photoColor: meal.photoColor
         }))
         
         const partnerMeals: MealInfo[] = (dayData.partnerMeals || []).map((meal: any) => ({
@@ -875,7 +1002,15 @@ function CalendarContent() {
           name: meal.name || '식사',
           calories: meal.calories || 0,
           time: meal.time || '12:00',
-          ingredients: meal.foods?.map((f: any) => f.name) || []
+          ingredients: meal.foods?.map((f: any) => f.name) || [],
+          unverified: meal.unverified === true,
+          mock: meal.mock === true,
+          possiblyReused: meal.possiblyReused === true,
+          late: meal.late === true,
+          imported: meal.imported === true,
+          hasPhoto: meal.hasPhoto === true,
+          photoPlaceholder: meal.photoPlaceholder,
+          photoColor: meal.photoColor
         }))
         
         detailedData[date] = {
@@ -29,9 +29,13 @@ function DashboardContent() {
         <div className="max-w-4xl mx-auto px-8 py-4">
           <div className="flex items-center justify-between">
             <div className="flex items-center space-x-3">
-              <div className="w-10 h-10 bg-gradient-to-r from-pink-500 to-orange-500 rounded-full flex items-center justify-center">
+              <Link
+                href="/profile"
+                title="내 프로필"
+                className="w-10 h-10 bg-gradient-to-r from-pink-500 to-orange-500 rounded-full flex items-center justify-center hover:scale-105 transition-all duration-200"
+              >
                 <User className="w-5 h-5 text-white" />
-              </div>
+              </Link>
               <div>
                 <h1 className="text-xl font-bold bg-gradient-to-r from-pink-600 to-orange-600 bg-clip-text text-transparent">
                   💕 Couple Diet
@@ -4,6 +4,7 @@ import React from 'react'
 import { AuthGuard } from '@/components/auth'
 import { useAuth } from '@/contexts/auth-context'
 import { useUser } from '@/hooks/useUser'
+import { useMealImageUrls } from '@/hooks/useMealImageUrls'
 import { MealPostCard } from '@/components/meals'
 import CalorieSummaryWidget from '@/components/CalorieSummaryWidget'
 import { useState, useEffect, useCallback, useMemo } from 'react'
@@ -12,6 +13,7 @@ import Link from 'next/link'
 import { MealAnalysisRecord } from '@/types/food-analysis'
 import axios from 'axios'
 import { supabase } from '@/lib/supabase'
+import { sumNutrition } from '@/lib/nutrition'
 import dynamic from 'next/dynamic'
 
 
@@ -164,13 +166,15 @@ const MealCard = React.memo(function MealCard({
   isOwnPost, 
   onLike, 
   onComment, 
-  onShare 
+  onShare,
+  onImageError
 }: {
   meal: MealAnalysisRecord & { authorName?: string; authorEmail?: string }
   isOwnPost: boolean
   onLike: () => void
   onComment: () => void
   onShare: () => void
+  onImageError: () => void
 }) {
   return (
     <MealPostCard
@@ -180,6 +184,7 @@ const MealCard = React.memo(function MealCard({
       onLike={onLike}
       onComment={onComment}
       onShare={onShare}
+      onImageError={onImageError}
     />
   )
 })
@@ -191,6 +196,10 @@ function FeedContent() {
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [partnerConnected, setPartnerConnected] = useState<boolean>(false)
+
+  // 저장된 사진은 비공개라 서명된 URL로 표시 (데모 데이터는 image_path가 없어 그대로 사용)
+  const imageMealIds = useMemo(() => meals.filter(meal => meal.image_path).map(meal => meal.id), [meals])
+  const { urls: imageUrls, refresh: refreshImageUrls } = useMealImageUrls(imageMealIds)
   
   // 사용자 정보에서 파트너 연결 상태 초기화
   useEffect(() => {
@@ -227,6 +236,21 @@ function FeedContent() {
     partnerCalories: [1800, 1600, 1000, 0, 0, 0, 0]
   }), [])
 
+  // 오늘 내 식단의 영양소 합계 (식사 날짜 기준, 테스트 데이터 제외)
+  const macroData = useMemo(() => {
+    const today = new Date().toISOString().split('T')[0]
+    const todayMeals = meals.filter(meal =>
+      meal.user_id === user?.id &&
+      !meal.is_mock_data &&
+      (meal.meal_date ?? meal.created_at?.split('T')[0]) === today
+    )
+    return {
+      current: sumNutrition(todayMeals.map(meal =>
+        meal.nutritional_info || meal.analysis_result.nutritional_info
+      ))
+    }
+  }, [meals, user?.id])
+
   // API에서 식단 데이터 가져오기 (무한 스크롤용) - useCallback으로 메모이제이션
   const fetchMeals = useCallback(async (
     filter: 'all' | 'mine' | 'partner' = 'all', 
@@ -499,6 +523,7 @@ function FeedContent() {
             <CalorieSummaryWidget
               dailyData={calorieData}
               weeklyData={weeklyData}
+              macroData={macroData}
               userName={userName}
               partnerName="시은"
             />
@@ -619,7 +644,8 @@ function FeedContent() {
                   return (
                     <MealCard
                       key={meal.id}
-                      meal={meal}
+                      meal={meal.image_path ? { ...meal, image_url: imageUrls[meal.id] } : meal}
+                      onImageError={refreshImageUrls}
                       isOwnPost={isOwnPost}
                       onLike={() => handleLike(meal.id)}
                       onComment={() => handleComment(meal.id)}
@@ -4,12 +4,15 @@ import { useState, useEffect } from 'react'
 import { useParams, useRouter } from 'next/navigation'
 import { AuthGuard } from '@/components/auth'
 import { useUser } from '@/hooks/useUser'
+import { hasMealImage, useMealImageUrls } from '@/hooks/useMealImageUrls'
 import { LoadingSpinner } from '@/components/ui/loading'
 import { FormButton } from '@/components/ui/button'
 import { supabase } from '@/lib/supabase'
 import { MealAnalysisRecord } from '@/types/food-analysis'
 import { deleteMeal } from '@/lib/meals-history'
+import { NUTRITION_KEYS, NUTRITION_LABELS } from '@/lib/nutrition'
 import Image from 'next/image'
+import Link from 'next/link'
 
 function MealDetailContent() {
   const router = useRouter()
@@ -19,6 +22,7 @@ function MealDetailContent() {
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [isDeleting, setIsDeleting] = useState(false)
+  const { urls: imageUrls, refresh: refreshImageUrl } = useMealImageUrls(meal && hasMealImage(meal) ? [meal.id] : [])
 
   useEffect(() => {
     if (!user?.id || !id) return
@@ -118,6 +122,7 @@ function MealDetailContent() {
     hour: '2-digit',
     minute: '2-digit'
   }).format(date)
+  const nutritionalInfo = meal.analysis_result.nutritional_info
 
   return (
     <div className="min-h-screen bg-gray-50 py-8">
@@ -144,20 +149,63 @@ function MealDetailContent() {
         </div>
 
         <div className="bg-white rounded-lg shadow-sm overflow-hidden">
-          {meal.image_url && (
-            <div className="relative h-96 w-full">
-              <Image
-                src={meal.image_url}
-                alt="식사 이미지"
-                fill
-                className="object-cover"
-              />
+          {hasMealImage(meal) && (
+            <div className="relative h-96 w-full bg-gray-100">
+              {imageUrls[meal.id] ? (
+                <Image
+                  src={imageUrls[meal.id]}
+                  alt="식사 이미지"
+                  fill
+                  unoptimized // 서명된 URL은 만료되므로 이미지 최적화 캐시를 거치지 않음
+                  className="object-cover"
+                  onError={refreshImageUrl}
+                />
+              ) : (
+                <div className="absolute inset-0 bg-gradient-to-r from-gray-200 via-gray-300 to-gray-200 animate-pulse" />
+              )}
             </div>
           )}
 
           <div className="p-6">
             <p className="text-gray-500 mb-4">{formattedDate}</p>
 
+            {meal.possibly_reused && (
+              <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg">
+                <p className="text-sm text-red-800">
+                  이전에 기록한 식사 사진과 거의 같은 사진이에요. 다시 사용한 사진일 수 있습니다.
+                  {meal.reused_from_meal_id && (
+                    <Link href={`/meals/${meal.reused_from_meal_id}`} className="ml-1 underline">
+                      비슷한 기록 보기
+                    </Link>
+                  )}
+                </p>
+              </div>
+            )}
+
+            {meal.photo_freshness === 'late' && (
+              <div className="mb-4 p-3 bg-orange-50 border border-orange-200 rounded-lg">
+                <p className="text-sm text-orange-800">
+                  식사 시간대와 맞지 않거나 오래전에 찍힌 사진으로 기록된 식사입니다. 늦은 인증으로 표시돼요.
+                </p>
+              </div>
+            )}
+
+            {meal.analysis_result.metadata?.imported && (
+              <div className="mb-4 p-3 bg-purple-50 border border-purple-200 rounded-lg">
+                <p className="text-sm text-purple-800">
+                  지난 식사 사진을 가져와 촬영 날짜로 기록한 식사입니다. 식사 시간에 인증하지 않아 미인증으로 표시돼요.
+                </p>
+              </div>
+            )}
+
+            {(meal.is_mock_data || meal.analysis_result.metadata?.is_mock_data) && (
+              <div className="mb-4 p-3 bg-amber-50 border border-amber-200 rounded-lg">
+                <p className="text-sm text-amber-800">
+                  실제 AI 분석이 아닌 테스트 데이터로 기록된 식사입니다. 칼로리 통계에는 반영되지 않습니다.
+                </p>
+              </div>
+            )}
+
             <div className="space-y-6">
               <div>
                 <h2 className="text-xl font-semibold mb-2">분석 결과</h2>
@@ -182,33 +230,58 @@ function MealDetailContent() {
                         </div>
                         <div className="text-sm text-gray-600 mt-1">
                           <span>{food.amount}</span>
+                          {food.cooking_method && <span className="ml-2">· {food.cooking_method}</span>}
                           {food.calories && (
                             <span className="ml-4 font-medium">
                               {Math.round(food.calories)} kcal
                             </span>
                           )}
                         </div>
+                        {food.nutrition && (
+                          <div className="text-xs text-gray-500 mt-1">
+                            단백질 {food.nutrition.protein_g}g · 탄수화물 {food.nutrition.carbs_g}g · 지방 {food.nutrition.fat_g}g
+                          </div>
+                        )}
+                        {food.ingredients && food.ingredients.length > 0 && (
+                          <div className="text-xs text-gray-500 mt-1">
+                            재료: {food.ingredients.join(', ')}
+                          </div>
+                        )}
                       </div>
                     ))}
                   </div>
                 </div>
               )}
 
-              {meal.analysis_result.nutritional_info && (
+              {nutritionalInfo && (
                 <div>
                   <h2 className="text-xl font-semibold mb-2">영양 정보</h2>
                   <div className="bg-gray-50 rounded-lg p-4">
-                    <div className="grid grid-cols-2 gap-4">
-                      {Object.entries(meal.analysis_result.nutritional_info).map(([key, value]) => (
+                    <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+                      {NUTRITION_KEYS.map((key) => (
                         <div key={key}>
-                          <span className="font-medium">{key}: </span>
-                          <span>{typeof value === 'number' ? Math.round(value) : value}</span>
+                          <span className="font-medium">{NUTRITION_LABELS[key].label}: </span>
+                          <span>
+                            {nutritionalInfo[key]}
+                            {NUTRITION_LABELS[key].unit}
+                          </span>
                         </div>
                       ))}
                     </div>
                   </div>
                 </div>
               )}
+
+              {meal.analysis_result.health_notes && meal.analysis_result.health_notes.length > 0 && (
+                <div>
+                  <h2 className="text-xl font-semibold mb-2">건강 메모</h2>
+                  <ul className="bg-gray-50 rounded-lg p-4 space-y-1 text-sm text-gray-700">
+                    {meal.analysis_result.health_notes.map((note, index) => (
+                      <li key={index}>• {note}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
             </div>
           </div>
         </div>
@@ -0,0 +1,199 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { createClientComponentClient } from '@supabase/auth-helpers-nextjs'
+import { AuthGuard } from '@/components/auth'
+import { FormButton } from '@/components/ui/button'
+import { MealImportFileResult, MealImportStatus } from '@/types/food-analysis'
+import { IMAGE_ACCEPT_ATTRIBUTE, isSupportedImageFile } from '@/lib/image-formats'
+
+// 요청 하나에 보내는 파일 수 (긴 요청을 피하고 진행 상황을 보여주기 위해 나눠서 전송)
+const IMPORT_CHUNK_SIZE = 5
+
+const STATUS_LABELS: Record<MealImportStatus, { label: string; className: string }> = {
+  imported: { label: '가져옴', className: 'bg-green-100 text-green-700' },
+  duplicate: { label: '이미 기록됨', className: 'bg-blue-100 text-blue-700' },
+  skipped: { label: '건너뜀', className: 'bg-gray-100 text-gray-600' },
+  failed: { label: '실패', className: 'bg-red-100 text-red-700' }
+}
+
+const MEAL_TYPE_LABELS: Record<string, string> = {
+  breakfast: '아침',
+  lunch: '점심',
+  dinner: '저녁',
+  snack: '간식'
+}
+
+function MealImportContent() {
+  const supabase = createClientComponentClient()
+  const [files, setFiles] = useState<File[]>([])
+  const [results, setResults] = useState<MealImportFileResult[]>([])
+  const [processedCount, setProcessedCount] = useState(0)
+  const [isImporting, setIsImporting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(event.target.files || []).filter(isSupportedImageFile)
+    setFiles(selected)
+    setResults([])
+    setProcessedCount(0)
+    setError(null)
+  }
+
+  const handleImport = async () => {
+    if (files.length === 0) return
+
+    setIsImporting(true)
+    setResults([])
+    setProcessedCount(0)
+    setError(null)
+
+    try {
+      const { data: { session }, error: sessionError } = await supabase.auth.getSession()
+
+      if (sessionError || !session?.access_token) {
+        setError('인증 세션을 가져올 수 없습니다. 다시 로그인해주세요.')
+        return
+      }
+
+      for (let start = 0; start < files.length; start += IMPORT_CHUNK_SIZE) {
+        const chunk = files.slice(start, start + IMPORT_CHUNK_SIZE)
+        const formData = new FormData()
+        chunk.forEach(file => formData.append('images', file))
+
+        const response = await fetch('/api/meals/import', {
+          method: 'POST',
+          headers: {
+            'Authorization': `Bearer ${session.access_token}`
+          },
+          body: formData
+        })
+        const result = await response.json()
+
+        const chunkResults: MealImportFileResult[] = result.success && result.data
+          ? result.data.results
+          : chunk.map(file => ({
+              file_name: file.name,
+              status: 'failed' as const,
+              error: result.error || '가져오기에 실패했습니다.'
+            }))
+
+        setResults(previous => [...previous, ...chunkResults])
+        setProcessedCount(start + chunk.length)
+      }
+    } catch (importError) {
+      console.error('Meal import error:', importError)
+      setError('식사 가져오기 중 오류가 발생했습니다.')
+    } finally {
+      setIsImporting(false)
+    }
+  }
+
+  const importedCount = results.filter(result => result.status === 'imported').length
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-4xl mx-auto px-4">
+        <div className="flex justify-between items-center mb-8">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">
+              지난 식사 사진 가져오기
+            </h1>
+            <p className="text-gray-600 mt-2">
+              사진의 촬영 시각(EXIF)으로 날짜와 식사 시간대를 정해서 기록해요.
+            </p>
+          </div>
+          <Link href="/meals">
+            <FormButton className="bg-gray-600 hover:bg-gray-700">
+              식사 목록
+            </FormButton>
+          </Link>
+        </div>
+
+        <div className="bg-white rounded-lg shadow-sm p-6 space-y-4">
+          <input
+            type="file"
+            accept={IMAGE_ACCEPT_ATTRIBUTE}
+            multiple
+            onChange={handleFileChange}
+            disabled={isImporting}
+            className="block w-full text-sm text-gray-700"
+          />
+          <p className="text-sm text-gray-500">
+            촬영 시각 정보가 없거나 오늘 찍은 사진은 건너뛰고, 같은 날 같은 식사가 이미 있으면 가져오지 않아요.
+            가져온 식사는 피드와 캘린더에 가져온 사진(미인증)으로 표시돼요.
+          </p>
+
+          <FormButton
+            onClick={handleImport}
+            loading={isImporting}
+            disabled={files.length === 0 || isImporting}
+            className="bg-blue-600 hover:bg-blue-700"
+          >
+            {isImporting
+              ? `가져오는 중... (${processedCount}/${files.length})`
+              : `${files.length}장 가져오기`}
+          </FormButton>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-red-700">
+              {error}
+            </div>
+          )}
+        </div>
+
+        {results.length > 0 && (
+          <div className="bg-white rounded-lg shadow-sm p-6 mt-6">
+            <h2 className="text-xl font-semibold mb-4">
+              결과 ({importedCount}/{results.length}장 가져옴)
+            </h2>
+            <ul className="divide-y divide-gray-100">
+              {results.map((result, index) => (
+                <li key={`${result.file_name}-${index}`} className="py-3 flex items-start justify-between">
+                  <div>
+                    <p className="font-medium text-gray-800">{result.file_name}</p>
+                    {result.meal_date && (
+                      <p className="text-sm text-gray-500">
+                        {result.meal_date}
+                        {result.meal_type && ` · ${MEAL_TYPE_LABELS[result.meal_type]}`}
+                        {result.total_calories !== undefined && ` · ${result.total_calories} kcal`}
+                        {result.is_mock_data && ' · 테스트 데이터'}
+                      </p>
+                    )}
+                    {result.error && result.status !== 'imported' && (
+                      <p className="text-sm text-gray-500">{result.error}</p>
+                    )}
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    {result.meal_id && (
+                      <Link href={`/meals/${result.meal_id}`} className="text-sm text-blue-600 hover:underline">
+                        보기
+                      </Link>
+                    )}
+                    {result.existing_meal_id && (
+                      <Link href={`/meals/${result.existing_meal_id}`} className="text-sm text-blue-600 hover:underline">
+                        기존 기록
+                      </Link>
+                    )}
+                    <span className={`text-xs font-medium px-2 py-1 rounded-full ${STATUS_LABELS[result.status].className}`}>
+                      {STATUS_LABELS[result.status].label}
+                    </span>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default function MealImportPage() {
+  return (
+    <AuthGuard>
+      <MealImportContent />
+    </AuthGuard>
+  )
+}
@@ -1,14 +1,50 @@
 'use client'
 
-import { useCallback, useState } from 'react'
+import { useCallback, useEffect, useState } from 'react'
 import { useRouter } from 'next/navigation'
 import { createClientComponentClient } from '@supabase/auth-helpers-nextjs'
 import { useUser } from '@/hooks/useUser'
+import { useAnalysisJob } from '@/hooks/useAnalysisJob'
 import { LoadingSpinner } from '@/components/LoadingSpinner'
-import { FoodAnalysisResult } from '@/types/food-analysis'
+import {
+  AnalysisDetailLevel,
+  AnalysisLanguage,
+  FoodAnalysisResult,
+  MealCorrectionInput,
+  MealInputMode,
+  PendingMealConfirmation
+} from '@/types/food-analysis'
 import { ImageUploader } from '@/components/ImageUploader'
 import { useMealValidationNotifier } from '@/components/meals/MealValidationNotifier'
 import { MealValidationStatus } from '@/components/meals/MealValidationStatus'
+import { AnalysisResultEditor } from '@/components/meals/AnalysisResultEditor'
+
+// 페이지를 떠났다가 돌아와도 진행 중인 분석 결과를 이어서 받기 위한 키
+const PENDING_ANALYSIS_JOB_KEY = 'pendingAnalysisJobId'
+
+const DETAIL_LEVEL_OPTIONS: { value: AnalysisDetailLevel; label: string }[] = [
+  { value: 'basic', label: '간단히 (칼로리만)' },
+  { value: 'detailed', label: '기본 (영양 성분 포함)' },
+  { value: 'comprehensive', label: '자세히 (재료·조리법·건강 메모)' }
+]
+
+const LANGUAGE_OPTIONS: { value: AnalysisLanguage; label: string }[] = [
+  { value: 'ko', label: '한국어' },
+  { value: 'en', label: 'English' }
+]
+
+// 분석/텍스트 기록 API 응답 (식사 규칙 위반 시 validation과 analysis 포함)
+interface AnalysisApiResponse {
+  success: boolean
+  data?: FoodAnalysisResult
+  meal_id?: string
+  confirmation?: PendingMealConfirmation
+  error?: string
+  validation?: unknown
+  analysis?: FoodAnalysisResult
+  warnings?: string[]
+  storage_warning?: string // 저장 공간 한도 경고 (사진을 저장하지 않은 경우 포함)
+}
 
 function NewMealContent() {
   const router = useRouter()
@@ -21,27 +57,110 @@ function NewMealContent() {
     }
   })
 
+  const [inputMode, setInputMode] = useState<MealInputMode>('photo')
   const [selectedFile, setSelectedFile] = useState<File | null>(null)
+  const [description, setDescription] = useState('')
+  const [detailLevel, setDetailLevel] = useState<AnalysisDetailLevel>('detailed')
+  const [language, setLanguage] = useState<AnalysisLanguage>('ko')
+  const [warnings, setWarnings] = useState<string[]>([])
   const [isAnalyzing, setIsAnalyzing] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [analysisResult, setAnalysisResult] = useState<FoodAnalysisResult | null>(null)
+  const [mealId, setMealId] = useState<string | null>(null)
+  const [confirmation, setConfirmation] = useState<PendingMealConfirmation | null>(null)
+  const [isEditing, setIsEditing] = useState(false)
+  const [isSavingCorrection, setIsSavingCorrection] = useState(false)
+  const [jobId, setJobId] = useState<string | null>(null)
+  const { job, error: jobError } = useAnalysisJob(jobId)
   const [realTimeValidation, setRealTimeValidation] = useState({
     isValid: true,
     restrictions: [] as string[]
   })
 
-  const handleFileSelect = useCallback((file: File) => {
-    setSelectedFile(file)
+  const resetResult = useCallback(() => {
     setError(null)
     setAnalysisResult(null)
+    setMealId(null)
+    setConfirmation(null)
+    setWarnings([])
+    setIsEditing(false)
   }, [])
 
+  const handleFileSelect = useCallback((file: File) => {
+    setSelectedFile(file)
+    resetResult()
+  }, [resetResult])
+
+  const handleInputModeChange = (mode: MealInputMode) => {
+    setInputMode(mode)
+    resetResult()
+  }
+
   const handleValidationChange = useCallback((isValid: boolean, restrictions: string[]) => {
     setRealTimeValidation({ isValid, restrictions })
   }, [])
 
+  const handleAnalysisResponse = useCallback((result: AnalysisApiResponse) => {
+    // 알림 시스템을 통해 API 응답 처리
+    notifyFromAPIResponse(result)
+
+    if (result.success && result.data) {
+      // 저장 후 바로 이동하지 않고 결과 수정 기회를 제공
+      setAnalysisResult(result.data)
+      setMealId(result.meal_id || null)
+      setConfirmation(result.confirmation || null)
+      setWarnings([...(result.warnings || []), ...(result.storage_warning ? [result.storage_warning] : [])])
+    } else if (result.success === false && !result.validation) {
+      // 검증 관련이 아닌 일반 에러만 여기서 처리
+      setError(result.error || '음식 분석에 실패했습니다.')
+    } else if (result.analysis) {
+      // 분석은 성공했지만 저장은 실패한 경우 분석 결과는 표시
+      setAnalysisResult(result.analysis)
+    }
+  }, [notifyFromAPIResponse])
+
+  // 이전에 시작한 분석 작업이 있으면 이어서 결과 대기
+  useEffect(() => {
+    const pendingJobId = localStorage.getItem(PENDING_ANALYSIS_JOB_KEY)
+    if (pendingJobId) {
+      setJobId(pendingJobId)
+      setIsAnalyzing(true)
+    }
+  }, [])
+
+  // 분석 작업 완료 시 동기 응답과 같은 방식으로 처리
+  useEffect(() => {
+    if (!jobId) return
+
+    if (jobError) {
+      setError(jobError)
+    } else if (job?.status === 'succeeded') {
+      handleAnalysisResponse({
+        success: true,
+        data: job.result,
+        meal_id: job.meal_id,
+        confirmation: job.confirmation,
+        validation: job.validation
+      })
+    } else if (job?.status === 'failed') {
+      handleAnalysisResponse({
+        success: false,
+        error: job.error,
+        validation: job.validation,
+        analysis: job.result
+      })
+    } else {
+      return
+    }
+
+    localStorage.removeItem(PENDING_ANALYSIS_JOB_KEY)
+    setJobId(null)
+    setIsAnalyzing(false)
+  }, [jobId, job, jobError, handleAnalysisResponse])
+
   const handleAnalyze = async () => {
-    if (!selectedFile || !user?.id) return
+    if (!user?.id) return
+    if (inputMode === 'photo' ? !selectedFile : !description.trim()) return
 
     // 실시간 검증에서 제한사항이 있다면 경고
     if (!realTimeValidation.isValid && realTimeValidation.restrictions.length > 0) {
@@ -51,6 +170,7 @@ function NewMealContent() {
 
     setIsAnalyzing(true)
     setError(null)
+    let waitingForJob = false
 
     try {
       const { data: { session }, error: sessionError } = await supabase.auth.getSession()
@@ -60,62 +180,173 @@ function NewMealContent() {
         return
       }
 
-      const formData = new FormData()
-      formData.append('image', selectedFile)
-      formData.append('save_to_history', 'true')
-      formData.append('save_images', 'true')
+      let response: Response
+      if (inputMode === 'text') {
+        response = await fetch('/api/meals/text', {
+          method: 'POST',
+          headers: {
+            'Authorization': `Bearer ${session.access_token}`,
+            'Content-Type': 'application/json'
+          },
+          body: JSON.stringify({ description: description.trim(), save_to_history: true })
+        })
+      } else {
+        const formData = new FormData()
+        formData.append('image', selectedFile as File)
+        formData.append('save_to_history', 'true')
+        formData.append('save_images', 'true')
+        formData.append('async', 'true')
+        formData.append('detail_level', detailLevel)
+        formData.append('preferred_language', language)
+
+        response = await fetch('/api/meals/analyze', {
+          method: 'POST',
+          headers: {
+            'Authorization': `Bearer ${session.access_token}`
+          },
+          body: formData
+        })
+      }
 
-      const response = await fetch('/api/meals/analyze', {
+      const result = await response.json()
+
+      if (result.success && result.job_id) {
+        // 비동기 분석 - 결과는 작업 상태 구독으로 수신
+        localStorage.setItem(PENDING_ANALYSIS_JOB_KEY, result.job_id)
+        setJobId(result.job_id)
+        waitingForJob = true
+        return
+      }
+
+      handleAnalysisResponse(result)
+    } catch (error) {
+      console.error('Analysis error:', error)
+      setError('음식 분석 중 오류가 발생했습니다.')
+    } finally {
+      if (!waitingForJob) {
+        setIsAnalyzing(false)
+      }
+    }
+  }
+
+  // 수정 사항 적용 (저장된 식사는 수정 이력과 함께 저장, 아니면 재계산만)
+  // 신뢰도가 낮아 보류된 결과를 확인(수정 포함 가능)하고 저장
+  const handleConfirmPending = async (corrections?: MealCorrectionInput) => {
+    if (!confirmation) return
+
+    setIsSavingCorrection(true)
+    setError(null)
+
+    try {
+      const { data: { session }, error: sessionError } = await supabase.auth.getSession()
+
+      if (sessionError || !session?.access_token) {
+        setError('인증 세션을 가져올 수 없습니다. 다시 로그인해주세요.')
+        return
+      }
+
+      const response = await fetch(`/api/meals/pending/${confirmation.id}`, {
         method: 'POST',
         headers: {
-          'Authorization': `Bearer ${session.access_token}`
+          'Authorization': `Bearer ${session.access_token}`,
+          'Content-Type': 'application/json'
         },
-        body: formData
+        body: JSON.stringify(corrections ? { corrections } : {})
       })
 
       const result = await response.json()
 
-      // 알림 시스템을 통해 API 응답 처리
-      notifyFromAPIResponse(result)
-
       if (result.success && result.data) {
+        notifyFromAPIResponse({ success: true, analysis: result.data, validation: result.validation })
         setAnalysisResult(result.data)
-        // 성공적으로 저장된 경우에만 목록 페이지로 이동
-        setTimeout(() => {
-          router.push('/meals')
-        }, 2000) // 성공 알림을 보여준 후 이동
-      } else if (result.success === false && !result.validation) {
-        // 검증 관련이 아닌 일반 에러만 여기서 처리
-        setError(result.error || '음식 분석에 실패했습니다.')
-      } else if (result.analysis) {
-        // 분석은 성공했지만 저장은 실패한 경우 분석 결과는 표시
-        setAnalysisResult(result.analysis)
+        setMealId(result.meal_id || null)
+        setConfirmation(null)
+        setWarnings(result.warnings || [])
+        setIsEditing(false)
+      } else if (result.validation) {
+        notifyFromAPIResponse(result)
+      } else {
+        setError(result.error || '식사를 저장하지 못했습니다.')
       }
     } catch (error) {
-      console.error('Analysis error:', error)
-      setError('음식 분석 중 오류가 발생했습니다.')
+      console.error('Confirm pending meal error:', error)
+      setError('식사 저장 중 오류가 발생했습니다.')
     } finally {
-      setIsAnalyzing(false)
+      setIsSavingCorrection(false)
     }
   }
 
-  const handleDragOver = useCallback((event: React.DragEvent) => {
-    event.preventDefault()
-    event.stopPropagation()
-  }, [])
+  const handleDiscardPending = async () => {
+    if (!confirmation) return
+
+    try {
+      const { data: { session } } = await supabase.auth.getSession()
+      if (session?.access_token) {
+        await fetch(`/api/meals/pending/${confirmation.id}`, {
+          method: 'DELETE',
+          headers: { 'Authorization': `Bearer ${session.access_token}` }
+        })
+      }
+    } catch (error) {
+      console.error('Discard pending meal error:', error)
+    } finally {
+      resetResult()
+    }
+  }
+
+  const handleCorrectionSubmit = async (corrections: MealCorrectionInput) => {
+    if (!analysisResult) return
+
+    if (confirmation) {
+      await handleConfirmPending(corrections)
+      return
+    }
 
-  const handleDrop = useCallback((event: React.DragEvent) => {
-    event.preventDefault()
-    event.stopPropagation()
+    setIsSavingCorrection(true)
+    setError(null)
+
+    try {
+      const { data: { session }, error: sessionError } = await supabase.auth.getSession()
 
-    const file = event.dataTransfer.files[0]
-    if (file && file.type.startsWith('image/')) {
-      handleFileSelect(file)
+      if (sessionError || !session?.access_token) {
+        setError('인증 세션을 가져올 수 없습니다. 다시 로그인해주세요.')
+        return
+      }
+
+      const response = await fetch(
+        mealId ? `/api/meals/${mealId}/corrections` : '/api/meals/recalculate',
+        {
+          method: 'POST',
+          headers: {
+            'Authorization': `Bearer ${session.access_token}`,
+            'Content-Type': 'application/json'
+          },
+          body: JSON.stringify(mealId ? { corrections } : { original: analysisResult, corrections })
+        }
+      )
+
+      const result = await response.json()
+
+      if (result.success && result.data) {
+        setAnalysisResult(result.data)
+        setWarnings([])
+        setIsEditing(false)
+      } else if (result.validation) {
+        notifyFromAPIResponse(result)
+      } else {
+        setError(result.error || '수정 사항을 적용하지 못했습니다.')
+      }
+    } catch (error) {
+      console.error('Correction error:', error)
+      setError('수정 사항 적용 중 오류가 발생했습니다.')
+    } finally {
+      setIsSavingCorrection(false)
     }
-  }, [handleFileSelect])
+  }
 
   // 업로드 버튼 비활성화 조건
-  const isUploadDisabled = !selectedFile || isAnalyzing || (!realTimeValidation.isValid && realTimeValidation.restrictions.length > 0)
+  const hasInput = inputMode === 'photo' ? !!selectedFile : description.trim().length > 0
+  const isUploadDisabled = !hasInput || isAnalyzing || (!realTimeValidation.isValid && realTimeValidation.restrictions.length > 0)
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-pink-50 via-orange-50 to-yellow-50 relative overflow-hidden">
@@ -198,6 +429,30 @@ function NewMealContent() {
             <div className="bg-white/80 backdrop-blur-xl rounded-3xl shadow-2xl border border-white/20 overflow-hidden transition-all duration-300 hover:shadow-3xl hover:scale-[1.01]">
                           {/* 이미지 업로드 섹션 */}
               <div className="p-8 border-b border-gray-100/50">
+                {/* 입력 방식 선택 */}
+                <div className="flex p-1 mb-6 bg-gray-100 rounded-2xl">
+                  {([
+                    { mode: 'photo', label: '📸 사진으로 기록' },
+                    { mode: 'text', label: '✍️ 글로 기록' }
+                  ] as const).map(option => (
+                    <button
+                      key={option.mode}
+                      type="button"
+                      onClick={() => handleInputModeChange(option.mode)}
+                      disabled={isAnalyzing}
+                      className={`flex-1 py-2 rounded-xl text-sm font-medium transition-all duration-200 ${
+                        inputMode === option.mode
+                          ? 'bg-white text-pink-600 shadow-md'
+                          : 'text-gray-600 hover:text-pink-600'
+                      }`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+
+                {inputMode === 'photo' ? (
+                <>
                 <div className="text-center mb-6">
                   <div className="mx-auto w-12 h-12 bg-gradient-to-br from-purple-500 to-pink-500 rounded-2xl flex items-center justify-center mb-3 shadow-lg">
                     <span className="text-xl">📸</span>
@@ -210,10 +465,54 @@ function NewMealContent() {
                 <ImageUploader
                   onFileSelect={handleFileSelect}
                   selectedFile={selectedFile}
-                  onDragOver={handleDragOver}
-                  onDrop={handleDrop}
                   disabled={isAnalyzing}
                 />
+                <div className="grid grid-cols-2 gap-3 mt-4">
+                  <select
+                    value={detailLevel}
+                    onChange={(event) => setDetailLevel(event.target.value as AnalysisDetailLevel)}
+                    disabled={isAnalyzing}
+                    className="px-3 py-2 text-sm border border-gray-200 rounded-xl bg-white"
+                  >
+                    {DETAIL_LEVEL_OPTIONS.map(option => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                  </select>
+                  <select
+                    value={language}
+                    onChange={(event) => setLanguage(event.target.value as AnalysisLanguage)}
+                    disabled={isAnalyzing}
+                    className="px-3 py-2 text-sm border border-gray-200 rounded-xl bg-white"
+                  >
+                    {LANGUAGE_OPTIONS.map(option => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                  </select>
+                </div>
+                </>
+                ) : (
+                <div className="space-y-3">
+                  <div className="text-center">
+                    <h2 className="text-xl font-bold bg-gradient-to-r from-purple-600 to-pink-600 bg-clip-text text-transparent mb-2">
+                      먹은 음식 입력
+                    </h2>
+                    <p className="text-sm text-gray-600">사진 없이 기록한 식사는 미인증으로 표시돼요</p>
+                  </div>
+                  <textarea
+                    value={description}
+                    onChange={(event) => {
+                      setDescription(event.target.value)
+                      resetResult()
+                    }}
+                    maxLength={500}
+                    rows={4}
+                    placeholder="예: 공기밥 1공기, 된장찌개, 계란말이 2개"
+                    disabled={isAnalyzing}
+                    className="w-full px-4 py-3 text-sm border border-gray-200 rounded-2xl bg-white/80 focus:outline-none focus:ring-2 focus:ring-pink-300"
+                  />
+                  <p className="text-xs text-gray-500 text-right">{description.length}/500</p>
+                </div>
+                )}
               </div>
 
               {/* 분석 버튼 및 상태 */}
@@ -229,16 +528,26 @@ function NewMealContent() {
                   {isAnalyzing ? (
                     <div className="flex items-center justify-center">
                       <LoadingSpinner className="w-6 h-6" />
-                      <span className="ml-3 text-lg">AI 분석 중...</span>
+                      <span className="ml-3 text-lg">{inputMode === 'text' ? '기록 중...' : 'AI 분석 중...'}</span>
                     </div>
                   ) : (
                     <div className="flex items-center justify-center space-x-2">
-                      <span className="text-xl">🤖</span>
-                      <span className="text-lg">AI 음식 분석하기</span>
+                      <span className="text-xl">{inputMode === 'text' ? '✍️' : '🤖'}</span>
+                      <span className="text-lg">{inputMode === 'text' ? '식사 기록하기' : 'AI 음식 분석하기'}</span>
                     </div>
                   )}
                 </button>
 
+                {jobId && (
+                  <p className="mt-3 text-sm text-center text-gray-500">
+                    {job?.status === 'processing'
+                      ? 'AI가 사진을 분석하고 있어요.'
+                      : job?.next_retry_at
+                        ? `AI 분석 서비스가 일시적으로 불안정해요. ${new Date(job.next_retry_at).toLocaleTimeString('ko-KR', { hour: '2-digit', minute: '2-digit' })}쯤 자동으로 다시 분석할게요.`
+                        : '분석 대기 중이에요.'} 페이지를 떠나도 분석은 계속되고, 돌아오면 결과를 볼 수 있어요.
+                  </p>
+                )}
+
                               {/* 실시간 검증 경고 */}
                 {!realTimeValidation.isValid && realTimeValidation.restrictions.length > 0 && (
                   <div className="mt-6 p-6 bg-gradient-to-br from-yellow-50/80 to-orange-50/80 backdrop-blur-sm border border-yellow-200/50 rounded-2xl shadow-lg">
@@ -288,7 +597,11 @@ function NewMealContent() {
                           <h3 className="text-lg font-bold bg-gradient-to-r from-green-600 to-emerald-600 bg-clip-text text-transparent">
                             분석 완료!
                           </h3>
-                          <p className="text-sm text-green-700">AI가 음식을 성공적으로 분석했습니다</p>
+                          <p className="text-sm text-green-700">
+                            {analysisResult.metadata?.input_mode === 'text'
+                              ? '입력한 음식으로 칼로리를 계산했습니다 (사진 없음 · 미인증)'
+                              : 'AI가 음식을 성공적으로 분석했습니다'}
+                          </p>
                         </div>
                       </div>
                       <div className="grid grid-cols-3 gap-4">
@@ -307,6 +620,36 @@ function NewMealContent() {
                       </div>
                     </div>
 
+                    {analysisResult.metadata?.is_mock_data && (
+                      <div className="p-4 bg-amber-50/80 border border-amber-200/50 rounded-2xl">
+                        <p className="text-sm font-bold text-amber-800 mb-1">테스트 데이터</p>
+                        <p className="text-sm text-amber-700">
+                          AI 분석을 사용할 수 없어 실제 분석이 아닌 테스트 데이터를 표시하고 있어요.
+                          저장되더라도 칼로리 통계에는 반영되지 않습니다.
+                        </p>
+                      </div>
+                    )}
+
+                    {warnings.length > 0 && (
+                      <div className="p-4 bg-yellow-50/80 border border-yellow-200/50 rounded-2xl">
+                        <ul className="text-sm text-yellow-700 space-y-1">
+                          {warnings.map((warning, index) => (
+                            <li key={index}>⚠️ {warning}</li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
+
+                    {isEditing ? (
+                      <AnalysisResultEditor
+                        result={analysisResult}
+                        onSubmit={handleCorrectionSubmit}
+                        onCancel={() => setIsEditing(false)}
+                        isSubmitting={isSavingCorrection}
+                        highlightedIndices={confirmation?.uncertain_food_indices}
+                        submitLabel={confirmation ? '수정 후 저장' : undefined}
+                      />
+                    ) : (
                     <div className="space-y-4">
                       <div className="text-center">
                         <h3 className="text-xl font-bold bg-gradient-to-r from-purple-600 to-pink-600 bg-clip-text text-transparent mb-2">
@@ -314,8 +657,21 @@ function NewMealContent() {
                         </h3>
                         <p className="text-sm text-gray-600">총 {analysisResult.foods.length}개의 음식을 발견했어요</p>
                       </div>
-                      {analysisResult.foods.map((food, index) => (
-                        <div key={index} className="bg-white/80 backdrop-blur-sm border border-white/20 rounded-2xl p-5 shadow-lg hover:shadow-xl transition-all duration-300 hover:scale-[1.02]">
+                      {confirmation && (
+                        <div className="p-4 bg-yellow-50/80 border border-yellow-200/50 rounded-2xl">
+                          <p className="text-sm font-bold text-yellow-800 mb-1">확인이 필요해요</p>
+                          <p className="text-sm text-yellow-700">
+                            분석 신뢰도({Math.round(confirmation.analysis_confidence * 100)}%)가 낮아 아직 저장되지 않았어요.
+                            표시된 음식을 확인하거나 수정한 뒤 저장해주세요.
+                          </p>
+                        </div>
+                      )}
+                      {analysisResult.foods.map((food, index) => {
+                        const isUncertain = confirmation?.uncertain_food_indices.includes(index) ?? false
+                        return (
+                        <div key={index} className={`bg-white/80 backdrop-blur-sm border rounded-2xl p-5 shadow-lg hover:shadow-xl transition-all duration-300 hover:scale-[1.02] ${
+                          isUncertain ? 'border-yellow-400 ring-2 ring-yellow-200' : 'border-white/20'
+                        }`}>
                           <div className="flex justify-between items-start mb-3">
                             <div className="flex items-center space-x-3">
                               <div className="w-10 h-10 bg-gradient-to-br from-orange-400 to-red-500 rounded-xl flex items-center justify-center shadow-md">
@@ -323,7 +679,18 @@ function NewMealContent() {
                               </div>
                               <div>
                                 <span className="text-lg font-bold text-gray-800">{food.name}</span>
-                                <p className="text-sm text-gray-600">{food.amount}</p>
+                                {isUncertain && (
+                                  <span className="ml-2 text-xs font-medium px-2 py-0.5 bg-yellow-100 text-yellow-700 rounded-full">
+                                    확인 필요
+                                  </span>
+                                )}
+                                <p className="text-sm text-gray-600">
+                                  {food.amount}
+                                  {food.cooking_method && ` · ${food.cooking_method}`}
+                                </p>
+                                {food.ingredients && food.ingredients.length > 0 && (
+                                  <p className="text-xs text-gray-500">{food.ingredients.join(', ')}</p>
+                                )}
                               </div>
                             </div>
                             <div className="text-right">
@@ -338,8 +705,62 @@ function NewMealContent() {
                             ></div>
                           </div>
                         </div>
-                      ))}
+                        )
+                      })}
+
+                      {analysisResult.health_notes && analysisResult.health_notes.length > 0 && (
+                        <div className="p-4 bg-blue-50/80 border border-blue-200/50 rounded-2xl">
+                          <p className="text-sm font-bold text-blue-800 mb-2">건강 메모</p>
+                          <ul className="text-sm text-blue-700 space-y-1">
+                            {analysisResult.health_notes.map((note, index) => (
+                              <li key={index}>• {note}</li>
+                            ))}
+                          </ul>
+                        </div>
+                      )}
+
+                      {confirmation ? (
+                      <div className="flex space-x-3">
+                        <button
+                          onClick={handleDiscardPending}
+                          disabled={isSavingCorrection}
+                          className="flex-1 py-3 rounded-2xl font-medium text-gray-700 bg-white/80 hover:bg-white shadow-md hover:shadow-lg transition-all duration-200"
+                        >
+                          저장 안 함
+                        </button>
+                        <button
+                          onClick={() => setIsEditing(true)}
+                          disabled={isSavingCorrection}
+                          className="flex-1 py-3 rounded-2xl font-medium text-gray-700 bg-white/80 hover:bg-white shadow-md hover:shadow-lg transition-all duration-200"
+                        >
+                          ✏️ 수정 후 저장
+                        </button>
+                        <button
+                          onClick={() => handleConfirmPending()}
+                          disabled={isSavingCorrection}
+                          className="flex-1 py-3 rounded-2xl font-bold text-white bg-gradient-to-r from-pink-500 to-orange-500 hover:from-pink-600 hover:to-orange-600 shadow-md hover:shadow-lg transition-all duration-200"
+                        >
+                          {isSavingCorrection ? '저장 중...' : '이대로 저장'}
+                        </button>
+                      </div>
+                      ) : (
+                      <div className="flex space-x-3">
+                        <button
+                          onClick={() => setIsEditing(true)}
+                          className="flex-1 py-3 rounded-2xl font-medium text-gray-700 bg-white/80 hover:bg-white shadow-md hover:shadow-lg transition-all duration-200"
+                        >
+                          ✏️ 결과 수정하기
+                        </button>
+                        <button
+                          onClick={() => router.push('/meals')}
+                          className="flex-1 py-3 rounded-2xl font-bold text-white bg-gradient-to-r from-pink-500 to-orange-500 hover:from-pink-600 hover:to-orange-600 shadow-md hover:shadow-lg transition-all duration-200"
+                        >
+                          완료
+                        </button>
+                      </div>
+                      )}
                     </div>
+                    )}
                   </div>
                 )}
             </div>
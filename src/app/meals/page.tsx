@@ -1,8 +1,9 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useMemo } from 'react'
 import { AuthGuard } from '@/components/auth'
 import { useUser } from '@/hooks/useUser'
+import { hasMealImage, useMealImageUrls } from '@/hooks/useMealImageUrls'
 import { getMealHistory } from '@/lib/meals-history'
 import { MealAnalysisRecord } from '@/types/food-analysis'
 import { LoadingSpinner } from '@/components/ui/loading'
@@ -16,6 +17,9 @@ function MealHistoryContent() {
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
 
+  const imageMealIds = useMemo(() => meals.filter(hasMealImage).map(meal => meal.id), [meals])
+  const { urls: imageUrls, refresh: refreshImageUrls } = useMealImageUrls(imageMealIds)
+
   useEffect(() => {
     if (!user?.id) return
 
@@ -75,11 +79,18 @@ function MealHistoryContent() {
           <h1 className="text-3xl font-bold text-gray-900">
             식사 기록
           </h1>
-          <Link href="/meals/new">
-            <FormButton className="bg-blue-600 hover:bg-blue-700">
-              새 식사 기록
-            </FormButton>
-          </Link>
+          <div className="flex space-x-2">
+            <Link href="/meals/import">
+              <FormButton className="bg-gray-600 hover:bg-gray-700">
+                지난 사진 가져오기
+              </FormButton>
+            </Link>
+            <Link href="/meals/new">
+              <FormButton className="bg-blue-600 hover:bg-blue-700">
+                새 식사 기록
+              </FormButton>
+            </Link>
+          </div>
         </div>
 
         {meals.length === 0 ? (
@@ -92,7 +103,11 @@ function MealHistoryContent() {
         ) : (
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
             {meals.map((meal) => (
-              <MealCard key={meal.id} meal={meal} />
+              <MealCard
+                key={meal.id}
+                meal={{ ...meal, image_url: imageUrls[meal.id] }}
+                onImageError={refreshImageUrls}
+              />
             ))}
           </div>
         )}
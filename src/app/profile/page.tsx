@@ -0,0 +1,316 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import Link from 'next/link'
+import { createClientComponentClient } from '@supabase/auth-helpers-nextjs'
+import { AuthGuard } from '@/components/auth'
+import { useAuth } from '@/contexts/auth-context'
+import { AIQuotaPeriodUsage, AIUsageSummary, StorageUsageSummary } from '@/types/food-analysis'
+import { UserPhotoSettings } from '@/types/database'
+import { formatBytes } from '@/lib/utils'
+
+const PROVIDER_LABELS: Record<string, string> = {
+  gemini: 'Google Gemini',
+  local: '로컬 테스트'
+}
+
+function UsageBar({ title, usage }: { title: string; usage: AIQuotaPeriodUsage }) {
+  const ratio = usage.limit > 0 ? Math.min(1, usage.used / usage.limit) : 1
+  const barColor = ratio >= 1 ? 'bg-red-500' : ratio >= 0.8 ? 'bg-orange-500' : 'bg-gradient-to-r from-pink-500 to-orange-500'
+
+  return (
+    <div>
+      <div className="flex justify-between items-baseline mb-2">
+        <h3 className="font-semibold text-gray-800">{title}</h3>
+        <p className="text-sm text-gray-600">
+          <span className="font-bold text-gray-900">{usage.used}</span> / {usage.limit}회
+        </p>
+      </div>
+      <div className="w-full h-3 bg-gray-100 rounded-full overflow-hidden">
+        <div className={`h-full ${barColor} transition-all duration-500`} style={{ width: `${ratio * 100}%` }} />
+      </div>
+      <p className="text-xs text-gray-500 mt-1">
+        남은 횟수 {usage.remaining}회 · {new Date(usage.resets_at).toLocaleString('ko-KR', {
+          month: 'long',
+          day: 'numeric',
+          hour: '2-digit',
+          minute: '2-digit'
+        })}에 초기화
+      </p>
+    </div>
+  )
+}
+
+function StorageUsageBar({ usage }: { usage: StorageUsageSummary }) {
+  const ratio = usage.limit_bytes > 0 ? Math.min(1, usage.used_bytes / usage.limit_bytes) : 1
+  const barColor = ratio >= 1 ? 'bg-red-500' : usage.used_bytes >= usage.warning_bytes ? 'bg-orange-500' : 'bg-gradient-to-r from-pink-500 to-orange-500'
+
+  return (
+    <div>
+      <div className="flex justify-between items-baseline mb-2">
+        <h3 className="font-semibold text-gray-800">사용 중</h3>
+        <p className="text-sm text-gray-600">
+          <span className="font-bold text-gray-900">{formatBytes(usage.used_bytes, 1)}</span> / {formatBytes(usage.limit_bytes, 0)}
+        </p>
+      </div>
+      <div className="w-full h-3 bg-gray-100 rounded-full overflow-hidden">
+        <div className={`h-full ${barColor} transition-all duration-500`} style={{ width: `${ratio * 100}%` }} />
+      </div>
+      <p className="text-xs text-gray-500 mt-1">
+        사진 {usage.photo_count}장 · 남은 공간 {formatBytes(usage.remaining_bytes, 1)}
+        {usage.downgraded_count > 0 && ` · 분석용 사진을 정리한 식사 ${usage.downgraded_count}개`}
+      </p>
+    </div>
+  )
+}
+
+function ProfileContent() {
+  const { user } = useAuth()
+  const supabase = createClientComponentClient()
+  const [usage, setUsage] = useState<AIUsageSummary | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [photoSettings, setPhotoSettings] = useState<UserPhotoSettings | null>(null)
+  const [isSavingSettings, setIsSavingSettings] = useState(false)
+  const [settingsError, setSettingsError] = useState<string | null>(null)
+  const [storageUsage, setStorageUsage] = useState<StorageUsageSummary | null>(null)
+
+  const getAccessToken = useCallback(async () => {
+    const { data: { session } } = await supabase.auth.getSession()
+    return session?.access_token ?? null
+  }, [supabase])
+
+  const fetchUsage = useCallback(async () => {
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const { data: { session }, error: sessionError } = await supabase.auth.getSession()
+
+      if (sessionError || !session?.access_token) {
+        setError('인증 세션을 가져올 수 없습니다. 다시 로그인해주세요.')
+        return
+      }
+
+      const response = await fetch('/api/usage', {
+        headers: {
+          'Authorization': `Bearer ${session.access_token}`
+        }
+      })
+      const result = await response.json()
+
+      if (result.success && result.data) {
+        setUsage(result.data)
+      } else {
+        setError(result.error || 'AI 사용량을 불러올 수 없습니다.')
+      }
+    } catch (fetchError) {
+      console.error('Fetch AI usage error:', fetchError)
+      setError('AI 사용량을 불러오는 중 오류가 발생했습니다.')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [supabase])
+
+  useEffect(() => {
+    fetchUsage()
+  }, [fetchUsage])
+
+  useEffect(() => {
+    const fetchPhotoSettings = async () => {
+      try {
+        const token = await getAccessToken()
+        if (!token) return
+
+        const response = await fetch('/api/profile/settings', {
+          headers: {
+            'Authorization': `Bearer ${token}`
+          }
+        })
+        const result = await response.json()
+        if (result.success && result.data) {
+          setPhotoSettings(result.data)
+        }
+      } catch (fetchError) {
+        console.error('Fetch photo settings error:', fetchError)
+      }
+    }
+
+    fetchPhotoSettings()
+  }, [getAccessToken])
+
+  useEffect(() => {
+    const fetchStorageUsage = async () => {
+      try {
+        const token = await getAccessToken()
+        if (!token) return
+
+        const response = await fetch('/api/usage/storage', {
+          headers: {
+            'Authorization': `Bearer ${token}`
+          }
+        })
+        const result = await response.json()
+        if (result.success && result.data) {
+          setStorageUsage(result.data)
+        }
+      } catch (fetchError) {
+        console.error('Fetch storage usage error:', fetchError)
+      }
+    }
+
+    fetchStorageUsage()
+  }, [getAccessToken])
+
+  const handleKeepPhotoTakenAtChange = async (keepPhotoTakenAt: boolean) => {
+    setIsSavingSettings(true)
+    setSettingsError(null)
+
+    try {
+      const token = await getAccessToken()
+      if (!token) {
+        setSettingsError('인증 세션을 가져올 수 없습니다. 다시 로그인해주세요.')
+        return
+      }
+
+      const response = await fetch('/api/profile/settings', {
+        method: 'PATCH',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ keep_photo_taken_at: keepPhotoTakenAt })
+      })
+      const result = await response.json()
+
+      if (result.success && result.data) {
+        setPhotoSettings(result.data)
+      } else {
+        setSettingsError(result.error || '설정을 저장할 수 없습니다.')
+      }
+    } catch (saveError) {
+      console.error('Save photo settings error:', saveError)
+      setSettingsError('설정을 저장하는 중 오류가 발생했습니다.')
+    } finally {
+      setIsSavingSettings(false)
+    }
+  }
+
+  const providerEntries = usage ? Object.entries(usage.by_provider) : []
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-pink-50 via-orange-50 to-yellow-50 py-8">
+      <div className="max-w-2xl mx-auto px-4">
+        <div className="flex justify-between items-center mb-8">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">내 프로필</h1>
+            <p className="text-gray-600 mt-2">{user?.email}</p>
+          </div>
+          <Link
+            href="/dashboard"
+            className="px-4 py-2 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-xl transition-all duration-200"
+          >
+            대시보드
+          </Link>
+        </div>
+
+        <div className="bg-white/80 backdrop-blur-xl rounded-xl shadow-lg border border-gray-200/50 p-6">
+          <div className="flex justify-between items-center mb-6">
+            <h2 className="text-xl font-semibold text-gray-800">AI 분석 사용량</h2>
+            <button
+              onClick={fetchUsage}
+              disabled={isLoading}
+              className="text-sm text-pink-600 hover:text-pink-700 disabled:opacity-50"
+            >
+              새로고침
+            </button>
+          </div>
+
+          {isLoading && !usage && (
+            <p className="text-gray-500">불러오는 중...</p>
+          )}
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-red-700">
+              {error}
+            </div>
+          )}
+
+          {usage && (
+            <div className="space-y-6">
+              <UsageBar title="오늘" usage={usage.daily} />
+              <UsageBar title="이번 달" usage={usage.monthly} />
+
+              {providerEntries.length > 0 && (
+                <div>
+                  <h3 className="font-semibold text-gray-800 mb-2">이번 달 분석 서비스별 호출</h3>
+                  <ul className="text-sm text-gray-600 space-y-1">
+                    {providerEntries.map(([provider, calls]) => (
+                      <li key={provider} className="flex justify-between">
+                        <span>{PROVIDER_LABELS[provider] || provider}</span>
+                        <span>{calls}회</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              <p className="text-xs text-gray-500">
+                사진 분석 시 AI 호출 횟수(자동 재시도 포함)가 집계되며, 같은 사진의 재분석 결과는 저장된 결과를 사용해 횟수에 포함되지 않아요.
+              </p>
+            </div>
+          )}
+        </div>
+
+        {storageUsage && (
+          <div className="bg-white/80 backdrop-blur-xl rounded-xl shadow-lg border border-gray-200/50 p-6 mt-6">
+            <h2 className="text-xl font-semibold text-gray-800 mb-4">사진 저장 공간</h2>
+            <StorageUsageBar usage={storageUsage} />
+            <p className="text-xs text-gray-500 mt-4">
+              {storageUsage.policy === 'downgrade'
+                ? '한도를 넘으면 오래된 식사부터 분석용 사진을 정리해요. 원본 사진과 썸네일은 그대로 남아요.'
+                : '한도를 넘으면 새 사진은 저장되지 않고 분석 결과만 기록돼요.'}
+            </p>
+          </div>
+        )}
+
+        <div className="bg-white/80 backdrop-blur-xl rounded-xl shadow-lg border border-gray-200/50 p-6 mt-6">
+          <h2 className="text-xl font-semibold text-gray-800 mb-4">사진 개인정보</h2>
+          <p className="text-sm text-gray-600 mb-4">
+            업로드한 사진은 방향을 맞춘 뒤 위치(GPS), 기기 정보, 촬영 시각 등 모든 메타데이터를 지우고 저장해요.
+          </p>
+
+          <label className="flex items-start gap-3 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={photoSettings?.keep_photo_taken_at ?? false}
+              onChange={(event) => handleKeepPhotoTakenAtChange(event.target.checked)}
+              disabled={!photoSettings || isSavingSettings}
+              className="mt-1 h-4 w-4 accent-pink-500"
+            />
+            <span>
+              <span className="font-medium text-gray-800">촬영 시각 보관하기</span>
+              <span className="block text-xs text-gray-500 mt-1">
+                켜면 사진의 촬영 시각만 식사 기록에 따로 저장해요. 사진 파일에는 남기지 않아요.
+              </span>
+            </span>
+          </label>
+
+          {settingsError && (
+            <div className="mt-4 bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">
+              {settingsError}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default function ProfilePage() {
+  return (
+    <AuthGuard>
+      <ProfileContent />
+    </AuthGuard>
+  )
+}
@@ -6,6 +6,7 @@ import { LoadingSpinner } from '@/components/auth/loading-spinner';
 import { FormButton } from '@/components/auth/form-button';
 import { PerformanceBenchmark } from '@/components/test/performance-benchmark';
 import { SecurityTester } from '@/components/test/security-tester';
+import { IMAGE_ACCEPT_ATTRIBUTE, isSupportedImageFile } from '@/lib/image-formats';
 
 interface FoodItem {
   name: string;
@@ -76,8 +77,8 @@ export default function TestMealAnalysisPage() {
       return;
     }
 
-    if (!['image/jpeg', 'image/png', 'image/webp'].includes(file.type)) {
-      alert('지원하지 않는 이미지 형식입니다. JPEG, PNG, WebP 파일을 사용해주세요.');
+    if (!isSupportedImageFile(file)) {
+      alert('지원하지 않는 이미지 형식입니다. JPEG, PNG, WebP, HEIC, AVIF 파일을 사용해주세요.');
       return;
     }
 
@@ -100,7 +101,7 @@ export default function TestMealAnalysisPage() {
         return false;
       }
 
-      if (!['image/jpeg', 'image/png', 'image/webp'].includes(file.type)) {
+      if (!isSupportedImageFile(file)) {
         alert(`${file.name}: 지원하지 않는 이미지 형식입니다.`);
         return false;
       }
@@ -254,7 +255,7 @@ export default function TestMealAnalysisPage() {
               <input
                 ref={multiFileInputRef}
                 type="file"
-                accept="image/jpeg,image/png,image/webp"
+                accept={IMAGE_ACCEPT_ATTRIBUTE}
                 multiple
                 onChange={handleMultiFileSelect}
                 className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
@@ -363,7 +364,7 @@ export default function TestMealAnalysisPage() {
                       <input
                         ref={fileInputRef}
                         type="file"
-                        accept="image/jpeg,image/png,image/webp"
+                        accept={IMAGE_ACCEPT_ATTRIBUTE}
                         onChange={handleFileSelect}
                         className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
                       />
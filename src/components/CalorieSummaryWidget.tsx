@@ -13,7 +13,14 @@ import {
   Title,
   Filler
 } from 'chart.js'
-import { TrendingUp, Calendar, Target, Users } from 'lucide-react'
+import { TrendingUp, Calendar, Target, Users, Activity } from 'lucide-react'
+import { NutritionFacts } from '@/types/food-analysis'
+import {
+  NUTRITION_KEYS,
+  NUTRITION_LABELS,
+  NUTRITION_UPPER_LIMIT_KEYS,
+  DEFAULT_DAILY_NUTRITION_GOALS
+} from '@/lib/nutrition'
 
 // Chart.js 컴포넌트 등록
 ChartJS.register(
@@ -43,9 +50,15 @@ interface WeeklyData {
   partnerCalories: number[]
 }
 
+interface MacroData {
+  current: NutritionFacts
+  goal?: NutritionFacts
+}
+
 interface CalorieSummaryWidgetProps {
   dailyData: CalorieData
   weeklyData: WeeklyData
+  macroData?: MacroData
   userName?: string
   partnerName?: string
 }
@@ -53,6 +66,7 @@ interface CalorieSummaryWidgetProps {
 export default function CalorieSummaryWidget({
   dailyData,
   weeklyData,
+  macroData,
   userName = "나",
   partnerName = "파트너"
 }: CalorieSummaryWidgetProps) {
@@ -277,6 +291,46 @@ export default function CalorieSummaryWidget({
         </div>
       </div>
 
+      {/* 오늘의 영양소 */}
+      {macroData && (
+        <div className="bg-white/80 backdrop-blur-xl rounded-xl shadow-lg border border-gray-200/50 p-6 hover:shadow-xl transition-all duration-300">
+          <div className="flex items-center mb-4">
+            <Activity className="w-5 h-5 text-emerald-500 mr-2" />
+            <h3 className="font-semibold text-gray-800">오늘의 영양소</h3>
+          </div>
+
+          <div className="space-y-3">
+            {NUTRITION_KEYS.map((key) => {
+              const current = macroData.current[key]
+              const goal = (macroData.goal || DEFAULT_DAILY_NUTRITION_GOALS)[key]
+              const progress = goal > 0 ? Math.min(100, Math.round((current / goal) * 100)) : 0
+              const isOverLimit = NUTRITION_UPPER_LIMIT_KEYS.includes(key) && current > goal
+
+              return (
+                <div key={key}>
+                  <div className="flex justify-between text-xs mb-1">
+                    <span className="font-medium text-gray-700">{NUTRITION_LABELS[key].label}</span>
+                    <span className={isOverLimit ? 'text-red-500 font-semibold' : 'text-gray-600'}>
+                      {current.toLocaleString()} / {goal.toLocaleString()}{NUTRITION_LABELS[key].unit}
+                    </span>
+                  </div>
+                  <div className="h-2 bg-gray-200/60 rounded-full overflow-hidden">
+                    <div
+                      className={`h-full rounded-full transition-all duration-300 ${
+                        isOverLimit
+                          ? 'bg-red-400'
+                          : 'bg-gradient-to-r from-emerald-400 to-green-500'
+                      }`}
+                      style={{ width: `${progress}%` }}
+                    />
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+        </div>
+      )}
+
       {/* 주간 칼로리 추이 - 라인 차트 */}
       <div className="bg-white/80 backdrop-blur-xl rounded-xl shadow-lg border border-gray-200/50 p-6 hover:shadow-xl transition-all duration-300">
         <div className="flex items-center mb-4">
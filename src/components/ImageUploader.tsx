@@ -2,56 +2,87 @@
 
 import { useCallback, useRef, useState } from 'react'
 import Image from 'next/image'
+import { IMAGE_ACCEPT_ATTRIBUTE, isSupportedImageFile } from '@/lib/image-formats'
+import { compressImageFile, ImageCompressionOptions, ImageCompressionResult } from '@/lib/image-compression'
+import { formatBytes } from '@/lib/utils'
+
+// 서버 업로드 한도 (압축 후 크기 기준)
+const MAX_UPLOAD_SIZE = 10 * 1024 * 1024
 
 interface ImageUploaderProps {
   onFileSelect: (file: File) => void
   selectedFile: File | null
-  onDragOver: (event: React.DragEvent) => void
-  onDrop: (event: React.DragEvent) => void
   disabled?: boolean
+  compression?: Partial<ImageCompressionOptions> | false // 기본값 DEFAULT_IMAGE_COMPRESSION_OPTIONS, false면 원본 그대로 업로드
 }
 
 export function ImageUploader({
   onFileSelect,
-  selectedFile,
-  onDragOver,
-  onDrop,
-  disabled = false
+  disabled = false,
+  compression
 }: ImageUploaderProps) {
   const fileInputRef = useRef<HTMLInputElement>(null)
   const [imagePreview, setImagePreview] = useState<string | null>(null)
   const [error, setError] = useState<string | null>(null)
+  const [isCompressing, setIsCompressing] = useState(false)
+  const [compressionResult, setCompressionResult] = useState<ImageCompressionResult | null>(null)
 
-  const handleFileSelect = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0]
-    if (!file) return
-
-    // 파일 크기 체크 (10MB)
-    if (file.size > 10 * 1024 * 1024) {
-      setError('파일 크기는 10MB를 초과할 수 없습니다.')
+  const processFile = useCallback(async (file: File) => {
+    // 이미지 형식 체크 (HEIC는 type이 비어 있을 수 있어 확장자로도 확인)
+    if (!isSupportedImageFile(file)) {
+      setError('JPG, PNG, WebP, HEIC, AVIF 이미지만 업로드할 수 있습니다.')
       return
     }
 
-    // 이미지 파일 체크
-    if (!file.type.startsWith('image/')) {
-      setError('이미지 파일만 업로드할 수 있습니다.')
+    setError(null)
+    setIsCompressing(true)
+    const result = compression === false ? null : await compressImageFile(file, compression)
+    const uploadFile = result?.file ?? file
+    setIsCompressing(false)
+
+    // 파일 크기 체크 (압축하지 못한 원본은 10MB까지)
+    if (uploadFile.size > MAX_UPLOAD_SIZE) {
+      setError(`파일 크기는 ${formatBytes(MAX_UPLOAD_SIZE)}를 초과할 수 없습니다.`)
       return
     }
 
-    // 이미지 미리보기 생성
+    // 이미지 미리보기 생성 (압축했으면 업로드할 이미지로 표시)
     const reader = new FileReader()
     reader.onloadend = () => {
       setImagePreview(reader.result as string)
     }
-    reader.readAsDataURL(file)
+    reader.readAsDataURL(uploadFile)
 
-    setError(null)
-    onFileSelect(file)
-  }, [onFileSelect])
+    setCompressionResult(result)
+    onFileSelect(uploadFile)
+  }, [compression, onFileSelect])
+
+  const handleFileSelect = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    if (file) {
+      processFile(file)
+    }
+  }, [processFile])
+
+  const handleDragOver = useCallback((event: React.DragEvent) => {
+    event.preventDefault()
+    event.stopPropagation()
+  }, [])
+
+  const handleDrop = useCallback((event: React.DragEvent) => {
+    event.preventDefault()
+    event.stopPropagation()
+
+    const file = event.dataTransfer.files[0]
+    if (file && !disabled && !isCompressing) {
+      processFile(file)
+    }
+  }, [disabled, isCompressing, processFile])
 
   const handleReset = useCallback(() => {
     setImagePreview(null)
     setError(null)
+    setCompressionResult(null)
     if (fileInputRef.current) {
       fileInputRef.current.value = ''
     }
@@ -67,8 +98,8 @@ export function ImageUploader({
               ? 'border-emerald-400/60 bg-gradient-to-br from-emerald-50/80 to-green-50/80 shadow-lg'
               : 'border-purple-300/60 bg-gradient-to-br from-purple-50/50 to-pink-50/50 active:border-purple-400/80 active:bg-gradient-to-br active:from-purple-100/60 active:to-pink-100/60 active:shadow-lg cursor-pointer'
           }`}
-        onDragOver={onDragOver}
-        onDrop={onDrop}
+        onDragOver={handleDragOver}
+        onDrop={handleDrop}
       >
         {/* 모바일용 간단한 배경 데코레이션 */}
         {!imagePreview && (
@@ -99,6 +130,14 @@ export function ImageUploader({
               <p className="text-emerald-700 font-medium text-sm">선택 완료!</p>
             </div>
 
+            {compressionResult && (
+              <p className="text-xs text-gray-600">
+                {compressionResult.compressed
+                  ? `사진 최적화: ${formatBytes(compressionResult.originalSize)} → ${formatBytes(compressionResult.compressedSize)} (${Math.round((1 - compressionResult.compressedSize / compressionResult.originalSize) * 100)}% 절약)`
+                  : `원본 그대로 업로드: ${formatBytes(compressionResult.originalSize)}`}
+              </p>
+            )}
+
             <button
               onClick={handleReset}
               disabled={disabled}
@@ -117,7 +156,7 @@ export function ImageUploader({
           <div className="relative z-10">
             <input
               type="file"
-              accept="image/*"
+              accept={IMAGE_ACCEPT_ATTRIBUTE}
               onChange={handleFileSelect}
               className="hidden"
               ref={fileInputRef}
@@ -136,14 +175,14 @@ export function ImageUploader({
             <div className="space-y-3">
               <button
                 onClick={() => fileInputRef.current?.click()}
-                disabled={disabled}
-                className={`w-full py-4 px-4 rounded-xl font-medium transition-all duration-200 min-h-[48px] ${disabled
+                disabled={disabled || isCompressing}
+                className={`w-full py-4 px-4 rounded-xl font-medium transition-all duration-200 min-h-[48px] ${disabled || isCompressing
                     ? 'text-gray-400 cursor-not-allowed bg-gray-100'
                     : 'bg-gradient-to-r from-purple-500 to-pink-600 active:from-purple-600 active:to-pink-700 text-white shadow-md active:shadow-sm active:scale-95'
                   }`}
               >
                 <div className="flex flex-col items-center space-y-1">
-                  <span className="text-lg font-semibold">📱 터치해서 사진 선택</span>
+                  <span className="text-lg font-semibold">{isCompressing ? '⏳ 사진 최적화 중...' : '📱 터치해서 사진 선택'}</span>
                   <span className="text-sm opacity-90">갤러리 또는 카메라</span>
                 </div>
               </button>
@@ -151,7 +190,7 @@ export function ImageUploader({
               <div className="text-center">
                 <div className="flex items-center justify-center space-x-1 text-xs text-gray-600">
                   <span className="w-1.5 h-1.5 bg-purple-400 rounded-full"></span>
-                  <span>JPG, PNG</span>
+                  <span>JPG, PNG, HEIC</span>
                   <span className="w-1.5 h-1.5 bg-pink-400 rounded-full"></span>
                   <span>최대 10MB</span>
                 </div>
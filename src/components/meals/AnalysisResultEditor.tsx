@@ -0,0 +1,220 @@
+'use client'
+
+import { useState } from 'react'
+import { FoodAnalysisResult, MealCorrectionInput } from '@/types/food-analysis'
+
+const PORTION_MULTIPLIERS = [0.5, 1, 1.5, 2]
+
+const MEAL_TYPE_OPTIONS: { value: NonNullable<MealCorrectionInput['meal_type']>; label: string }[] = [
+  { value: 'breakfast', label: '아침' },
+  { value: 'lunch', label: '점심' },
+  { value: 'dinner', label: '저녁' },
+  { value: 'snack', label: '간식' }
+]
+
+interface EditableFood {
+  key: string
+  original_index?: number
+  name: string
+  amount: string
+  calories: string // 사용자가 직접 입력한 경우에만 값이 있음
+  currentCalories?: number
+  portion_multiplier: number
+}
+
+interface AnalysisResultEditorProps {
+  result: FoodAnalysisResult
+  onSubmit: (corrections: MealCorrectionInput) => Promise<void> | void
+  onCancel: () => void
+  isSubmitting?: boolean
+  highlightedIndices?: number[] // 확인이 필요한 음식 (원본 foods index)
+  submitLabel?: string
+}
+
+function toEditableFoods(result: FoodAnalysisResult): EditableFood[] {
+  return result.foods.map((food, index) => ({
+    key: `original-${index}`,
+    original_index: index,
+    name: food.name,
+    amount: food.amount,
+    calories: '',
+    currentCalories: food.calories,
+    portion_multiplier: 1
+  }))
+}
+
+export function AnalysisResultEditor({
+  result,
+  onSubmit,
+  onCancel,
+  isSubmitting = false,
+  highlightedIndices = [],
+  submitLabel = '수정 적용'
+}: AnalysisResultEditorProps) {
+  const [foods, setFoods] = useState<EditableFood[]>(() => toEditableFoods(result))
+  const [mealType, setMealType] = useState<MealCorrectionInput['meal_type']>(
+    MEAL_TYPE_OPTIONS.some(option => option.value === result.meal_type)
+      ? result.meal_type as MealCorrectionInput['meal_type']
+      : undefined
+  )
+  const [nextKey, setNextKey] = useState(0)
+
+  const updateFood = (key: string, changes: Partial<EditableFood>) => {
+    setFoods(prev => prev.map(food => food.key === key ? { ...food, ...changes } : food))
+  }
+
+  const removeFood = (key: string) => {
+    setFoods(prev => prev.filter(food => food.key !== key))
+  }
+
+  const addFood = () => {
+    setFoods(prev => [
+      ...prev,
+      { key: `new-${nextKey}`, name: '', amount: '1인분', calories: '', portion_multiplier: 1 }
+    ])
+    setNextKey(prev => prev + 1)
+  }
+
+  const handleSubmit = async () => {
+    const corrections: MealCorrectionInput = {
+      foods: foods
+        .filter(food => food.name.trim().length > 0)
+        .map(food => ({
+          ...(food.original_index !== undefined && { original_index: food.original_index }),
+          name: food.name.trim(),
+          amount: food.amount.trim(),
+          ...(food.calories.trim() !== '' && { calories: Number(food.calories) }),
+          ...(food.portion_multiplier !== 1 && { portion_multiplier: food.portion_multiplier })
+        })),
+      ...(mealType && { meal_type: mealType })
+    }
+
+    await onSubmit(corrections)
+  }
+
+  const hasValidFood = foods.some(food => food.name.trim().length > 0)
+
+  return (
+    <div className="bg-white/80 backdrop-blur-sm border border-white/20 rounded-2xl p-5 shadow-lg space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-bold text-gray-800">분석 결과 수정</h3>
+        <select
+          value={mealType || ''}
+          onChange={(event) => setMealType((event.target.value || undefined) as MealCorrectionInput['meal_type'])}
+          disabled={isSubmitting}
+          className="px-3 py-1.5 text-sm border border-gray-200 rounded-lg bg-white"
+        >
+          <option value="">식사 타입 유지</option>
+          {MEAL_TYPE_OPTIONS.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="space-y-3">
+        {foods.map(food => (
+          <div
+            key={food.key}
+            className={`border rounded-xl p-4 space-y-3 bg-white/60 ${
+              food.original_index !== undefined && highlightedIndices.includes(food.original_index)
+                ? 'border-yellow-400 ring-2 ring-yellow-200'
+                : 'border-gray-100'
+            }`}
+          >
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+              <input
+                type="text"
+                value={food.name}
+                onChange={(event) => updateFood(food.key, { name: event.target.value })}
+                placeholder="음식 이름"
+                disabled={isSubmitting}
+                className="px-3 py-2 text-sm border border-gray-200 rounded-lg"
+              />
+              <input
+                type="text"
+                value={food.amount}
+                onChange={(event) => updateFood(food.key, { amount: event.target.value })}
+                placeholder="분량 (예: 1인분, 200g)"
+                disabled={isSubmitting}
+                className="px-3 py-2 text-sm border border-gray-200 rounded-lg"
+              />
+              <input
+                type="number"
+                min={0}
+                value={food.calories}
+                onChange={(event) => updateFood(food.key, { calories: event.target.value })}
+                placeholder={food.currentCalories !== undefined ? `${food.currentCalories} kcal` : '칼로리 (자동 추정)'}
+                disabled={isSubmitting}
+                className="px-3 py-2 text-sm border border-gray-200 rounded-lg"
+              />
+            </div>
+
+            <div className="flex items-center justify-between">
+              <div className="flex space-x-1">
+                {PORTION_MULTIPLIERS.map(multiplier => (
+                  <button
+                    key={multiplier}
+                    type="button"
+                    onClick={() => updateFood(food.key, { portion_multiplier: multiplier })}
+                    disabled={isSubmitting}
+                    className={`px-3 py-1 text-xs font-medium rounded-lg transition-all duration-200 ${
+                      food.portion_multiplier === multiplier
+                        ? 'bg-gradient-to-r from-pink-500 to-orange-500 text-white shadow-md'
+                        : 'bg-gray-100 text-gray-600 hover:bg-pink-50 hover:text-pink-600'
+                    }`}
+                  >
+                    {multiplier}x
+                  </button>
+                ))}
+              </div>
+              <button
+                type="button"
+                onClick={() => removeFood(food.key)}
+                disabled={isSubmitting}
+                className="text-xs text-red-500 hover:text-red-700"
+              >
+                삭제
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <button
+        type="button"
+        onClick={addFood}
+        disabled={isSubmitting}
+        className="w-full py-2 text-sm font-medium text-pink-600 border border-dashed border-pink-300 rounded-xl hover:bg-pink-50 transition-all duration-200"
+      >
+        + 음식 추가
+      </button>
+
+      <p className="text-xs text-gray-500">
+        칼로리를 비워두면 음식 이름과 분량으로 자동 계산됩니다.
+      </p>
+
+      <div className="flex space-x-3">
+        <button
+          type="button"
+          onClick={onCancel}
+          disabled={isSubmitting}
+          className="flex-1 py-3 rounded-xl font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 transition-all duration-200"
+        >
+          취소
+        </button>
+        <button
+          type="button"
+          onClick={handleSubmit}
+          disabled={isSubmitting || !hasValidFood}
+          className={`flex-1 py-3 rounded-xl font-bold text-white transition-all duration-200 ${
+            isSubmitting || !hasValidFood
+              ? 'bg-gray-400 cursor-not-allowed opacity-50'
+              : 'bg-gradient-to-r from-blue-500 to-purple-600 hover:from-blue-600 hover:to-purple-700 shadow-lg'
+          }`}
+        >
+          {isSubmitting ? '재계산 중...' : submitLabel}
+        </button>
+      </div>
+    </div>
+  )
+}
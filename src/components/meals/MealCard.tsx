@@ -1,12 +1,14 @@
 import Image from 'next/image';
 import Link from 'next/link';
 import { MealAnalysisRecord } from '@/types/food-analysis';
+import { getMealPlaceholderStyle, hasMealImage } from '@/hooks/useMealImageUrls';
 
 interface MealCardProps {
   meal: MealAnalysisRecord;
+  onImageError?: () => void; // 서명된 URL이 만료되는 등 이미지 로드 실패 시
 }
 
-export function MealCard({ meal }: MealCardProps) {
+export function MealCard({ meal, onImageError }: MealCardProps) {
   const date = new Date(meal.created_at || new Date().toISOString())
   const formattedDate = new Intl.DateTimeFormat('ko-KR', {
     year: 'numeric',
@@ -15,6 +17,7 @@ export function MealCard({ meal }: MealCardProps) {
     hour: '2-digit',
     minute: '2-digit',
   }).format(date)
+  const placeholderStyle = getMealPlaceholderStyle(meal)
 
   return (
     <Link href={`/meals/${meal.id}`}>
@@ -22,14 +25,21 @@ export function MealCard({ meal }: MealCardProps) {
         data-testid={`meal-card-${meal.id}`}
         className="bg-white rounded-lg shadow-md overflow-hidden hover:shadow-lg transition-shadow"
       >
-        {meal.image_url && (
-          <div className="relative h-48 w-full">
-            <Image
-              src={meal.image_url}
-              alt={meal.analysis_result.foods?.map(f => f.name).join(', ') || '식사 이미지'}
-              fill
-              className="object-cover"
-            />
+        {hasMealImage(meal) && (
+          <div className="relative h-48 w-full overflow-hidden bg-gray-100">
+            {placeholderStyle && (
+              <div className="absolute inset-0 scale-110 blur-lg" style={placeholderStyle} />
+            )}
+            {meal.image_url && (
+              <Image
+                src={meal.image_url}
+                alt={meal.analysis_result.foods?.map(f => f.name).join(', ') || '식사 이미지'}
+                fill
+                unoptimized // 서명된 URL은 만료되므로 이미지 최적화 캐시를 거치지 않음
+                className="object-cover"
+                onError={onImageError}
+              />
+            )}
           </div>
         )}
         <div className="p-4">
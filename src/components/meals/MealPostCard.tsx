@@ -5,6 +5,7 @@ import Link from 'next/link'
 import { Heart, MessageCircle, Share, Clock, Utensils, Flame, User } from 'lucide-react'
 import { useState } from 'react'
 import { MealAnalysisRecord } from '@/types/food-analysis'
+import { getMealPlaceholderStyle, hasMealImage } from '@/hooks/useMealImageUrls'
 
 interface MealPostCardProps {
   meal: MealAnalysisRecord
@@ -17,6 +18,7 @@ interface MealPostCardProps {
   likesCount?: number
   commentsCount?: number
   isLiked?: boolean
+  onImageError?: () => void // 서명된 URL이 만료되는 등 이미지 로드 실패 시
 }
 
 export function MealPostCard({ 
@@ -29,7 +31,8 @@ export function MealPostCard({
   onShare,
   likesCount = 0,
   commentsCount = 0,
-  isLiked = false
+  isLiked = false,
+  onImageError
 }: MealPostCardProps) {
   const [imageLoading, setImageLoading] = useState(true)
   
@@ -42,6 +45,7 @@ export function MealPostCard({
   }).format(date)
 
   const timeAgo = getTimeAgo(date)
+  const placeholderStyle = getMealPlaceholderStyle(meal)
   
   const displayName = authorName || authorEmail?.split('@')[0] || '사용자'
   const mealTypeEmoji = {
@@ -85,6 +89,46 @@ export function MealPostCard({
         </div>
         
         <div className="flex items-center space-x-2">
+          {meal.input_mode === 'text' && (
+            <span
+              className="text-xs font-medium px-2 py-1 bg-gray-100 text-gray-600 rounded-full"
+              title="사진 없이 글로 기록한 식사입니다"
+            >
+              사진 없음 · 미인증
+            </span>
+          )}
+          {meal.possibly_reused && (
+            <span
+              className="text-xs font-medium px-2 py-1 bg-red-100 text-red-700 rounded-full"
+              title="이전에 기록한 식사 사진과 거의 같은 사진입니다"
+            >
+              재사용 의심 사진
+            </span>
+          )}
+          {meal.photo_freshness === 'late' && (
+            <span
+              className="text-xs font-medium px-2 py-1 bg-orange-100 text-orange-700 rounded-full"
+              title="식사 시간대와 맞지 않거나 오래전에 찍힌 사진입니다"
+            >
+              늦은 사진 · 미인증
+            </span>
+          )}
+          {meal.analysis_result.metadata?.imported && (
+            <span
+              className="text-xs font-medium px-2 py-1 bg-purple-100 text-purple-700 rounded-full"
+              title="지난 식사 사진을 가져와 기록한 식사로, 식사 시간에 인증하지 않았습니다"
+            >
+              가져온 사진 · 미인증
+            </span>
+          )}
+          {meal.is_mock_data && (
+            <span
+              className="text-xs font-medium px-2 py-1 bg-amber-100 text-amber-700 rounded-full"
+              title="실제 AI 분석이 아닌 테스트 데이터로, 통계에서 제외됩니다"
+            >
+              테스트 데이터
+            </span>
+          )}
           <span className="text-xs font-medium px-2 py-1 bg-gradient-to-r from-pink-100 to-orange-100 text-pink-700 rounded-full capitalize">
             {meal.meal_type}
           </span>
@@ -92,21 +136,29 @@ export function MealPostCard({
       </div>
 
       {/* 이미지 */}
-      {meal.image_url && (
+      {hasMealImage(meal) && (
         <Link href={`/meals/${meal.id}`} className="block relative">
           <div className="relative h-64 w-full overflow-hidden group cursor-pointer">
-            {imageLoading && (
-              <div className="absolute inset-0 bg-gradient-to-r from-gray-200 via-gray-300 to-gray-200 animate-pulse" />
+            {(imageLoading || !meal.image_url) && (
+              placeholderStyle ? (
+                <div className="absolute inset-0 scale-110 blur-lg" style={placeholderStyle} />
+              ) : (
+                <div className="absolute inset-0 bg-gradient-to-r from-gray-200 via-gray-300 to-gray-200 animate-pulse" />
+              )
+            )}
+            {meal.image_url && (
+              <Image
+                src={meal.image_url}
+                alt={foods.length > 0 ? foods.map(f => f?.name || '알 수 없는 음식').join(', ') : '식사 이미지'}
+                fill
+                unoptimized // 서명된 URL은 만료되므로 이미지 최적화 캐시를 거치지 않음
+                className={`object-cover transition-all duration-300 group-hover:scale-105 ${
+                  imageLoading ? 'opacity-0' : 'opacity-100'
+                }`}
+                onLoadingComplete={() => setImageLoading(false)}
+                onError={onImageError}
+              />
             )}
-            <Image
-              src={meal.image_url}
-              alt={foods.length > 0 ? foods.map(f => f?.name || '알 수 없는 음식').join(', ') : '식사 이미지'}
-              fill
-              className={`object-cover transition-all duration-300 group-hover:scale-105 ${
-                imageLoading ? 'opacity-0' : 'opacity-100'
-              }`}
-              onLoadingComplete={() => setImageLoading(false)}
-            />
             <div className="absolute inset-0 bg-gradient-to-t from-black/20 via-transparent to-transparent opacity-0 group-hover:opacity-100 transition-opacity duration-300" />
           </div>
         </Link>
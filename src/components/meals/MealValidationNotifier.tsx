@@ -5,7 +5,8 @@ import { useToastHelpers } from '@/components/ui/toast-container';
 import { 
   ComprehensiveMealValidationResult,
   MealValidationResult,
-  DuplicateValidationResult 
+  DuplicateValidationResult,
+  PhotoFreshnessResult
 } from '@/lib/meal-validation';
 
 interface MealValidationNotifierProps {
@@ -22,6 +23,7 @@ export function useMealValidationNotifier({
   const { 
     showSuccess, 
     showError, 
+    showWarning,
     showTimeRestriction, 
     showDuplicateWarning
   } = useToastHelpers();
@@ -32,6 +34,11 @@ export function useMealValidationNotifier({
         title: '업로드 성공',
         duration: 4000
       });
+
+      // 저장은 됐지만 늦게 찍힌 사진
+      if (result.freshnessValidation?.isLate) {
+        handleFreshnessNotification(result.freshnessValidation);
+      }
       return;
     }
 
@@ -44,6 +51,11 @@ export function useMealValidationNotifier({
     if (result.duplicateValidation.isDuplicate) {
       handleDuplicateNotification(result.duplicateValidation);
     }
+
+    // 사진 촬영 시각 알림
+    if (result.freshnessValidation && !result.freshnessValidation.isAccepted) {
+      handleFreshnessNotification(result.freshnessValidation);
+    }
   }, [showSuccess]);
 
   const handleTimeRestrictionNotification = useCallback((timeValidation: MealValidationResult) => {
@@ -59,6 +71,44 @@ export function useMealValidationNotifier({
     });
   }, [showTimeRestriction]);
 
+  const handleFreshnessNotification = useCallback((freshnessValidation: PhotoFreshnessResult) => {
+    const capturedAt = freshnessValidation.capturedAt ?
+      new Date(freshnessValidation.capturedAt).toLocaleString('ko-KR', {
+        month: 'short',
+        day: 'numeric',
+        hour: '2-digit',
+        minute: '2-digit'
+      }) : undefined;
+
+    const children = (freshnessValidation.reason || capturedAt) && (
+      <div className="mt-2 space-y-1">
+        {capturedAt && (
+          <div className="text-xs opacity-75">
+            촬영 시각: {capturedAt}
+          </div>
+        )}
+        {freshnessValidation.reason && (
+          <div className="text-xs opacity-75">
+            사유: {freshnessValidation.reason}
+          </div>
+        )}
+      </div>
+    );
+
+    if (freshnessValidation.isAccepted) {
+      showWarning(freshnessValidation.message, {
+        title: '늦은 인증',
+        duration: 8000,
+        children
+      });
+    } else {
+      showTimeRestriction(freshnessValidation.message, {
+        duration: 8000,
+        children
+      });
+    }
+  }, [showWarning, showTimeRestriction]);
+
   const handleDuplicateNotification = useCallback((duplicateValidation: DuplicateValidationResult) => {
     let actionButton;
 
@@ -169,6 +219,10 @@ export function useMealValidationNotifier({
           duration: 8000
         });
       }
+
+      if (response.validation.freshnessValidation && !response.validation.freshnessValidation.isAccepted) {
+        handleFreshnessNotification(response.validation.freshnessValidation);
+      }
     } else if (response.success === false) {
       notifyUploadError(response.error || '알 수 없는 오류가 발생했습니다.');
     } else if (response.success === true) {
@@ -176,8 +230,13 @@ export function useMealValidationNotifier({
         response.analysis?.meal_type || '식사',
         response.analysis?.food_name
       );
+
+      // 늦은 사진으로 저장된 경우
+      if (response.validation?.freshnessValidation?.isLate) {
+        handleFreshnessNotification(response.validation.freshnessValidation);
+      }
     }
-  }, [showTimeRestriction, showDuplicateWarning, notifyUploadError, notifyUploadSuccess]);
+  }, [showTimeRestriction, showDuplicateWarning, handleFreshnessNotification, notifyUploadError, notifyUploadSuccess]);
 
   return {
     notifyValidationResult,
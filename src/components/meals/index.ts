@@ -1,4 +1,5 @@
 export { MealCard } from './MealCard'
 export { MealValidationStatus } from './MealValidationStatus'
 export { useMealValidationNotifier } from './MealValidationNotifier'
-export { MealPostCard } from './MealPostCard' 
\ No newline at end of file
+export { MealPostCard } from './MealPostCard'
+export { AnalysisResultEditor } from './AnalysisResultEditor' 
\ No newline at end of file
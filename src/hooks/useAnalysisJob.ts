@@ -0,0 +1,90 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { createClientComponentClient } from '@supabase/auth-helpers-nextjs'
+import { AnalysisJob } from '@/types/food-analysis'
+
+// realtime 이벤트를 놓쳤을 때를 위한 상태 조회 주기
+const POLL_INTERVAL_MS = 3000
+
+function isFinished(job: AnalysisJob | null) {
+  return job?.status === 'succeeded' || job?.status === 'failed'
+}
+
+/**
+ * 비동기 분석 작업 상태 구독
+ * realtime으로 완료 알림을 받고, 연결이 안 되는 경우를 대비해 상태 API도 주기적으로 조회
+ */
+export function useAnalysisJob(jobId: string | null) {
+  const [job, setJob] = useState<AnalysisJob | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const supabase = createClientComponentClient()
+
+  useEffect(() => {
+    if (!jobId) {
+      setJob(null)
+      setError(null)
+      return
+    }
+
+    let cancelled = false
+    let pollTimer: ReturnType<typeof setTimeout> | undefined
+
+    const fetchJob = async () => {
+      try {
+        const { data: { session } } = await supabase.auth.getSession()
+        if (!session?.access_token) {
+          setError('인증 세션을 가져올 수 없습니다. 다시 로그인해주세요.')
+          return
+        }
+
+        const response = await fetch(`/api/meals/jobs/${jobId}`, {
+          headers: { 'Authorization': `Bearer ${session.access_token}` }
+        })
+        const result = await response.json()
+        if (cancelled) return
+
+        if (result.success && result.data) {
+          setJob(result.data)
+          if (isFinished(result.data)) return
+        } else {
+          setError(result.error || '분석 작업을 불러올 수 없습니다.')
+          return
+        }
+      } catch (fetchError) {
+        console.error('Analysis job fetch error:', fetchError)
+      }
+
+      if (!cancelled) {
+        pollTimer = setTimeout(fetchJob, POLL_INTERVAL_MS)
+      }
+    }
+
+    const channel = supabase
+      .channel(`analysis-job-${jobId}`)
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'analysis_jobs', filter: `id=eq.${jobId}` },
+        (payload) => {
+          if (cancelled) return
+          const updatedJob = payload.new as AnalysisJob
+          setJob(updatedJob)
+          if (isFinished(updatedJob)) {
+            clearTimeout(pollTimer)
+          }
+        }
+      )
+      .subscribe()
+
+    setError(null)
+    fetchJob()
+
+    return () => {
+      cancelled = true
+      clearTimeout(pollTimer)
+      supabase.removeChannel(channel)
+    }
+  }, [jobId, supabase])
+
+  return { job, error, isFinished: isFinished(job) }
+}
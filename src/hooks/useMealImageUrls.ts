@@ -0,0 +1,111 @@
+'use client'
+
+import { CSSProperties, useCallback, useEffect, useRef, useState } from 'react'
+import { createClientComponentClient } from '@supabase/auth-helpers-nextjs'
+
+// 만료되기 이 시간 전에 새 URL 발급
+const REFRESH_BEFORE_EXPIRY_MS = 60 * 1000
+// 서버의 한 번 요청당 최대 식사 수 (MAX_SIGNED_MEAL_IMAGES)
+const MEAL_IDS_PER_REQUEST = 50
+// 이미지 로드 실패로 인한 재발급 최소 간격 (삭제된 파일 등으로 반복 실패할 때 요청 폭주 방지)
+const ERROR_REFRESH_INTERVAL_MS = 30 * 1000
+
+/**
+ * 저장된 사진이 있는 식사인지 확인 (표시용 URL은 useMealImageUrls로 발급)
+ */
+export function hasMealImage(meal: { image_path?: string; image_url?: string }) {
+  return !!(meal.image_path || meal.image_url)
+}
+
+/**
+ * 썸네일이 로드되기 전에 보여줄 흐린 미리보기 배경 (미리보기가 없는 예전 식사는 undefined)
+ * 16px 이미지를 늘려서 쓰므로 요소에 blur 클래스를 함께 적용
+ */
+export function getMealPlaceholderStyle(meal: {
+  image_placeholder?: string
+  image_dominant_color?: string
+}): CSSProperties | undefined {
+  if (!meal.image_placeholder && !meal.image_dominant_color) return undefined
+
+  return {
+    backgroundColor: meal.image_dominant_color,
+    backgroundImage: meal.image_placeholder ? `url(${meal.image_placeholder})` : undefined,
+    backgroundSize: 'cover',
+    backgroundPosition: 'center'
+  }
+}
+
+/**
+ * 식사 사진의 서명된 URL 조회
+ * 비공개 버킷 이미지는 짧게 유효한 URL로만 볼 수 있어서, 만료 전에 자동으로 다시 발급
+ * 이미지 로드가 실패하면 refresh()로 즉시 다시 발급
+ */
+export function useMealImageUrls(mealIds: string[], variant: 'original' | 'thumbnail' = 'original') {
+  const [urls, setUrls] = useState<Record<string, string>>({})
+  const [refreshCount, setRefreshCount] = useState(0)
+  const lastErrorRefreshRef = useRef(0)
+  const supabase = createClientComponentClient()
+  const idsKey = mealIds.join(',')
+
+  useEffect(() => {
+    const ids = idsKey ? idsKey.split(',') : []
+    if (ids.length === 0) {
+      setUrls({})
+      return
+    }
+
+    let cancelled = false
+    let refreshTimer: ReturnType<typeof setTimeout> | undefined
+
+    const fetchUrls = async () => {
+      try {
+        const { data: { session } } = await supabase.auth.getSession()
+        if (!session?.access_token) return
+
+        const nextUrls: Record<string, string> = {}
+        let expiresAt = Infinity
+        for (let start = 0; start < ids.length; start += MEAL_IDS_PER_REQUEST) {
+          const response = await fetch('/api/meals/images', {
+            method: 'POST',
+            headers: {
+              'Authorization': `Bearer ${session.access_token}`,
+              'Content-Type': 'application/json'
+            },
+            body: JSON.stringify({ meal_ids: ids.slice(start, start + MEAL_IDS_PER_REQUEST), variant })
+          })
+          const result = await response.json()
+          if (!result.success || !result.data) {
+            console.error('Meal image URL error:', result.error)
+            return
+          }
+
+          Object.assign(nextUrls, result.data.urls)
+          expiresAt = Math.min(expiresAt, new Date(result.data.expires_at).getTime())
+        }
+
+        if (cancelled) return
+        setUrls(nextUrls)
+        refreshTimer = setTimeout(fetchUrls, Math.max(expiresAt - Date.now() - REFRESH_BEFORE_EXPIRY_MS, 10 * 1000))
+      } catch (fetchError) {
+        console.error('Meal image URL fetch error:', fetchError)
+      }
+    }
+
+    fetchUrls()
+
+    return () => {
+      cancelled = true
+      if (refreshTimer) clearTimeout(refreshTimer)
+    }
+  }, [idsKey, variant, refreshCount, supabase])
+
+  const refresh = useCallback(() => {
+    const now = Date.now()
+    if (now - lastErrorRefreshRef.current < ERROR_REFRESH_INTERVAL_MS) return
+
+    lastErrorRefreshRef.current = now
+    setRefreshCount(count => count + 1)
+  }, [])
+
+  return { urls, refresh }
+}
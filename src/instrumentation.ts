@@ -0,0 +1,31 @@
+// 서버 시작 시 한 번 실행 (Next.js instrumentation)
+// 분석 작업 정리(재시도 실행 + 중단된 작업 실패 처리)를 주기적으로 실행
+// 서버리스 배포처럼 프로세스가 유지되지 않으면 ANALYSIS_JOB_SWEEP_INTERVAL_MS=0으로 끄고 npm run jobs:sweep을 cron으로 실행
+
+// 기본 실행 간격 (재시도 최소 대기 1분보다 짧게)
+const DEFAULT_SWEEP_INTERVAL_MS = 1000 * 30;
+
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return;
+
+  const intervalMs = process.env.ANALYSIS_JOB_SWEEP_INTERVAL_MS
+    ? Number(process.env.ANALYSIS_JOB_SWEEP_INTERVAL_MS)
+    : DEFAULT_SWEEP_INTERVAL_MS;
+  if (!Number.isFinite(intervalMs) || intervalMs <= 0) return;
+
+  // sharp 등 Node 전용 모듈은 Node 런타임에서만 로드
+  const { sweepAnalysisJobs } = await import('./lib/analysis-jobs');
+
+  let running = false;
+  const timer = setInterval(async () => {
+    // 이전 정리가 끝나지 않았으면 건너뜀 (재시도 분석이 오래 걸리는 경우)
+    if (running) return;
+    running = true;
+    try {
+      await sweepAnalysisJobs();
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+  timer.unref();
+}
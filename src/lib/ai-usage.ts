@@ -0,0 +1,156 @@
+import { createSupabaseAdmin } from './supabase';
+import { AIUsageSummary } from '@/types/food-analysis';
+
+// 기본 사용자별 AI 분석 호출 한도 (재시도 포함)
+export const DEFAULT_AI_DAILY_QUOTA = 30;
+export const DEFAULT_AI_MONTHLY_QUOTA = 300;
+
+export interface AIQuotaLimits {
+  daily: number;
+  monthly: number;
+}
+
+/**
+ * 설정(AI_DAILY_QUOTA, AI_MONTHLY_QUOTA)에 따른 사용자별 호출 한도
+ */
+export function getAIQuotaLimits(): AIQuotaLimits {
+  return {
+    daily: parseQuota(process.env.AI_DAILY_QUOTA, DEFAULT_AI_DAILY_QUOTA, 'AI_DAILY_QUOTA'),
+    monthly: parseQuota(process.env.AI_MONTHLY_QUOTA, DEFAULT_AI_MONTHLY_QUOTA, 'AI_MONTHLY_QUOTA')
+  };
+}
+
+function parseQuota(value: string | undefined, fallback: number, name: string): number {
+  if (!value) return fallback;
+
+  const quota = Number(value);
+  if (!Number.isInteger(quota) || quota < 0) {
+    throw new Error(`${name}은 0 이상의 정수여야 합니다: ${value}`);
+  }
+  return quota;
+}
+
+/**
+ * 사용자의 이번 달 AI 사용량 요약 (UTC 기준 오늘/이번 달)
+ */
+export async function getAIUsageSummary(
+  userId: string
+): Promise<{ success: boolean; data?: AIUsageSummary; error?: string }> {
+  try {
+    const limits = getAIQuotaLimits();
+    const now = new Date();
+    const today = now.toISOString().split('T')[0];
+    const monthStart = `${today.substring(0, 7)}-01`;
+
+    const supabase = createSupabaseAdmin();
+    const { data, error } = await supabase
+      .from('ai_usage')
+      .select('usage_date, provider, calls')
+      .eq('user_id', userId)
+      .gte('usage_date', monthStart);
+
+    if (error) {
+      throw new Error(`AI 사용량 조회 실패: ${error.message}`);
+    }
+
+    let dailyUsed = 0;
+    let monthlyUsed = 0;
+    const byProvider: Record<string, number> = {};
+    for (const row of data || []) {
+      monthlyUsed += row.calls;
+      if (row.usage_date === today) {
+        dailyUsed += row.calls;
+      }
+      byProvider[row.provider] = (byProvider[row.provider] || 0) + row.calls;
+    }
+
+    const nextDay = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1));
+    const nextMonth = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+
+    return {
+      success: true,
+      data: {
+        daily: {
+          used: dailyUsed,
+          limit: limits.daily,
+          remaining: Math.max(0, limits.daily - dailyUsed),
+          resets_at: nextDay.toISOString()
+        },
+        monthly: {
+          used: monthlyUsed,
+          limit: limits.monthly,
+          remaining: Math.max(0, limits.monthly - monthlyUsed),
+          resets_at: nextMonth.toISOString()
+        },
+        by_provider: byProvider
+      }
+    };
+  } catch (error) {
+    console.error('Get AI usage error:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+}
+
+/**
+ * AI 호출 한도 확인
+ * 사용량을 조회할 수 없으면 분석을 막지 않음 (allowed: true, usage 없음)
+ */
+export async function checkAIQuota(userId: string): Promise<{ allowed: boolean; usage?: AIUsageSummary }> {
+  const result = await getAIUsageSummary(userId);
+  if (!result.success || !result.data) {
+    return { allowed: true };
+  }
+
+  const { daily, monthly } = result.data;
+  return {
+    allowed: daily.remaining > 0 && monthly.remaining > 0,
+    usage: result.data
+  };
+}
+
+/**
+ * provider API 호출 수 기록 (재시도 포함)
+ * 기록 실패는 분석 결과에 영향을 주지 않도록 로그만 남김
+ */
+export async function recordAIUsage(userId: string, provider: string, calls: number): Promise<void> {
+  if (calls <= 0) return;
+
+  try {
+    const supabase = createSupabaseAdmin();
+    const { error } = await supabase.rpc('increment_ai_usage', {
+      p_user_id: userId,
+      p_provider: provider,
+      p_calls: calls
+    });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+  } catch (error) {
+    console.error('Record AI usage error:', error);
+  }
+}
+
+/**
+ * 한도 초과 안내 메시지
+ */
+export function getAIQuotaExceededMessage(usage: AIUsageSummary): string {
+  return usage.daily.remaining <= 0
+    ? `오늘 AI 분석 한도(${usage.daily.limit}회)를 모두 사용했습니다. 내일 다시 시도해주세요.`
+    : `이번 달 AI 분석 한도(${usage.monthly.limit}회)를 모두 사용했습니다.`;
+}
+
+/**
+ * 남은 한도 응답 헤더
+ */
+export function createAIQuotaHeaders(usage: AIUsageSummary): Record<string, string> {
+  return {
+    'X-Quota-Daily-Limit': usage.daily.limit.toString(),
+    'X-Quota-Daily-Remaining': usage.daily.remaining.toString(),
+    'X-Quota-Monthly-Limit': usage.monthly.limit.toString(),
+    'X-Quota-Monthly-Remaining': usage.monthly.remaining.toString()
+  };
+}
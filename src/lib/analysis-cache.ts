@@ -0,0 +1,236 @@
+import { createSupabaseAdmin } from './supabase';
+import { AnalysisCache, FoodAnalysisResult } from '@/types/food-analysis';
+
+// 캐시 저장소 종류
+export type AnalysisCacheStoreName = 'supabase' | 'memory';
+
+// 분석 결과 캐시 저장소 인터페이스
+export interface AnalysisCacheStore {
+  get(imageHash: string, variant: string): Promise<AnalysisCache | null>;
+  set(entry: AnalysisCache): Promise<void>;
+  recordHit(entry: AnalysisCache): Promise<void>;
+  delete(imageHash: string, variant: string): Promise<void>;
+  purgeExpired(): Promise<number>;
+}
+
+// 기본 캐시 유효 기간 (7일)
+export const DEFAULT_ANALYSIS_CACHE_TTL_MS = 1000 * 60 * 60 * 24 * 7;
+
+/**
+ * Supabase analysis_cache 테이블 기반 저장소
+ * 사용자와 무관한 이미지 해시 단위 데이터이므로 서버 전용 admin 클라이언트 사용
+ */
+export class SupabaseAnalysisCacheStore implements AnalysisCacheStore {
+  private readonly table = 'analysis_cache';
+
+  async get(imageHash: string, variant: string): Promise<AnalysisCache | null> {
+    const supabase = createSupabaseAdmin();
+    const { data, error } = await supabase
+      .from(this.table)
+      .select('*')
+      .eq('image_hash', imageHash)
+      .eq('variant', variant)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`분석 캐시 조회 실패: ${error.message}`);
+    }
+
+    return (data as AnalysisCache | null) ?? null;
+  }
+
+  async set(entry: AnalysisCache): Promise<void> {
+    const supabase = createSupabaseAdmin();
+    const { error } = await supabase
+      .from(this.table)
+      .upsert([entry], { onConflict: 'image_hash,variant' });
+
+    if (error) {
+      throw new Error(`분석 캐시 저장 실패: ${error.message}`);
+    }
+  }
+
+  async recordHit(entry: AnalysisCache): Promise<void> {
+    const supabase = createSupabaseAdmin();
+    const { error } = await supabase
+      .from(this.table)
+      .update({ hit_count: entry.hit_count + 1 })
+      .eq('image_hash', entry.image_hash)
+      .eq('variant', entry.variant);
+
+    if (error) {
+      throw new Error(`분석 캐시 적중 기록 실패: ${error.message}`);
+    }
+  }
+
+  async delete(imageHash: string, variant: string): Promise<void> {
+    const supabase = createSupabaseAdmin();
+    const { error } = await supabase
+      .from(this.table)
+      .delete()
+      .eq('image_hash', imageHash)
+      .eq('variant', variant);
+
+    if (error) {
+      throw new Error(`분석 캐시 삭제 실패: ${error.message}`);
+    }
+  }
+
+  async purgeExpired(): Promise<number> {
+    const supabase = createSupabaseAdmin();
+    const { data, error } = await supabase
+      .from(this.table)
+      .delete()
+      .lt('expires_at', new Date().toISOString())
+      .select('image_hash');
+
+    if (error) {
+      throw new Error(`만료된 분석 캐시 정리 실패: ${error.message}`);
+    }
+
+    return data?.length ?? 0;
+  }
+}
+
+/**
+ * 프로세스 메모리 기반 저장소 (개발/테스트용, 재시작 시 초기화)
+ */
+export class MemoryAnalysisCacheStore implements AnalysisCacheStore {
+  private cache = new Map<string, AnalysisCache>();
+
+  async get(imageHash: string, variant: string): Promise<AnalysisCache | null> {
+    const entry = this.cache.get(this.toKey(imageHash, variant));
+    return entry ? { ...entry } : null;
+  }
+
+  async set(entry: AnalysisCache): Promise<void> {
+    this.cache.set(this.toKey(entry.image_hash, entry.variant), { ...entry });
+  }
+
+  async recordHit(entry: AnalysisCache): Promise<void> {
+    const stored = this.cache.get(this.toKey(entry.image_hash, entry.variant));
+    if (stored) {
+      stored.hit_count += 1;
+    }
+  }
+
+  async delete(imageHash: string, variant: string): Promise<void> {
+    this.cache.delete(this.toKey(imageHash, variant));
+  }
+
+  async purgeExpired(): Promise<number> {
+    const now = Date.now();
+    let removed = 0;
+    for (const [key, entry] of this.cache) {
+      if (new Date(entry.expires_at).getTime() <= now) {
+        this.cache.delete(key);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  private toKey(imageHash: string, variant: string): string {
+    return `${imageHash}:${variant}`;
+  }
+}
+
+/**
+ * 이미지 해시 기반 AI 분석 결과 캐시
+ * - variant: 같은 이미지라도 provider/모델이 다르면 별도 항목으로 저장
+ * - 캐시 오류는 로그만 남기고 분석 흐름을 막지 않음
+ */
+export class AnalysisResultCache {
+  constructor(
+    private readonly store: AnalysisCacheStore,
+    private readonly ttlMs: number = DEFAULT_ANALYSIS_CACHE_TTL_MS
+  ) {}
+
+  /**
+   * 캐시 조회 (만료 항목은 삭제 후 miss 처리, 적중 시 hit_count 증가)
+   */
+  async get(imageHash: string, variant: string): Promise<FoodAnalysisResult | null> {
+    try {
+      const entry = await this.store.get(imageHash, variant);
+      if (!entry) return null;
+
+      if (new Date(entry.expires_at).getTime() <= Date.now()) {
+        await this.store.delete(imageHash, variant);
+        return null;
+      }
+
+      await this.store.recordHit(entry);
+
+      return {
+        ...entry.result,
+        metadata: {
+          ...entry.result.metadata,
+          cache_hit: true
+        }
+      };
+    } catch (error) {
+      console.warn('⚠️  분석 캐시 조회 실패 (무시하고 계속 진행):', error);
+      return null;
+    }
+  }
+
+  /**
+   * 분석 결과 저장 (mock 데이터는 실제 결과를 가리지 않도록 저장하지 않음)
+   */
+  async set(imageHash: string, variant: string, result: FoodAnalysisResult): Promise<void> {
+    if (result.metadata?.is_mock_data) {
+      return;
+    }
+
+    const now = Date.now();
+    try {
+      await this.store.set({
+        image_hash: imageHash,
+        variant,
+        result: {
+          ...result,
+          metadata: { ...result.metadata, cache_hit: false }
+        },
+        cached_at: new Date(now).toISOString(),
+        expires_at: new Date(now + this.ttlMs).toISOString(),
+        hit_count: 0
+      });
+    } catch (error) {
+      console.warn('⚠️  분석 캐시 저장 실패 (무시하고 계속 진행):', error);
+    }
+  }
+
+  async invalidate(imageHash: string, variant: string): Promise<void> {
+    await this.store.delete(imageHash, variant);
+  }
+
+  async purgeExpired(): Promise<number> {
+    return this.store.purgeExpired();
+  }
+}
+
+let sharedCache: AnalysisResultCache | null = null;
+
+/**
+ * 설정(ANALYSIS_CACHE_STORE)에 따른 캐시 인스턴스 반환
+ */
+export function getAnalysisCache(ttlMs?: number): AnalysisResultCache {
+  if (sharedCache) return sharedCache;
+
+  const storeName = (process.env.ANALYSIS_CACHE_STORE || 'supabase') as AnalysisCacheStoreName;
+  let store: AnalysisCacheStore;
+
+  switch (storeName) {
+    case 'memory':
+      store = new MemoryAnalysisCacheStore();
+      break;
+    case 'supabase':
+      store = new SupabaseAnalysisCacheStore();
+      break;
+    default:
+      throw new Error(`알 수 없는 분석 캐시 저장소입니다: ${storeName}`);
+  }
+
+  sharedCache = new AnalysisResultCache(store, ttlMs);
+  return sharedCache;
+}
@@ -0,0 +1,317 @@
+import fs from 'fs';
+import path from 'path';
+import { processImageForAI } from './image-processor';
+import { FoodAnalysisProvider, LocalFoodAnalysisProvider } from './analysis-provider';
+import { responseProcessor } from './response-processor';
+import { resolveAnalysisOptions } from './analysis-prompts';
+import { FoodAnalysisOptions, FoodAnalysisResult, FoodItem, ResolvedAnalysisOptions } from '@/types/food-analysis';
+
+// 칼로리 오차가 이 비율 이내면 분석 결과를 "정확"으로 보고 신뢰도 보정에 사용
+export const DEFAULT_CALORIE_TOLERANCE = 0.2;
+
+// 신뢰도 보정 구간 수 (0.0-0.1, 0.1-0.2, ...)
+const CALIBRATION_BIN_COUNT = 10;
+
+// 라벨링된 음식 (aliases는 같은 음식으로 인정할 다른 이름)
+export interface ExpectedFood {
+  name: string;
+  aliases?: string[];
+}
+
+// 평가 데이터셋 JSON 형식 (image는 데이터셋 파일 기준 상대 경로)
+export interface AnalysisEvaluationDataset {
+  samples: Array<{
+    id: string;
+    image: string;
+    expected_calories: number;
+    expected_foods: Array<string | ExpectedFood>;
+  }>;
+}
+
+// 이미지가 로드된 평가 샘플
+export interface AnalysisEvaluationSample {
+  id: string;
+  imageBuffer: Buffer;
+  expectedCalories: number;
+  expectedFoods: ExpectedFood[];
+}
+
+export interface AnalysisEvaluationOptions {
+  analysisOptions?: FoodAnalysisOptions;
+  calorieTolerance?: number;
+}
+
+// 샘플별 평가 결과
+export interface AnalysisSampleEvaluation {
+  id: string;
+  status: 'evaluated' | 'failed';
+  imageHash?: string;
+  recorded?: boolean; // local provider에 기록된 응답이 있었는지 (false면 defaults로 대체된 결과)
+  expectedCalories: number;
+  predictedCalories?: number;
+  calorieError?: number; // 예측 - 정답
+  analysisConfidence?: number;
+  matchedFoods?: string[];
+  missedFoods?: string[];
+  extraFoods?: string[];
+  warnings?: string[];
+  error?: string;
+}
+
+// 신뢰도 구간별 실제 정확도
+export interface CalibrationBin {
+  range: [number, number];
+  count: number;
+  meanConfidence: number;
+  accuracy: number;
+}
+
+export interface CalibrationReport {
+  bins: CalibrationBin[];
+  expectedCalibrationError: number; // 구간별 |정확도 - 평균 신뢰도|의 가중 평균 (0에 가까울수록 좋음)
+}
+
+// 전체 평가 리포트
+export interface AnalysisEvaluationReport {
+  provider: string;
+  modelVersion?: string;
+  options: ResolvedAnalysisOptions;
+  sampleCount: number;
+  evaluatedCount: number;
+  failedCount: number;
+  unrecordedCount: number;
+  calories: {
+    meanAbsoluteError: number;
+    meanAbsolutePercentageError: number;
+    meanSignedError: number; // 양수면 과대 추정 경향
+    withinToleranceRate: number;
+    tolerance: number;
+  };
+  foods: {
+    recall: number;
+    precision: number;
+    expectedCount: number;
+    matchedCount: number;
+    predictedCount: number;
+  };
+  calibration: {
+    analysis: CalibrationReport; // analysis_confidence vs 칼로리 허용 오차 이내 여부
+    foods: CalibrationReport;    // 음식별 confidence vs 라벨과 일치 여부
+  };
+  samples: AnalysisSampleEvaluation[];
+}
+
+/**
+ * 평가 데이터셋 파일 로드 (이미지 경로는 데이터셋 파일 위치 기준)
+ */
+export function loadEvaluationDataset(datasetPath: string): AnalysisEvaluationSample[] {
+  const dataset = JSON.parse(fs.readFileSync(datasetPath, 'utf-8')) as AnalysisEvaluationDataset;
+  if (!Array.isArray(dataset.samples) || dataset.samples.length === 0) {
+    throw new Error(`평가 샘플이 없습니다: ${datasetPath}`);
+  }
+
+  const baseDir = path.dirname(datasetPath);
+  return dataset.samples.map((sample, index) => {
+    if (!sample.id || !sample.image || typeof sample.expected_calories !== 'number' || !Array.isArray(sample.expected_foods)) {
+      throw new Error(`평가 샘플 형식이 올바르지 않습니다 (index ${index})`);
+    }
+
+    return {
+      id: sample.id,
+      imageBuffer: fs.readFileSync(path.resolve(baseDir, sample.image)),
+      expectedCalories: sample.expected_calories,
+      expectedFoods: sample.expected_foods.map(food => (typeof food === 'string' ? { name: food } : food))
+    };
+  });
+}
+
+/**
+ * 라벨링된 샘플을 provider와 ResponseProcessor로 분석하고 정확도 측정
+ * mock-in-dev 대체 없이 provider 결과만 평가 (실패한 샘플은 failed로 집계)
+ */
+export async function evaluateAnalysisAccuracy(
+  samples: AnalysisEvaluationSample[],
+  provider: FoodAnalysisProvider,
+  options: AnalysisEvaluationOptions = {}
+): Promise<AnalysisEvaluationReport> {
+  const tolerance = options.calorieTolerance ?? DEFAULT_CALORIE_TOLERANCE;
+  const resolvedOptions = resolveAnalysisOptions(options.analysisOptions);
+  const results: AnalysisSampleEvaluation[] = [];
+  const analysisPoints: CalibrationPoint[] = [];
+  const foodPoints: CalibrationPoint[] = [];
+  let modelVersion: string | undefined;
+
+  // API rate limit을 고려해 순차 실행
+  for (const sample of samples) {
+    const startTime = Date.now();
+
+    try {
+      const processedImage = await processImageForAI(sample.imageBuffer);
+      const output = await provider.analyzeImage(processedImage, resolvedOptions);
+      modelVersion = output.modelVersion;
+
+      const validationResult = responseProcessor.validateAndProcessResponse(
+        output.rawResponse,
+        processedImage.originalHash,
+        startTime,
+        output.retryCount,
+        output.isMockData,
+        output.modelVersion,
+        resolvedOptions
+      );
+
+      if (!validationResult.isValid || !validationResult.corrected_data) {
+        throw new Error(`응답 검증 실패: ${validationResult.errors.join(', ')}`);
+      }
+
+      const result = validationResult.corrected_data as FoodAnalysisResult;
+      const match = matchFoods(sample.expectedFoods, result.foods);
+      const calorieError = result.total_calories - sample.expectedCalories;
+
+      analysisPoints.push({
+        confidence: result.analysis_confidence,
+        correct: isWithinTolerance(calorieError, sample.expectedCalories, tolerance)
+      });
+      result.foods.forEach((food, index) => {
+        foodPoints.push({ confidence: food.confidence, correct: match.matchedPredictions.has(index) });
+      });
+
+      results.push({
+        id: sample.id,
+        status: 'evaluated',
+        imageHash: processedImage.originalHash,
+        recorded: provider instanceof LocalFoodAnalysisProvider
+          ? provider.hasRecordedResponse(processedImage.originalHash)
+          : undefined,
+        expectedCalories: sample.expectedCalories,
+        predictedCalories: result.total_calories,
+        calorieError,
+        analysisConfidence: result.analysis_confidence,
+        matchedFoods: match.matched,
+        missedFoods: match.missed,
+        extraFoods: result.foods.filter((_, index) => !match.matchedPredictions.has(index)).map(food => food.name),
+        warnings: validationResult.warnings.length > 0 ? validationResult.warnings : undefined
+      });
+    } catch (error) {
+      results.push({
+        id: sample.id,
+        status: 'failed',
+        expectedCalories: sample.expectedCalories,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  const evaluated = results.filter(result => result.status === 'evaluated');
+  const expectedCount = evaluated.reduce((sum, result) => sum + result.matchedFoods!.length + result.missedFoods!.length, 0);
+  const matchedCount = evaluated.reduce((sum, result) => sum + result.matchedFoods!.length, 0);
+  const predictedCount = evaluated.reduce((sum, result) => sum + result.matchedFoods!.length + result.extraFoods!.length, 0);
+
+  return {
+    provider: provider.name,
+    modelVersion,
+    options: resolvedOptions,
+    sampleCount: samples.length,
+    evaluatedCount: evaluated.length,
+    failedCount: results.length - evaluated.length,
+    unrecordedCount: evaluated.filter(result => result.recorded === false).length,
+    calories: {
+      meanAbsoluteError: mean(evaluated.map(result => Math.abs(result.calorieError!))),
+      meanAbsolutePercentageError: mean(
+        evaluated
+          .filter(result => result.expectedCalories > 0)
+          .map(result => Math.abs(result.calorieError!) / result.expectedCalories)
+      ),
+      meanSignedError: mean(evaluated.map(result => result.calorieError!)),
+      withinToleranceRate: mean(analysisPoints.map(point => (point.correct ? 1 : 0))),
+      tolerance
+    },
+    foods: {
+      recall: expectedCount > 0 ? matchedCount / expectedCount : 0,
+      precision: predictedCount > 0 ? matchedCount / predictedCount : 0,
+      expectedCount,
+      matchedCount,
+      predictedCount
+    },
+    calibration: {
+      analysis: buildCalibrationReport(analysisPoints),
+      foods: buildCalibrationReport(foodPoints)
+    },
+    samples: results
+  };
+}
+
+interface CalibrationPoint {
+  confidence: number;
+  correct: boolean;
+}
+
+/**
+ * 라벨 음식과 예측 음식을 1:1로 매칭 (정규화한 이름이 같거나 한쪽이 다른 쪽을 포함하면 일치)
+ */
+function matchFoods(
+  expectedFoods: ExpectedFood[],
+  predictedFoods: FoodItem[]
+): { matched: string[]; missed: string[]; matchedPredictions: Set<number> } {
+  const matched: string[] = [];
+  const missed: string[] = [];
+  const matchedPredictions = new Set<number>();
+
+  for (const expected of expectedFoods) {
+    const names = [expected.name, ...(expected.aliases || [])].map(normalizeFoodName).filter(Boolean);
+    const index = predictedFoods.findIndex((food, foodIndex) => {
+      if (matchedPredictions.has(foodIndex)) return false;
+
+      // 영어 분석 결과는 한국어 참조 이름으로도 비교
+      const candidates = [food.name, food.name_ko].filter((name): name is string => !!name).map(normalizeFoodName);
+      return candidates.some(candidate =>
+        names.some(name => candidate === name || candidate.includes(name) || name.includes(candidate))
+      );
+    });
+
+    if (index >= 0) {
+      matchedPredictions.add(index);
+      matched.push(expected.name);
+    } else {
+      missed.push(expected.name);
+    }
+  }
+
+  return { matched, missed, matchedPredictions };
+}
+
+function normalizeFoodName(name: string): string {
+  return name.normalize('NFC').toLowerCase().replace(/[\s\p{P}]/gu, '');
+}
+
+function isWithinTolerance(error: number, expected: number, tolerance: number): boolean {
+  return expected > 0 ? Math.abs(error) / expected <= tolerance : error === 0;
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+/**
+ * 신뢰도 구간별 정확도와 기대 보정 오차(ECE) 계산
+ */
+function buildCalibrationReport(points: CalibrationPoint[]): CalibrationReport {
+  const bins: CalibrationBin[] = [];
+  let expectedCalibrationError = 0;
+
+  for (let bin = 0; bin < CALIBRATION_BIN_COUNT; bin++) {
+    const lower = bin / CALIBRATION_BIN_COUNT;
+    const upper = (bin + 1) / CALIBRATION_BIN_COUNT;
+    const inBin = points.filter(point =>
+      point.confidence >= lower && (point.confidence < upper || (bin === CALIBRATION_BIN_COUNT - 1 && point.confidence <= upper))
+    );
+    if (inBin.length === 0) continue;
+
+    const meanConfidence = mean(inBin.map(point => point.confidence));
+    const accuracy = mean(inBin.map(point => (point.correct ? 1 : 0)));
+    bins.push({ range: [lower, upper], count: inBin.length, meanConfidence, accuracy });
+    expectedCalibrationError += (inBin.length / points.length) * Math.abs(accuracy - meanConfidence);
+  }
+
+  return { bins, expectedCalibrationError };
+}
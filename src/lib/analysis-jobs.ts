@@ -0,0 +1,510 @@
+import { createSupabaseAdmin } from './supabase';
+import { logSecurityEvent } from './security';
+import { runMealAnalysisPipeline, MealAnalysisPipelineOptions } from './meal-analysis-pipeline';
+import { buildValidationDetails } from './meal-recording';
+import { uploadImage, downloadImage, deleteImage } from './storage';
+import { getFoodAnalysisProvider } from './analysis-provider';
+import { getAnalysisCache } from './analysis-cache';
+import { detectImageFormat, stripImageMetadata } from './image-processor';
+import { PhotoCaptureTime } from './image-exif';
+import { IMAGE_FORMAT_MIME_TYPES } from './image-formats';
+import { AnalysisJob, AnalysisJobStatus } from '@/types/food-analysis';
+
+// 이 시간 동안 끝나지 않은 작업은 실패로 간주 (서버 재시작 등으로 중단된 작업)
+export const ANALYSIS_JOB_TIMEOUT_MS = 1000 * 60 * 3; // 3분
+
+// AI 서비스 장애 시 재시도 설정 (queue-for-retry 정책)
+export const ANALYSIS_JOB_MAX_ATTEMPTS = 5;
+const ANALYSIS_RETRY_BASE_DELAY_MS = 1000 * 60; // 1분, 재시도마다 2배
+
+const ACTIVE_JOB_STATUSES: AnalysisJobStatus[] = ['queued', 'processing'];
+
+// 한 번의 정리(sweep)에서 처리하는 최대 작업 수
+const SWEEP_BATCH_SIZE = 20;
+
+const TIMEOUT_ERROR_MESSAGE = '분석 시간이 초과되었습니다. 다시 시도해주세요.';
+
+export interface AnalysisJobSweepResult {
+  retried: number; // 재시도 예정 시각이 지나 다시 실행한 작업
+  timedOut: number; // 제한 시간을 넘겨 실패로 전환한 작업
+}
+
+/**
+ * 분석 작업 생성 (queued 상태)
+ */
+export async function createAnalysisJob(
+  userId: string,
+  options: AnalysisJob['options']
+): Promise<{ success: boolean; data?: AnalysisJob; error?: string }> {
+  try {
+    const supabase = createSupabaseAdmin();
+    const { data, error } = await supabase
+      .from('analysis_jobs')
+      .insert([{ user_id: userId, status: 'queued', options }])
+      .select('*')
+      .single();
+
+    if (error) {
+      throw new Error(`분석 작업 생성 실패: ${error.message}`);
+    }
+
+    return { success: true, data: data as AnalysisJob };
+  } catch (error) {
+    console.error('Create analysis job error:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+}
+
+/**
+ * 분석 작업 조회 (본인 작업만)
+ * - 제한 시간을 넘긴 진행 중 작업은 실패로 전환해서 반환 (재시도 대기 작업은 sweepAnalysisJobs가 실행)
+ */
+export async function getAnalysisJob(
+  userId: string,
+  jobId: string
+): Promise<{ success: boolean; data?: AnalysisJob | null; error?: string }> {
+  try {
+    const supabase = createSupabaseAdmin();
+    const { data, error } = await supabase
+      .from('analysis_jobs')
+      .select('*')
+      .eq('id', jobId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`분석 작업 조회 실패: ${error.message}`);
+    }
+
+    const job = data as AnalysisJob | null;
+    if (job && isAnalysisJobTimedOut(job)) {
+      const timedOut = await failAnalysisJob(job, TIMEOUT_ERROR_MESSAGE, ACTIVE_JOB_STATUSES);
+      return { success: true, data: timedOut ?? job };
+    }
+
+    return { success: true, data: job };
+  } catch (error) {
+    console.error('Get analysis job error:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+}
+
+/**
+ * 제한 시간을 넘긴 작업인지 확인
+ * 재시도 예정 시각이 있는 대기 작업은 sweepAnalysisJobs가 실행할 때까지 기다리므로 제외
+ */
+function isAnalysisJobTimedOut(job: AnalysisJob): boolean {
+  if (!ACTIVE_JOB_STATUSES.includes(job.status)) return false;
+  if (job.status === 'queued' && job.next_retry_at) return false;
+
+  return Date.now() - new Date(job.updated_at || job.created_at).getTime() > ANALYSIS_JOB_TIMEOUT_MS;
+}
+
+/**
+ * 작업을 실패로 종료하고 재시도용 원본 이미지 삭제
+ * fromStatuses를 지정하면 해당 상태일 때만 전환 (동시에 완료된 작업을 덮어쓰지 않도록)
+ */
+async function failAnalysisJob(
+  job: Pick<AnalysisJob, 'id' | 'retry_image_path'>,
+  error: string,
+  fromStatuses?: AnalysisJobStatus[],
+  changes: Partial<Omit<AnalysisJob, 'id' | 'user_id' | 'created_at'>> = {}
+): Promise<AnalysisJob | null> {
+  const supabase = createSupabaseAdmin();
+  let query = supabase
+    .from('analysis_jobs')
+    .update({
+      ...changes,
+      status: 'failed',
+      error,
+      retry_image_path: null,
+      completed_at: new Date().toISOString(),
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', job.id);
+  if (fromStatuses) {
+    query = query.in('status', fromStatuses);
+  }
+
+  const { data, error: updateError } = await query.select('*').maybeSingle();
+  if (updateError) {
+    console.error('Fail analysis job error:', updateError);
+    return null;
+  }
+
+  // 다른 요청이 먼저 완료한 작업은 이미지를 그 요청이 정리
+  if (data && job.retry_image_path) {
+    await deleteRetryImage(job.retry_image_path);
+  }
+  return data as AnalysisJob | null;
+}
+
+async function deleteRetryImage(path: string): Promise<void> {
+  const result = await deleteImage(path);
+  if (!result.success) {
+    // 남은 파일은 고아 이미지 정리(gc:images)에서 삭제
+    console.error('Retry image delete failed:', result.error);
+  }
+}
+
+async function updateAnalysisJob(
+  jobId: string,
+  changes: Partial<Omit<AnalysisJob, 'id' | 'user_id' | 'created_at'>>
+): Promise<AnalysisJob | null> {
+  const supabase = createSupabaseAdmin();
+  const { data, error } = await supabase
+    .from('analysis_jobs')
+    .update({ ...changes, updated_at: new Date().toISOString() })
+    .eq('id', jobId)
+    .select('*')
+    .maybeSingle();
+
+  if (error) {
+    console.error('Update analysis job error:', error);
+    return null;
+  }
+
+  return data as AnalysisJob | null;
+}
+
+/**
+ * 분석 작업 실행 (응답 이후 백그라운드에서 호출)
+ * 이미지 처리, AI 분석, 저장을 수행하고 결과를 analysis_jobs에 기록
+ * 에러는 작업 상태로만 남기고 throw하지 않음
+ */
+export async function runAnalysisJob(
+  jobId: string,
+  userId: string,
+  imageBuffer: Buffer,
+  options: MealAnalysisPipelineOptions
+): Promise<void> {
+  const startTime = Date.now();
+
+  await updateAnalysisJob(jobId, {
+    status: 'processing',
+    started_at: new Date().toISOString()
+  });
+
+  try {
+    const outcome = await runMealAnalysisPipeline(userId, imageBuffer, options);
+
+    if (outcome.status === 'deferred') {
+      // AI 서비스 장애 - 원본 이미지를 보관하고 재시도 대기
+      await deferAnalysisJob(jobId, userId, imageBuffer, outcome.error, outcome.captureTime);
+      logSecurityEvent('MEAL_ANALYSIS_DEFERRED', {
+        userId,
+        jobId,
+        imageHash: outcome.imageHash,
+        error: outcome.error,
+        clientIP: options.clientIP,
+        userAgent: options.userAgent
+      });
+      return;
+    }
+
+    if (outcome.status === 'quota_exceeded') {
+      // 한도 초과는 재시도하지 않고 실패로 기록
+      await updateAnalysisJob(jobId, {
+        status: 'failed',
+        image_hash: outcome.imageHash,
+        error: outcome.error,
+        completed_at: new Date().toISOString()
+      });
+      logSecurityEvent('AI_QUOTA_EXCEEDED', {
+        userId,
+        jobId,
+        dailyUsed: outcome.usage.daily.used,
+        monthlyUsed: outcome.usage.monthly.used,
+        clientIP: options.clientIP,
+        userAgent: options.userAgent
+      });
+      return;
+    }
+
+    if (outcome.status === 'rejected') {
+      // 분석은 성공했지만 식사 규칙 위반 - 결과와 함께 실패로 기록
+      await updateAnalysisJob(jobId, {
+        status: 'failed',
+        image_hash: outcome.imageHash,
+        result: outcome.result,
+        error: outcome.validation.message,
+        validation: buildValidationDetails(outcome.validation),
+        completed_at: new Date().toISOString()
+      });
+      return;
+    }
+
+    const mealId = outcome.status === 'succeeded' ? outcome.mealId : undefined;
+    // 늦은 사진으로 저장된 경우 클라이언트가 안내할 수 있도록 검증 결과 보관
+    const lateValidation = outcome.status === 'succeeded' && outcome.validation?.freshnessValidation?.isLate
+      ? buildValidationDetails(outcome.validation)
+      : undefined;
+    const confirmation = outcome.status === 'needs_confirmation' ? outcome.confirmation : undefined;
+
+    await updateAnalysisJob(jobId, {
+      status: 'succeeded',
+      image_hash: outcome.imageHash,
+      result: outcome.result,
+      ...(mealId && { meal_id: mealId }),
+      ...(confirmation && { confirmation }),
+      ...(lateValidation && { validation: lateValidation }),
+      completed_at: new Date().toISOString()
+    });
+
+    logSecurityEvent('MEAL_ANALYSIS_SUCCESS', {
+      userId,
+      jobId,
+      imageHash: outcome.imageHash,
+      mealId,
+      needsConfirmation: !!confirmation,
+      totalCalories: outcome.result.total_calories,
+      analysisConfidence: outcome.result.analysis_confidence,
+      processingTime: Date.now() - startTime,
+      cacheHit: outcome.cacheHit,
+      savedToHistory: options.saveToHistory,
+      savedImages: options.saveImages,
+      clientIP: options.clientIP,
+      userAgent: options.userAgent
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+    logSecurityEvent('MEAL_ANALYSIS_ERROR', {
+      userId,
+      jobId,
+      error: errorMessage,
+      processingTime: Date.now() - startTime,
+      clientIP: options.clientIP,
+      userAgent: options.userAgent
+    });
+
+    console.error('Analysis job error:', error);
+
+    await updateAnalysisJob(jobId, {
+      status: 'failed',
+      error: '음식 분석 중 오류가 발생했습니다. 잠시 후 다시 시도해주세요.',
+      completed_at: new Date().toISOString()
+    });
+  }
+}
+
+/**
+ * AI 분석 실패 작업을 재시도 대기(queued) 상태로 전환
+ * - 재시도에 쓸 원본 이미지를 메타데이터를 제거해서 storage에 보관 (이미 보관 중이면 재사용)
+ * - 신선도 검증에 필요한 촬영 시각은 이미지 대신 작업 행(photo_capture)에 보관
+ * - 최대 횟수를 넘기면 실패로 기록하고 보관 이미지 삭제
+ */
+async function deferAnalysisJob(
+  jobId: string,
+  userId: string,
+  imageBuffer: Buffer,
+  reason: string,
+  captureTime: PhotoCaptureTime | null
+): Promise<AnalysisJob | null> {
+  const supabase = createSupabaseAdmin();
+  const { data } = await supabase
+    .from('analysis_jobs')
+    .select('attempts, retry_image_path')
+    .eq('id', jobId)
+    .maybeSingle();
+
+  const attempts = (data?.attempts ?? 0) + 1;
+  let retryImagePath: string | undefined = data?.retry_image_path ?? undefined;
+
+  if (attempts >= ANALYSIS_JOB_MAX_ATTEMPTS) {
+    return failAnalysisJob(
+      { id: jobId, retry_image_path: retryImagePath },
+      'AI 분석 서비스에 문제가 있어 분석하지 못했습니다. 잠시 후 다시 시도해주세요.',
+      undefined,
+      { attempts }
+    );
+  }
+
+  if (!retryImagePath) {
+    // GPS/기기 정보가 남지 않도록 방향만 적용하고 메타데이터를 제거한 이미지를 보관
+    // sharp는 HEIC/AVIF를 모두 heif로 보고하므로 시그니처로 확장자와 MIME 타입 결정
+    const retryImage = await stripImageMetadata(imageBuffer);
+    const format = detectImageFormat(retryImage) ?? 'jpeg';
+    const path = `users/${userId}/analysis-retry/${jobId}.${format}`;
+    const uploadResult = await uploadImage(retryImage, path, IMAGE_FORMAT_MIME_TYPES[format]);
+    if (!uploadResult.success) {
+      console.error('Retry image upload failed:', uploadResult.error);
+      return failAnalysisJob(
+        { id: jobId, retry_image_path: null },
+        '음식 분석 중 오류가 발생했습니다. 잠시 후 다시 시도해주세요.',
+        undefined,
+        { attempts }
+      );
+    }
+    retryImagePath = path;
+  }
+
+  console.warn(`⏳ AI 분석 실패 - 재시도 대기 (${attempts}/${ANALYSIS_JOB_MAX_ATTEMPTS}):`, reason);
+
+  return updateAnalysisJob(jobId, {
+    status: 'queued',
+    attempts,
+    retry_image_path: retryImagePath,
+    photo_capture: captureTime && { ...captureTime, localTime: captureTime.localTime.toISOString() },
+    next_retry_at: new Date(Date.now() + ANALYSIS_RETRY_BASE_DELAY_MS * Math.pow(2, attempts - 1)).toISOString(),
+    error: 'AI 분석 서비스가 일시적으로 불안정해 잠시 후 자동으로 다시 분석합니다.'
+  });
+}
+
+/**
+ * 동기 분석 요청이 AI 장애로 실패했을 때 재시도 작업으로 등록 (queue-for-retry 정책)
+ */
+export async function queueAnalysisForRetry(
+  userId: string,
+  imageBuffer: Buffer,
+  options: AnalysisJob['options'],
+  reason: string,
+  captureTime: PhotoCaptureTime | null
+): Promise<{ success: boolean; data?: AnalysisJob; error?: string }> {
+  const jobResult = await createAnalysisJob(userId, options);
+  if (!jobResult.success || !jobResult.data) {
+    return jobResult;
+  }
+
+  const job = await deferAnalysisJob(jobResult.data.id, userId, imageBuffer, reason, captureTime);
+  if (!job) {
+    return { success: false, error: '재시도 작업을 등록할 수 없습니다.' };
+  }
+
+  return { success: true, data: job };
+}
+
+/**
+ * 서버에서 재시도할 때의 파이프라인 옵션 (요청 정보가 없으므로 작업에 저장된 옵션 사용)
+ */
+export function createRetryPipelineOptions(job: AnalysisJob): MealAnalysisPipelineOptions {
+  return {
+    provider: getFoodAnalysisProvider(),
+    cache: process.env.ANALYSIS_CACHE_ENABLED !== 'false' ? getAnalysisCache() : null,
+    analysisOptions: job.options.analysis,
+    confidenceThreshold: job.options.confidence_threshold,
+    saveToHistory: job.options.save_to_history,
+    saveImages: job.options.save_images,
+    // 보관 이미지에는 EXIF가 없으므로 작업에 저장한 촬영 시각 사용 (예전 작업은 이미지의 EXIF 사용)
+    photoCapture: job.photo_capture
+      ? { ...job.photo_capture, localTime: new Date(job.photo_capture.localTime) }
+      : undefined,
+    // 시간대/신선도는 재시도 시각이 아닌 원래 업로드 시각 기준
+    uploadedAt: new Date(job.created_at),
+    clientIP: 'analysis-job-sweeper',
+    userAgent: 'analysis-job-sweeper'
+  };
+}
+
+/**
+ * 재시도 예정 시각이 지난 작업 다시 실행
+ * - 여러 서버에서 동시에 호출돼도 한 번만 실행되도록 queued → processing 전환으로 선점
+ * - 완료(성공/실패)되면 보관한 원본 이미지 삭제
+ */
+export async function retryAnalysisJob(
+  jobId: string,
+  createOptions: (job: AnalysisJob) => MealAnalysisPipelineOptions = createRetryPipelineOptions
+): Promise<void> {
+  const supabase = createSupabaseAdmin();
+  const { data, error } = await supabase
+    .from('analysis_jobs')
+    .update({ status: 'processing', updated_at: new Date().toISOString() })
+    .eq('id', jobId)
+    .eq('status', 'queued')
+    .lte('next_retry_at', new Date().toISOString())
+    .select('*')
+    .maybeSingle();
+
+  if (error || !data) {
+    return;
+  }
+
+  const job = data as AnalysisJob;
+  if (!job.retry_image_path) {
+    await failAnalysisJob(job, '재시도할 이미지를 찾을 수 없습니다. 다시 시도해주세요.');
+    return;
+  }
+
+  const download = await downloadImage(job.retry_image_path);
+  if (!download.success || !download.data) {
+    console.error('Retry image download failed:', download.error);
+    await failAnalysisJob(job, '재시도할 이미지를 찾을 수 없습니다. 다시 시도해주세요.');
+    return;
+  }
+
+  await runAnalysisJob(jobId, job.user_id, download.data, createOptions(job));
+
+  const { data: finished } = await supabase
+    .from('analysis_jobs')
+    .select('status')
+    .eq('id', jobId)
+    .maybeSingle();
+
+  if (finished && finished.status !== 'queued') {
+    await deleteRetryImage(job.retry_image_path);
+    await updateAnalysisJob(jobId, { retry_image_path: null });
+  }
+}
+
+/**
+ * 분석 작업 정리 (클라이언트 조회와 관계없이 서버에서 주기적으로 실행)
+ * - 재시도 예정 시각이 지난 작업을 다시 실행 (사용자가 페이지를 떠나도 재시도가 진행됨)
+ * - 제한 시간을 넘긴 진행 중 작업(서버 재시작 등으로 중단)을 실패로 전환하고 보관 이미지 삭제
+ */
+export async function sweepAnalysisJobs(): Promise<{ success: boolean; data?: AnalysisJobSweepResult; error?: string }> {
+  try {
+    const supabase = createSupabaseAdmin();
+    const now = new Date();
+    const result: AnalysisJobSweepResult = { retried: 0, timedOut: 0 };
+
+    const { data: dueJobs, error: dueError } = await supabase
+      .from('analysis_jobs')
+      .select('id')
+      .eq('status', 'queued')
+      .lte('next_retry_at', now.toISOString())
+      .order('next_retry_at', { ascending: true })
+      .limit(SWEEP_BATCH_SIZE);
+
+    if (dueError) {
+      throw new Error(`재시도 대기 작업 조회 실패: ${dueError.message}`);
+    }
+
+    // AI 서비스 부하를 늘리지 않도록 하나씩 실행
+    for (const job of dueJobs || []) {
+      await retryAnalysisJob(job.id);
+      result.retried++;
+    }
+
+    const { data: staleJobs, error: staleError } = await supabase
+      .from('analysis_jobs')
+      .select('*')
+      .in('status', ACTIVE_JOB_STATUSES)
+      .lt('updated_at', new Date(now.getTime() - ANALYSIS_JOB_TIMEOUT_MS).toISOString())
+      .limit(SWEEP_BATCH_SIZE);
+
+    if (staleError) {
+      throw new Error(`중단된 작업 조회 실패: ${staleError.message}`);
+    }
+
+    for (const job of (staleJobs || []) as AnalysisJob[]) {
+      if (!isAnalysisJobTimedOut(job)) continue;
+      if (await failAnalysisJob(job, TIMEOUT_ERROR_MESSAGE, ACTIVE_JOB_STATUSES)) {
+        result.timedOut++;
+      }
+    }
+
+    return { success: true, data: result };
+  } catch (error) {
+    console.error('Sweep analysis jobs error:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+}
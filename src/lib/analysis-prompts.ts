@@ -0,0 +1,94 @@
+import {
+  AnalysisDetailLevel,
+  AnalysisLanguage,
+  FoodAnalysisOptions,
+  ResolvedAnalysisOptions
+} from '@/types/food-analysis';
+import { DEFAULT_ANALYSIS_PROMPT_ID, getAnalysisPrompt } from './prompt-registry';
+
+export const ANALYSIS_DETAIL_LEVELS: AnalysisDetailLevel[] = ['basic', 'detailed', 'comprehensive'];
+export const ANALYSIS_LANGUAGES: AnalysisLanguage[] = ['ko', 'en'];
+
+export const DEFAULT_ANALYSIS_OPTIONS: ResolvedAnalysisOptions = {
+  detail_level: 'detailed',
+  include_nutrition: true,
+  preferred_language: 'ko',
+  prompt_version: DEFAULT_ANALYSIS_PROMPT_ID
+};
+
+// 상세 수준별 최대 응답 토큰 (basic은 짧은 응답으로 비용 절감)
+export const ANALYSIS_MAX_OUTPUT_TOKENS: Record<AnalysisDetailLevel, number> = {
+  basic: 512,
+  detailed: 1024,
+  comprehensive: 2048
+};
+
+/**
+ * 옵션 기본값 채우기
+ * include_nutrition을 지정하지 않으면 basic은 영양 성분 없이, 나머지는 포함
+ */
+export function resolveAnalysisOptions(options: FoodAnalysisOptions = {}): ResolvedAnalysisOptions {
+  const detailLevel = options.detail_level ?? DEFAULT_ANALYSIS_OPTIONS.detail_level;
+  return {
+    detail_level: detailLevel,
+    include_nutrition: options.include_nutrition ?? detailLevel !== 'basic',
+    preferred_language: options.preferred_language ?? DEFAULT_ANALYSIS_OPTIONS.preferred_language,
+    prompt_version: options.prompt_version ?? DEFAULT_ANALYSIS_OPTIONS.prompt_version
+  };
+}
+
+/**
+ * 요청 값(multipart form, JSON)에서 분석 옵션 파싱
+ * 비어 있는 값은 기본값 사용, 알 수 없는 값은 에러
+ * 프롬프트 버전은 서버에서 배정하므로 요청으로 받지 않음
+ */
+export function parseAnalysisOptions(input: {
+  detail_level?: unknown;
+  include_nutrition?: unknown;
+  preferred_language?: unknown;
+}): { options: FoodAnalysisOptions; errors: string[] } {
+  const options: FoodAnalysisOptions = {};
+  const errors: string[] = [];
+
+  if (input.detail_level !== undefined && input.detail_level !== null && input.detail_level !== '') {
+    if (ANALYSIS_DETAIL_LEVELS.includes(input.detail_level as AnalysisDetailLevel)) {
+      options.detail_level = input.detail_level as AnalysisDetailLevel;
+    } else {
+      errors.push(`detail_level은 ${ANALYSIS_DETAIL_LEVELS.join(', ')} 중 하나여야 합니다.`);
+    }
+  }
+
+  if (input.include_nutrition !== undefined && input.include_nutrition !== null && input.include_nutrition !== '') {
+    if (input.include_nutrition === true || input.include_nutrition === 'true') {
+      options.include_nutrition = true;
+    } else if (input.include_nutrition === false || input.include_nutrition === 'false') {
+      options.include_nutrition = false;
+    } else {
+      errors.push('include_nutrition은 true 또는 false여야 합니다.');
+    }
+  }
+
+  if (input.preferred_language !== undefined && input.preferred_language !== null && input.preferred_language !== '') {
+    if (ANALYSIS_LANGUAGES.includes(input.preferred_language as AnalysisLanguage)) {
+      options.preferred_language = input.preferred_language as AnalysisLanguage;
+    } else {
+      errors.push(`preferred_language는 ${ANALYSIS_LANGUAGES.join(', ')} 중 하나여야 합니다.`);
+    }
+  }
+
+  return { options, errors };
+}
+
+/**
+ * 캐시 구분용 옵션 키 (옵션이 다르면 같은 이미지라도 결과가 다름)
+ */
+export function getAnalysisOptionsKey(options: ResolvedAnalysisOptions): string {
+  return `${options.prompt_version}:${options.detail_level}:${options.preferred_language}:${options.include_nutrition ? 'n' : '-'}`;
+}
+
+/**
+ * 옵션의 프롬프트 버전과 상세 수준/언어에 맞는 분석 프롬프트 생성
+ */
+export function buildFoodAnalysisPrompt(options: ResolvedAnalysisOptions): string {
+  return getAnalysisPrompt(options.prompt_version).build(options);
+}
@@ -0,0 +1,412 @@
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import fs from 'fs';
+import { ImageProcessingResult } from './image-processor';
+import { responseProcessor } from './response-processor';
+import {
+  validateAIEnvironmentVariables,
+  validateEnvironmentVariables
+} from './security';
+import {
+  ANALYSIS_MAX_OUTPUT_TOKENS,
+  buildFoodAnalysisPrompt,
+  resolveAnalysisOptions
+} from './analysis-prompts';
+import {
+  AnalysisFallbackPolicy,
+  FoodAnalysisOptions,
+  FoodAnalysisResult,
+  ResolvedAnalysisOptions
+} from '@/types/food-analysis';
+import defaultFixtures from './fixtures/food-analysis-fixtures.json';
+
+// 지원하는 분석 provider 이름
+export type FoodAnalysisProviderName = 'gemini' | 'local';
+
+// provider가 반환하는 정규화 전 원시 결과
+export interface RawAnalysisOutput {
+  rawResponse: unknown;
+  modelVersion: string;
+  isMockData: boolean;
+  retryCount: number;
+}
+
+// 지원하는 AI 실패 처리 정책
+export const ANALYSIS_FALLBACK_POLICIES: AnalysisFallbackPolicy[] = ['fail', 'mock-in-dev', 'queue-for-retry'];
+
+// AI API 호출 직전마다 호출되는 콜백 (재시도 포함, 사용량 집계용)
+export type AnalysisApiCallListener = () => void;
+
+// 음식 분석 provider 인터페이스 (이미지 → 원시 결과)
+export interface FoodAnalysisProvider {
+  readonly name: FoodAnalysisProviderName;
+  validateEnvironment(): { isValid: boolean; errors: string[] };
+  analyzeImage(
+    processedImage: ImageProcessingResult,
+    options?: ResolvedAnalysisOptions,
+    onApiCall?: AnalysisApiCallListener
+  ): Promise<RawAnalysisOutput>;
+}
+
+// provider 생성 옵션
+export interface FoodAnalysisProviderOptions {
+  apiTimeout?: number; // ms
+  maxRetries?: number;
+}
+
+// 로컬 fixture 파일 형식
+export interface FoodAnalysisFixtures {
+  byHash: Record<string, unknown>;
+  defaults: unknown[];
+}
+
+/**
+ * Google Gemini 기반 분석 provider
+ */
+export class GeminiFoodAnalysisProvider implements FoodAnalysisProvider {
+  public readonly name = 'gemini' as const;
+  private readonly modelVersion = 'gemini-1.5-pro';
+  private readonly apiTimeout: number;
+  private readonly maxRetries: number;
+
+  constructor(options: FoodAnalysisProviderOptions = {}) {
+    this.apiTimeout = options.apiTimeout ?? 30000;
+    this.maxRetries = options.maxRetries ?? 3;
+  }
+
+  public validateEnvironment(): { isValid: boolean; errors: string[] } {
+    return validateAIEnvironmentVariables();
+  }
+
+  public analyzeImage(
+    processedImage: ImageProcessingResult,
+    options: ResolvedAnalysisOptions = resolveAnalysisOptions(),
+    onApiCall?: AnalysisApiCallListener
+  ): Promise<RawAnalysisOutput> {
+    return this.requestAnalysis(processedImage, options, onApiCall, 0);
+  }
+
+  /**
+   * Gemini API 호출 (개선된 재시도 로직 포함)
+   */
+  private async requestAnalysis(
+    processedImage: ImageProcessingResult,
+    options: ResolvedAnalysisOptions,
+    onApiCall: AnalysisApiCallListener | undefined,
+    retryCount: number
+  ): Promise<RawAnalysisOutput> {
+    try {
+      const genAI = this.initializeClient();
+
+      // 모델 설정 최적화
+      const model = genAI.getGenerativeModel({
+        model: this.modelVersion,
+        generationConfig: {
+          temperature: 0.1, // 일관성 향상을 위해 낮은 temperature
+          topK: 1,
+          topP: 0.8,
+          maxOutputTokens: ANALYSIS_MAX_OUTPUT_TOKENS[options.detail_level], // 상세 수준별 토큰 수 제한
+        },
+      });
+
+      // Gemini API 요청 구성
+      const imagePart = {
+        inlineData: {
+          data: processedImage.analysis.base64!,
+          mimeType: `image/${processedImage.analysis.format}`
+        }
+      };
+
+      const prompt = [
+        { text: buildFoodAnalysisPrompt(options) },
+        imagePart
+      ];
+
+      // API 호출 (점진적 타임아웃 증가)
+      const timeoutMs = Math.min(this.apiTimeout + (retryCount * 5000), 45000);
+      onApiCall?.();
+
+      const result = await Promise.race([
+        model.generateContent(prompt),
+        new Promise<never>((_, reject) =>
+          setTimeout(() => reject(new Error('API call timeout')), timeoutMs)
+        )
+      ]);
+
+      if (!result.response) {
+        throw new Error('Gemini API 응답이 없습니다.');
+      }
+
+      const text = result.response.text();
+      if (!text) {
+        throw new Error('Gemini API 텍스트 응답이 없습니다.');
+      }
+
+      return {
+        rawResponse: parseJsonResponse(text),
+        modelVersion: this.modelVersion,
+        isMockData: false,
+        retryCount
+      };
+
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+      if (retryCount < this.maxRetries) {
+        const isRetryable = (
+          errorMessage.includes('timeout') ||
+          errorMessage.includes('overloaded') ||
+          errorMessage.includes('503') ||
+          errorMessage.includes('502') ||
+          errorMessage.includes('500')
+        );
+
+        if (isRetryable) {
+          console.log(`🔄 API 호출 재시도 ${retryCount + 1}/${this.maxRetries}:`, errorMessage);
+
+          // 지수 백오프 대기
+          const baseDelay = errorMessage.includes('overloaded') ? 5000 : 2000;
+          const delay = baseDelay * Math.pow(1.5, retryCount);
+          await new Promise(resolve => setTimeout(resolve, delay));
+
+          return this.requestAnalysis(processedImage, options, onApiCall, retryCount + 1);
+        }
+      }
+
+      // 재시도 후에도 실패하면 에러 반환 (대체 결과 사용 여부는 AI_FALLBACK_POLICY로 결정)
+      console.error('Gemini API 호출 실패 (재시도 완료):', error);
+      throw new Error(`AI 분석 실패: ${errorMessage}`);
+    }
+  }
+
+  private initializeClient(): GoogleGenerativeAI {
+    const apiKey = process.env.GOOGLE_API_KEY;
+    if (!apiKey) {
+      throw new Error('Google API Key가 설정되지 않았습니다.');
+    }
+    return new GoogleGenerativeAI(apiKey);
+  }
+}
+
+/**
+ * 네트워크 없이 동작하는 결정적(deterministic) 로컬 provider
+ * - 이미지 해시가 fixture의 byHash에 있으면 해당 응답을 그대로 사용
+ * - 없으면 해시 값으로 defaults 중 하나를 고정적으로 선택
+ */
+export class LocalFoodAnalysisProvider implements FoodAnalysisProvider {
+  public readonly name = 'local' as const;
+  private readonly modelVersion = 'local-fixture-v1';
+  private readonly fixtures: FoodAnalysisFixtures;
+
+  constructor(fixtures?: FoodAnalysisFixtures) {
+    this.fixtures = fixtures ?? loadFixtures();
+  }
+
+  public validateEnvironment(): { isValid: boolean; errors: string[] } {
+    // Google API Key 없이 동작 (인증용 Supabase 설정만 필요)
+    return validateEnvironmentVariables();
+  }
+
+  public async analyzeImage(processedImage: ImageProcessingResult): Promise<RawAnalysisOutput> {
+    return {
+      rawResponse: this.resolveFixture(processedImage.originalHash),
+      modelVersion: this.modelVersion,
+      isMockData: true,
+      retryCount: 0
+    };
+  }
+
+  /**
+   * 이미지 해시에 기록된 응답이 있는지 확인 (없으면 defaults 중 하나로 대체됨)
+   */
+  public hasRecordedResponse(imageHash: string): boolean {
+    return imageHash in this.fixtures.byHash;
+  }
+
+  private resolveFixture(imageHash: string): unknown {
+    const exact = this.fixtures.byHash[imageHash];
+    if (exact) {
+      return structuredClone(exact);
+    }
+
+    if (this.fixtures.defaults.length === 0) {
+      throw new Error('로컬 분석 fixture가 비어 있습니다.');
+    }
+
+    const index = parseInt(imageHash.slice(0, 8), 16) % this.fixtures.defaults.length;
+    return structuredClone(this.fixtures.defaults[Number.isNaN(index) ? 0 : index]);
+  }
+}
+
+/**
+ * 다른 provider의 원시 응답을 이미지 해시별로 기록하는 provider
+ * 기록한 fixture를 FOOD_ANALYSIS_FIXTURES_PATH로 지정하면 local provider로 오프라인 재현 가능
+ */
+export class RecordingFoodAnalysisProvider implements FoodAnalysisProvider {
+  private readonly recorded: Record<string, unknown> = {};
+
+  constructor(private readonly provider: FoodAnalysisProvider) {}
+
+  public get name(): FoodAnalysisProviderName {
+    return this.provider.name;
+  }
+
+  public validateEnvironment(): { isValid: boolean; errors: string[] } {
+    return this.provider.validateEnvironment();
+  }
+
+  public async analyzeImage(
+    processedImage: ImageProcessingResult,
+    options?: ResolvedAnalysisOptions,
+    onApiCall?: AnalysisApiCallListener
+  ): Promise<RawAnalysisOutput> {
+    const output = await this.provider.analyzeImage(processedImage, options, onApiCall);
+    this.recorded[processedImage.originalHash] = structuredClone(output.rawResponse);
+    return output;
+  }
+
+  /**
+   * 기록한 응답을 로컬 fixture 형식으로 반환
+   */
+  public toFixtures(): FoodAnalysisFixtures {
+    return { byHash: { ...this.recorded }, defaults: [] };
+  }
+}
+
+/**
+ * fixture 로드 (FOOD_ANALYSIS_FIXTURES_PATH가 있으면 기본 fixture에 병합)
+ */
+function loadFixtures(): FoodAnalysisFixtures {
+  const base = defaultFixtures as FoodAnalysisFixtures;
+  const customPath = process.env.FOOD_ANALYSIS_FIXTURES_PATH;
+  if (!customPath) {
+    return base;
+  }
+
+  try {
+    const custom = JSON.parse(fs.readFileSync(customPath, 'utf-8')) as Partial<FoodAnalysisFixtures>;
+    return {
+      byHash: { ...base.byHash, ...(custom.byHash || {}) },
+      defaults: custom.defaults && custom.defaults.length > 0 ? custom.defaults : base.defaults
+    };
+  } catch (error) {
+    throw new Error(`분석 fixture 파일을 읽을 수 없습니다 (${customPath}): ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * 모델 텍스트 응답에서 JSON 추출
+ */
+function parseJsonResponse(text: string): unknown {
+  try {
+    const cleanedText = text
+      .replace(/```json\n?|\n?```/g, '')
+      .replace(/^[^{]*/, '') // JSON 시작 전 텍스트 제거
+      .replace(/[^}]*$/, '') // JSON 끝 후 텍스트 제거
+      .trim();
+
+    return JSON.parse(cleanedText);
+  } catch (parseError) {
+    console.error('JSON 파싱 실패:', text);
+    console.error('파싱 에러:', parseError);
+    throw new Error('AI 응답을 파싱할 수 없습니다.');
+  }
+}
+
+/**
+ * 설정(FOOD_ANALYSIS_PROVIDER)에 따른 provider 선택
+ */
+export function getFoodAnalysisProvider(options: FoodAnalysisProviderOptions = {}): FoodAnalysisProvider {
+  const providerName = (process.env.FOOD_ANALYSIS_PROVIDER || 'gemini') as FoodAnalysisProviderName;
+
+  switch (providerName) {
+    case 'local':
+      return new LocalFoodAnalysisProvider();
+    case 'gemini':
+      return new GeminiFoodAnalysisProvider(options);
+    default:
+      throw new Error(`알 수 없는 분석 provider입니다: ${providerName}`);
+  }
+}
+
+/**
+ * 설정(AI_FALLBACK_POLICY)에 따른 AI 실패 처리 정책
+ * 기본값 mock-in-dev는 운영 환경에서 fail과 같음
+ */
+export function getAnalysisFallbackPolicy(): AnalysisFallbackPolicy {
+  const policy = (process.env.AI_FALLBACK_POLICY || 'mock-in-dev') as AnalysisFallbackPolicy;
+
+  if (!ANALYSIS_FALLBACK_POLICIES.includes(policy)) {
+    throw new Error(`알 수 없는 AI 실패 처리 정책입니다: ${policy}`);
+  }
+
+  return policy;
+}
+
+/**
+ * provider 호출 (실패 시 mock-in-dev 정책이면 개발 환경에서만 로컬 fixture로 대체)
+ * 대체된 결과는 isMockData로 표시되어 캐시/통계에서 제외됨
+ */
+async function analyzeWithFallback(
+  processedImage: ImageProcessingResult,
+  provider: FoodAnalysisProvider,
+  options: ResolvedAnalysisOptions,
+  onApiCall?: AnalysisApiCallListener
+): Promise<RawAnalysisOutput> {
+  try {
+    return await provider.analyzeImage(processedImage, options, onApiCall);
+  } catch (error) {
+    const canUseMock = provider.name !== 'local' &&
+      process.env.NODE_ENV === 'development' &&
+      getAnalysisFallbackPolicy() === 'mock-in-dev';
+
+    if (!canUseMock) {
+      throw error;
+    }
+
+    console.warn('⚠️  AI 분석 실패 - 로컬 fixture 데이터로 대체 (개발 환경 전용):', error instanceof Error ? error.message : error);
+    return new LocalFoodAnalysisProvider().analyzeImage(processedImage);
+  }
+}
+
+/**
+ * 이미지 분석 실행 후 ResponseProcessor로 정규화
+ * 모든 provider의 결과는 이 단계를 거쳐야 함
+ * 로컬 fixture는 옵션과 무관하게 같은 응답이지만 정규화 단계에서 옵션이 적용됨
+ * onApiCall은 실제 AI API 호출마다 호출됨 (로컬 fixture와 mock 대체는 제외)
+ */
+export async function analyzeFoodImage(
+  processedImage: ImageProcessingResult,
+  provider: FoodAnalysisProvider = getFoodAnalysisProvider(),
+  options: FoodAnalysisOptions = {},
+  onApiCall?: AnalysisApiCallListener
+): Promise<FoodAnalysisResult> {
+  const startTime = Date.now();
+  const resolvedOptions = resolveAnalysisOptions(options);
+  const output = await analyzeWithFallback(processedImage, provider, resolvedOptions, onApiCall);
+
+  const validationResult = responseProcessor.validateAndProcessResponse(
+    output.rawResponse,
+    processedImage.originalHash,
+    startTime,
+    output.retryCount,
+    output.isMockData,
+    output.modelVersion,
+    resolvedOptions
+  );
+
+  if (!validationResult.isValid) {
+    console.error('응답 검증 실패:', validationResult.errors);
+    throw new Error(`응답 검증 실패: ${validationResult.errors.join(', ')}`);
+  }
+
+  // 경고 로그 출력
+  if (validationResult.warnings.length > 0) {
+    console.warn('⚠️  응답 처리 경고:', validationResult.warnings);
+  }
+
+  const result = validationResult.corrected_data as FoodAnalysisResult;
+  if (!output.isMockData) {
+    result.metadata = { ...result.metadata, prompt_version: resolvedOptions.prompt_version };
+  }
+  return result;
+}
@@ -0,0 +1,56 @@
+-- AI usage table schema for couple diet app
+-- Counts AI provider API calls (including retries) per user, day and provider
+-- so that daily/monthly analysis quotas can be enforced server-side
+
+-- Create ai_usage table
+CREATE TABLE IF NOT EXISTS public.ai_usage (
+    user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    usage_date DATE NOT NULL, -- UTC 기준 날짜
+    provider TEXT NOT NULL,
+    calls INTEGER NOT NULL DEFAULT 0 CHECK (calls >= 0),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+    PRIMARY KEY (user_id, usage_date, provider)
+);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_ai_usage_usage_date ON public.ai_usage(usage_date);
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE public.ai_usage ENABLE ROW LEVEL SECURITY;
+
+-- Users can only see their own usage
+-- Usage is recorded by the service role only
+CREATE POLICY "Users can view own ai usage"
+    ON public.ai_usage
+    FOR SELECT
+    USING (user_id = auth.uid());
+
+-- Grant necessary permissions
+GRANT SELECT ON public.ai_usage TO authenticated;
+
+-- Create trigger to update updated_at timestamp
+CREATE TRIGGER update_ai_usage_updated_at
+    BEFORE UPDATE ON public.ai_usage
+    FOR EACH ROW
+    EXECUTE FUNCTION public.handle_updated_at();
+
+-- Create function to increment usage atomically (동시 요청에서도 누락 없이 증가)
+CREATE OR REPLACE FUNCTION public.increment_ai_usage(p_user_id UUID, p_provider TEXT, p_calls INTEGER)
+RETURNS INTEGER AS $$
+DECLARE
+    total_calls INTEGER;
+BEGIN
+    INSERT INTO public.ai_usage (user_id, usage_date, provider, calls)
+    VALUES (p_user_id, timezone('utc'::text, now())::date, p_provider, p_calls)
+    ON CONFLICT (user_id, usage_date, provider)
+    DO UPDATE SET calls = public.ai_usage.calls + EXCLUDED.calls
+    RETURNING calls INTO total_calls;
+
+    RETURN total_calls;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Only the service role records usage
+REVOKE EXECUTE ON FUNCTION public.increment_ai_usage(UUID, TEXT, INTEGER) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.increment_ai_usage(UUID, TEXT, INTEGER) TO service_role;
@@ -0,0 +1,22 @@
+-- Analysis cache table schema for couple diet app
+-- This table stores AI food analysis results keyed by original image hash
+-- so that re-uploading the same photo does not trigger another AI call
+
+-- Create analysis_cache table
+CREATE TABLE IF NOT EXISTS public.analysis_cache (
+    image_hash TEXT NOT NULL,
+    variant TEXT NOT NULL,
+    result JSONB NOT NULL,
+    cached_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    hit_count INTEGER NOT NULL DEFAULT 0,
+    PRIMARY KEY (image_hash, variant)
+);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_analysis_cache_expires_at ON public.analysis_cache(expires_at);
+
+-- Enable Row Level Security (RLS)
+-- No policies are created: only the service role (server-side API routes) may access this table
+ALTER TABLE public.analysis_cache ENABLE ROW LEVEL SECURITY;
+
@@ -0,0 +1,53 @@
+-- Analysis jobs table schema for couple diet app
+-- This table tracks asynchronous food analysis requests so that clients can
+-- leave the page and come back for the result (status polling + realtime)
+
+-- Create analysis_jobs table
+CREATE TABLE IF NOT EXISTS public.analysis_jobs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'processing', 'succeeded', 'failed')),
+    image_hash TEXT,
+    options JSONB NOT NULL DEFAULT '{}'::jsonb,
+    result JSONB,
+    meal_id UUID REFERENCES public.meals(id) ON DELETE SET NULL,
+    confirmation JSONB,
+    error TEXT,
+    validation JSONB,
+    attempts INTEGER NOT NULL DEFAULT 0, -- AI 장애로 재시도한 횟수 (queue-for-retry 정책)
+    next_retry_at TIMESTAMP WITH TIME ZONE,
+    retry_image_path TEXT, -- 재시도용 원본 이미지 storage 경로 (EXIF/GPS 등 메타데이터 제거 후 보관)
+    photo_capture JSONB, -- 재시도 시 신선도 검증에 쓸 EXIF 촬영 시각 (보관 이미지에는 남기지 않음)
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+    started_at TIMESTAMP WITH TIME ZONE,
+    completed_at TIMESTAMP WITH TIME ZONE,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_analysis_jobs_user_id ON public.analysis_jobs(user_id);
+CREATE INDEX IF NOT EXISTS idx_analysis_jobs_status ON public.analysis_jobs(status);
+CREATE INDEX IF NOT EXISTS idx_analysis_jobs_created_at ON public.analysis_jobs(created_at);
+CREATE INDEX IF NOT EXISTS idx_analysis_jobs_next_retry_at ON public.analysis_jobs(next_retry_at) WHERE status = 'queued';
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE public.analysis_jobs ENABLE ROW LEVEL SECURITY;
+
+-- Users can only see their own jobs (required for realtime subscriptions)
+-- Jobs are created and updated by the service role only
+CREATE POLICY "Users can view own analysis jobs"
+    ON public.analysis_jobs
+    FOR SELECT
+    USING (user_id = auth.uid());
+
+-- Grant necessary permissions
+GRANT SELECT ON public.analysis_jobs TO authenticated;
+
+-- Create trigger to update updated_at timestamp
+CREATE TRIGGER update_analysis_jobs_updated_at
+    BEFORE UPDATE ON public.analysis_jobs
+    FOR EACH ROW
+    EXECUTE FUNCTION public.handle_updated_at();
+
+-- Publish row changes so clients receive a realtime update when a job finishes
+ALTER PUBLICATION supabase_realtime ADD TABLE public.analysis_jobs;
@@ -0,0 +1,58 @@
+-- Meal corrections table schema for couple diet app
+-- This table keeps the original AI analysis and the user's corrections separately
+-- so that model accuracy can be measured over time
+
+-- Create meal_corrections table
+CREATE TABLE IF NOT EXISTS public.meal_corrections (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    meal_id UUID NOT NULL REFERENCES public.meals(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    original_result JSONB NOT NULL,
+    corrections JSONB NOT NULL,
+    corrected_result JSONB NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_meal_corrections_meal_id ON public.meal_corrections(meal_id);
+CREATE INDEX IF NOT EXISTS idx_meal_corrections_user_id ON public.meal_corrections(user_id);
+CREATE INDEX IF NOT EXISTS idx_meal_corrections_created_at ON public.meal_corrections(created_at);
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE public.meal_corrections ENABLE ROW LEVEL SECURITY;
+
+-- Users can only see their own corrections
+CREATE POLICY "Users can view own meal corrections"
+    ON public.meal_corrections
+    FOR SELECT
+    USING (user_id = auth.uid());
+
+-- Users can only insert their own corrections
+CREATE POLICY "Users can insert own meal corrections"
+    ON public.meal_corrections
+    FOR INSERT
+    WITH CHECK (user_id = auth.uid());
+
+-- Grant necessary permissions
+GRANT SELECT, INSERT ON public.meal_corrections TO authenticated;
+
+-- Create view for model accuracy tracking (AI total vs user-corrected total)
+CREATE OR REPLACE VIEW public.meal_correction_accuracy AS
+SELECT
+    id,
+    meal_id,
+    user_id,
+    original_result->'metadata'->>'model_version' as model_version,
+    (original_result->>'total_calories')::INTEGER as original_calories,
+    (corrected_result->>'total_calories')::INTEGER as corrected_calories,
+    ABS((corrected_result->>'total_calories')::INTEGER - (original_result->>'total_calories')::INTEGER) as calorie_error,
+    jsonb_array_length(original_result->'foods') as original_food_count,
+    jsonb_array_length(corrected_result->'foods') as corrected_food_count,
+    created_at
+FROM public.meal_corrections;
+
+-- Enable RLS on the view
+ALTER VIEW public.meal_correction_accuracy SET (security_invoker = true);
+
+-- Grant access to the view
+GRANT SELECT ON public.meal_correction_accuracy TO authenticated;
@@ -12,7 +12,21 @@ CREATE TABLE IF NOT EXISTS public.meals (
     calories INTEGER,
     meal_type meal_type NOT NULL DEFAULT 'lunch',
     photo_url TEXT,
+    image_path TEXT, -- 비공개 meal-images 버킷 내 원본 경로 (서명된 URL로만 제공)
+    thumbnail_path TEXT,
+    image_placeholder TEXT, -- 썸네일 로딩 전 흐리게 보여줄 16px 미리보기 (data URL, 1KB 미만)
+    image_dominant_color TEXT, -- 사진 대표 색상 (#rrggbb)
+    image_size INTEGER, -- 저장된 이미지 변형 전체 크기 (bytes, 사용자별 저장 공간 한도 계산)
+    image_downgraded_at TIMESTAMP WITH TIME ZONE, -- 저장 공간 한도로 분석용 이미지를 지운 시각 (원본과 썸네일은 유지)
     description TEXT,
+    nutritional_info JSONB, -- protein_g, carbs_g, fat_g, sugar_g, fiber_g, sodium_mg
+    input_mode TEXT NOT NULL DEFAULT 'photo' CHECK (input_mode IN ('photo', 'text')), -- text: 사진 없는 미인증 기록
+    is_mock_data BOOLEAN NOT NULL DEFAULT false, -- 실제 AI 분석이 아닌 fixture 결과 (통계에서 제외)
+    perceptual_hash TEXT, -- dHash 16자리 hex (재인코딩/크롭된 같은 사진 감지)
+    possibly_reused BOOLEAN NOT NULL DEFAULT false, -- 이전 식사 사진을 다시 사용한 것으로 의심됨
+    reused_from_meal_id UUID REFERENCES public.meals(id) ON DELETE SET NULL,
+    photo_freshness TEXT CHECK (photo_freshness IN ('fresh', 'late', 'missing')), -- EXIF 촬영 시각 검증 결과 (late: 늦은 인증)
+    photo_taken_at TIMESTAMP WITH TIME ZONE, -- EXIF 촬영 시각 (users.keep_photo_taken_at 동의 시에만 저장)
     meal_date DATE NOT NULL DEFAULT CURRENT_DATE,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
@@ -23,6 +37,8 @@ CREATE INDEX IF NOT EXISTS idx_meals_user_id ON public.meals(user_id);
 CREATE INDEX IF NOT EXISTS idx_meals_meal_date ON public.meals(meal_date);
 CREATE INDEX IF NOT EXISTS idx_meals_meal_type ON public.meals(meal_type);
 CREATE INDEX IF NOT EXISTS idx_meals_user_date ON public.meals(user_id, meal_date);
+CREATE INDEX IF NOT EXISTS idx_meals_user_images ON public.meals(user_id, created_at) WHERE image_path IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_meals_user_perceptual_hash ON public.meals(user_id, created_at DESC) WHERE perceptual_hash IS NOT NULL;
 
 -- Enable Row Level Security (RLS)
 ALTER TABLE public.meals ENABLE ROW LEVEL SECURITY;
@@ -77,6 +93,7 @@ SELECT
     COUNT(CASE WHEN meal_type = 'dinner' THEN 1 END) as dinner_count,
     COUNT(CASE WHEN meal_type = 'snack' THEN 1 END) as snack_count
 FROM public.meals
+WHERE NOT is_mock_data
 GROUP BY user_id, meal_date
 ORDER BY meal_date DESC;
 
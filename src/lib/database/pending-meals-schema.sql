@@ -0,0 +1,35 @@
+-- Pending meals table schema for couple diet app
+-- This table holds low-confidence analysis results that must be confirmed
+-- (or corrected) by the user before they are committed to the meals table
+
+-- Create pending_meals table
+CREATE TABLE IF NOT EXISTS public.pending_meals (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    analysis_result JSONB NOT NULL,
+    image_hash TEXT,
+    perceptual_hash TEXT, -- dHash (확인 후 저장 시 재사용 사진 검사)
+    photo_capture JSONB, -- EXIF 촬영 시각 (확인 후 저장 시 업로드 시각 기준 신선도 검사)
+    upload_result JSONB,
+    uncertain_food_indices INTEGER[] NOT NULL DEFAULT '{}',
+    threshold NUMERIC(3,2) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_pending_meals_user_id ON public.pending_meals(user_id);
+CREATE INDEX IF NOT EXISTS idx_pending_meals_expires_at ON public.pending_meals(expires_at);
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE public.pending_meals ENABLE ROW LEVEL SECURITY;
+
+-- Users can only see their own pending meals
+-- Pending meals are created, confirmed and deleted by the service role only
+CREATE POLICY "Users can view own pending meals"
+    ON public.pending_meals
+    FOR SELECT
+    USING (user_id = auth.uid());
+
+-- Grant necessary permissions
+GRANT SELECT ON public.pending_meals TO authenticated;
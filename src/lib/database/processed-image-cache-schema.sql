@@ -0,0 +1,20 @@
+-- Processed image cache table schema for couple diet app
+-- Shared backend for the processed image cache (IMAGE_CACHE_STORE=supabase) so that
+-- server instances reuse resized variants of the same photo instead of re-running sharp.
+-- Variant files live in the storage bucket under cache/processed/<image_hash>/
+
+-- Create processed_image_cache table
+CREATE TABLE IF NOT EXISTS public.processed_image_cache (
+    image_hash TEXT PRIMARY KEY,
+    metadata JSONB NOT NULL,
+    byte_size INTEGER NOT NULL,
+    cached_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_processed_image_cache_expires_at ON public.processed_image_cache(expires_at);
+
+-- Enable Row Level Security (RLS)
+-- No policies are created: only the service role (server-side API routes) may access this table
+ALTER TABLE public.processed_image_cache ENABLE ROW LEVEL SECURITY;
@@ -8,6 +8,7 @@ CREATE TABLE IF NOT EXISTS public.users (
     display_name TEXT,
     avatar_url TEXT,
     partner_id UUID REFERENCES public.users(id) ON DELETE SET NULL,
+    keep_photo_taken_at BOOLEAN NOT NULL DEFAULT false, -- 사진 촬영 시각을 meals.photo_taken_at에 보관하는 데 동의 (사진 파일에는 남기지 않음)
     created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
 );
@@ -0,0 +1,126 @@
+import { createSupabaseAdmin } from './supabase';
+import { getStorageDriver } from './storage-driver';
+import { STORAGE_CONFIG } from './storage';
+import { estimateImageCacheEntrySize, IMAGE_VARIANTS, ImageCacheStore, ImageVariantName } from './image-cache';
+import type { ImageProcessingResult, ProcessedImage } from './image-processor';
+
+// 만료 항목 정리 시 한 번에 처리하는 최대 수
+const PURGE_BATCH_SIZE = 1000;
+
+// 공유 저장소의 이미지 메타데이터 (Buffer는 storage에 따로 저장)
+type StoredImageMetadata = Omit<ImageProcessingResult, ImageVariantName> &
+  Record<ImageVariantName, Omit<ProcessedImage, 'buffer' | 'base64'> & { path: string; base64: boolean }>;
+
+/**
+ * Supabase 기반 공유 저장소
+ * - 메타데이터는 processed_image_cache 테이블, 이미지는 storage의 cache/processed/<해시>/ 아래에 저장
+ * - 사진 저장을 선택하지 않은 업로드도 유효 기간 동안 보관되므로 비공개 버킷에서만 사용
+ */
+export class SupabaseImageCacheStore implements ImageCacheStore {
+  private readonly table = 'processed_image_cache';
+
+  async get(key: string): Promise<ImageProcessingResult | null> {
+    const supabase = createSupabaseAdmin();
+    const { data, error } = await supabase
+      .from(this.table)
+      .select('metadata, expires_at')
+      .eq('image_hash', key)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`이미지 캐시 조회 실패: ${error.message}`);
+    }
+    if (!data) return null;
+
+    if (new Date(data.expires_at).getTime() <= Date.now()) {
+      await this.delete(key);
+      return null;
+    }
+
+    const metadata = data.metadata as StoredImageMetadata;
+    const driver = getStorageDriver(STORAGE_CONFIG);
+    const buffers = await Promise.all(IMAGE_VARIANTS.map(variant => driver.get(metadata[variant].path)));
+
+    const result = { ...metadata } as unknown as ImageProcessingResult;
+    IMAGE_VARIANTS.forEach((variant, index) => {
+      const { format, width, height, size, base64 } = metadata[variant];
+      result[variant] = {
+        buffer: buffers[index],
+        format,
+        width,
+        height,
+        size,
+        ...(base64 && { base64: buffers[index].toString('base64') })
+      };
+    });
+    return result;
+  }
+
+  async set(key: string, value: ImageProcessingResult, expiresAt: Date): Promise<void> {
+    const driver = getStorageDriver(STORAGE_CONFIG);
+    const metadata = { ...value } as unknown as StoredImageMetadata;
+
+    await Promise.all(IMAGE_VARIANTS.map(async variant => {
+      const { buffer, base64, ...image } = value[variant];
+      const path = `${this.getFolder(key)}/${variant}.${image.format}`;
+      await driver.put(path, buffer, `image/${image.format}`);
+      metadata[variant] = { ...image, path, base64: base64 !== undefined };
+    }));
+
+    const supabase = createSupabaseAdmin();
+    const { error } = await supabase
+      .from(this.table)
+      .upsert([{
+        image_hash: key,
+        metadata,
+        byte_size: estimateImageCacheEntrySize(value),
+        cached_at: new Date().toISOString(),
+        expires_at: expiresAt.toISOString()
+      }], { onConflict: 'image_hash' });
+
+    if (error) {
+      throw new Error(`이미지 캐시 저장 실패: ${error.message}`);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    const supabase = createSupabaseAdmin();
+    const { error } = await supabase
+      .from(this.table)
+      .delete()
+      .eq('image_hash', key);
+
+    if (error) {
+      throw new Error(`이미지 캐시 삭제 실패: ${error.message}`);
+    }
+
+    const driver = getStorageDriver(STORAGE_CONFIG);
+    const objects = await driver.list(this.getFolder(key));
+    await driver.delete(objects.map(object => object.path));
+  }
+
+  /**
+   * 만료된 항목 정리 (조회되지 않고 남은 이미지가 유효 기간 뒤에도 저장소에 남지 않도록)
+   */
+  async purgeExpired(): Promise<number> {
+    const supabase = createSupabaseAdmin();
+    const { data, error } = await supabase
+      .from(this.table)
+      .select('image_hash')
+      .lte('expires_at', new Date().toISOString())
+      .limit(PURGE_BATCH_SIZE);
+
+    if (error) {
+      throw new Error(`만료된 이미지 캐시 조회 실패: ${error.message}`);
+    }
+
+    for (const entry of data || []) {
+      await this.delete(entry.image_hash);
+    }
+    return data?.length ?? 0;
+  }
+
+  private getFolder(key: string): string {
+    return `cache/processed/${key}`;
+  }
+}
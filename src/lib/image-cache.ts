@@ -0,0 +1,272 @@
+import type { ImageProcessingResult } from './image-processor';
+
+// 공유 캐시 저장소 종류 (memory: 인스턴스별 메모리만 사용)
+export type ImageCacheStoreName = 'memory' | 'supabase';
+
+// 처리된 이미지 공유 저장소 인터페이스 (여러 서버 인스턴스가 같은 결과를 재사용)
+export interface ImageCacheStore {
+  get(key: string): Promise<ImageProcessingResult | null>;
+  set(key: string, value: ImageProcessingResult, expiresAt: Date): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+export interface ImageCacheStats {
+  store: ImageCacheStoreName;
+  entries: number;
+  bytes: number;
+  maxBytes: number;
+  hits: number;
+  misses: number;
+  evictions: number; // 용량 초과로 밀려난 항목 (만료 제외)
+  hitRate: number; // 0-1 (공유 저장소 적중 포함)
+  sharedHits: number;
+  sharedMisses: number;
+}
+
+// 기본 메모리 캐시 용량과 유효 기간
+export const DEFAULT_IMAGE_CACHE_MAX_MB = 64;
+export const DEFAULT_IMAGE_CACHE_TTL_MS = 1000 * 60 * 60; // 1시간
+
+// Buffer 외 항목(객체, 해시 문자열 등)에 대한 대략적인 크기
+const ENTRY_OVERHEAD_BYTES = 1024;
+
+export type ImageVariantName = 'analysis' | 'thumbnail' | 'archive';
+export const IMAGE_VARIANTS: ImageVariantName[] = ['analysis', 'thumbnail', 'archive'];
+
+/**
+ * 캐시 항목이 차지하는 메모리 크기 (이미지 Buffer + 분석용 base64 문자열)
+ */
+export function estimateImageCacheEntrySize(value: ImageProcessingResult): number {
+  return IMAGE_VARIANTS.reduce(
+    (sum, variant) => sum + value[variant].buffer.length + (value[variant].base64?.length ?? 0),
+    ENTRY_OVERHEAD_BYTES
+  );
+}
+
+interface LruEntry {
+  value: ImageProcessingResult;
+  size: number;
+  expiresAt: number;
+}
+
+/**
+ * 바이트 용량 기준 LRU 메모리 캐시
+ * Map의 삽입 순서를 사용 순서로 유지 (조회할 때마다 맨 뒤로 옮기고, 용량을 넘으면 맨 앞부터 제거)
+ */
+export class LruImageCache {
+  private entries = new Map<string, LruEntry>();
+  private totalBytes = 0;
+  public evictions = 0;
+
+  constructor(
+    public readonly maxBytes: number,
+    private readonly ttlMs: number = DEFAULT_IMAGE_CACHE_TTL_MS
+  ) {}
+
+  get(key: string): ImageProcessingResult | null {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+
+    if (entry.expiresAt <= Date.now()) {
+      this.remove(key);
+      return null;
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  set(key: string, value: ImageProcessingResult): void {
+    const size = estimateImageCacheEntrySize(value);
+    this.remove(key);
+
+    // 한 항목이 전체 용량보다 크면 다른 항목을 모두 밀어내지 않도록 저장하지 않음
+    if (size > this.maxBytes) return;
+
+    while (this.totalBytes + size > this.maxBytes) {
+      const oldestKey = this.entries.keys().next().value;
+      if (oldestKey === undefined) break;
+      this.remove(oldestKey);
+      this.evictions++;
+    }
+
+    this.entries.set(key, { value, size, expiresAt: Date.now() + this.ttlMs });
+    this.totalBytes += size;
+  }
+
+  delete(key: string): void {
+    this.remove(key);
+  }
+
+  clear(): void {
+    this.entries.clear();
+    this.totalBytes = 0;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  get bytes(): number {
+    return this.totalBytes;
+  }
+
+  private remove(key: string): void {
+    const entry = this.entries.get(key);
+    if (entry) {
+      this.entries.delete(key);
+      this.totalBytes -= entry.size;
+    }
+  }
+}
+
+/**
+ * 첫 사용 시 실제 저장소 모듈을 불러오는 공유 저장소
+ * Supabase 클라이언트는 import 시점에 환경 변수를 요구하므로, 공유 저장소를 쓰지 않는
+ * 환경(오프라인 평가 스크립트 등)에서 이미지 처리 모듈을 불러와도 실패하지 않도록 지연 로드
+ */
+class LazyImageCacheStore implements ImageCacheStore {
+  private store: Promise<ImageCacheStore> | null = null;
+
+  constructor(private readonly load: () => Promise<ImageCacheStore>) {}
+
+  async get(key: string): Promise<ImageProcessingResult | null> {
+    return (await this.getStore()).get(key);
+  }
+
+  async set(key: string, value: ImageProcessingResult, expiresAt: Date): Promise<void> {
+    return (await this.getStore()).set(key, value, expiresAt);
+  }
+
+  async delete(key: string): Promise<void> {
+    return (await this.getStore()).delete(key);
+  }
+
+  private getStore(): Promise<ImageCacheStore> {
+    if (!this.store) {
+      this.store = this.load();
+      // 로드에 실패하면 다음 호출에서 다시 시도
+      this.store.catch(() => {
+        this.store = null;
+      });
+    }
+    return this.store;
+  }
+}
+
+/**
+ * 처리된 이미지 캐시 (인스턴스별 LRU 메모리 캐시 + 선택적 공유 저장소)
+ * - 메모리에 없으면 공유 저장소를 확인하고, 적중하면 메모리에도 저장
+ * - 공유 저장소 오류는 로그만 남기고 이미지 처리 흐름을 막지 않음
+ */
+export class ProcessedImageCache {
+  private hits = 0;
+  private misses = 0;
+  private sharedHits = 0;
+  private sharedMisses = 0;
+
+  constructor(
+    private readonly memory: LruImageCache,
+    private readonly shared: ImageCacheStore | null = null,
+    private readonly storeName: ImageCacheStoreName = 'memory',
+    private readonly ttlMs: number = DEFAULT_IMAGE_CACHE_TTL_MS
+  ) {}
+
+  async get(key: string): Promise<ImageProcessingResult | null> {
+    const cached = this.memory.get(key);
+    if (cached) {
+      this.hits++;
+      return cached;
+    }
+
+    if (this.shared) {
+      try {
+        const sharedValue = await this.shared.get(key);
+        if (sharedValue) {
+          this.sharedHits++;
+          this.hits++;
+          this.memory.set(key, sharedValue);
+          return sharedValue;
+        }
+        this.sharedMisses++;
+      } catch (error) {
+        this.sharedMisses++;
+        console.warn('⚠️  공유 이미지 캐시 조회 실패 (무시하고 계속 진행):', error);
+      }
+    }
+
+    this.misses++;
+    return null;
+  }
+
+  /**
+   * 캐시 저장 (공유 저장소 저장은 기다리지 않음)
+   */
+  set(key: string, value: ImageProcessingResult): void {
+    this.memory.set(key, value);
+
+    this.shared?.set(key, value, new Date(Date.now() + this.ttlMs)).catch(error => {
+      console.warn('⚠️  공유 이미지 캐시 저장 실패 (무시하고 계속 진행):', error);
+    });
+  }
+
+  clear(): void {
+    this.memory.clear();
+    this.hits = 0;
+    this.misses = 0;
+    this.sharedHits = 0;
+    this.sharedMisses = 0;
+    this.memory.evictions = 0;
+  }
+
+  getStats(): ImageCacheStats {
+    const lookups = this.hits + this.misses;
+    return {
+      store: this.storeName,
+      entries: this.memory.size,
+      bytes: this.memory.bytes,
+      maxBytes: this.memory.maxBytes,
+      hits: this.hits,
+      misses: this.misses,
+      evictions: this.memory.evictions,
+      hitRate: lookups > 0 ? this.hits / lookups : 0,
+      sharedHits: this.sharedHits,
+      sharedMisses: this.sharedMisses
+    };
+  }
+}
+
+let sharedCache: ProcessedImageCache | null = null;
+
+/**
+ * 설정(IMAGE_CACHE_MAX_MB, IMAGE_CACHE_STORE)에 따른 캐시 인스턴스 반환
+ */
+export function getProcessedImageCache(): ProcessedImageCache {
+  if (sharedCache) return sharedCache;
+
+  const maxMb = process.env.IMAGE_CACHE_MAX_MB ? Number(process.env.IMAGE_CACHE_MAX_MB) : DEFAULT_IMAGE_CACHE_MAX_MB;
+  if (!Number.isFinite(maxMb) || maxMb < 0) {
+    throw new Error(`IMAGE_CACHE_MAX_MB는 0 이상의 숫자여야 합니다: ${process.env.IMAGE_CACHE_MAX_MB}`);
+  }
+
+  const storeName = (process.env.IMAGE_CACHE_STORE || 'memory') as ImageCacheStoreName;
+  let shared: ImageCacheStore | null;
+
+  switch (storeName) {
+    case 'memory':
+      shared = null;
+      break;
+    case 'supabase':
+      shared = new LazyImageCacheStore(async () => {
+        const { SupabaseImageCacheStore } = await import('./image-cache-store');
+        return new SupabaseImageCacheStore();
+      });
+      break;
+    default:
+      throw new Error(`알 수 없는 이미지 캐시 저장소입니다: ${storeName}`);
+  }
+
+  sharedCache = new ProcessedImageCache(new LruImageCache(Math.floor(maxMb * 1024 * 1024)), shared, storeName);
+  return sharedCache;
+}
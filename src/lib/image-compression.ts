@@ -0,0 +1,215 @@
+// 업로드 전 브라우저에서 사진 리사이즈/재인코딩 (서버 분석용 1024px, 보관용 2048px보다 큰 사진은 업로드할 필요가 없음)
+// 브라우저 API(canvas, createImageBitmap)를 사용하므로 클라이언트 컴포넌트에서만 호출
+
+export type CompressedImageFormat = 'jpeg' | 'webp';
+
+export interface ImageCompressionOptions {
+  maxDimension: number; // 긴 변 최대 픽셀
+  quality: number; // 0-1
+  format: CompressedImageFormat;
+}
+
+// 기본 설정 (서버 보관용 이미지 최대 크기와 같게 유지해 화질 손실 없이 업로드 용량만 줄임)
+export const DEFAULT_IMAGE_COMPRESSION_OPTIONS: ImageCompressionOptions = {
+  maxDimension: 2048,
+  quality: 0.85,
+  format: 'jpeg'
+};
+
+// 원본을 그대로 보낸 이유
+export type ImageCompressionSkipReason =
+  | 'unsupported' // 브라우저가 디코딩/인코딩을 지원하지 않음 (대부분의 HEIC/AVIF 포함)
+  | 'exif' // 촬영 시각을 옮길 수 없는 형식의 EXIF (사진 신선도 검증에 필요)
+  | 'not-smaller' // 다시 인코딩해도 작아지지 않음
+  | 'failed';
+
+export interface ImageCompressionResult {
+  file: File; // 업로드할 파일 (압축하지 않았으면 원본)
+  compressed: boolean;
+  originalSize: number;
+  compressedSize: number;
+  width?: number;
+  height?: number;
+  skipReason?: ImageCompressionSkipReason;
+}
+
+const COMPRESSED_MIME_TYPES: Record<CompressedImageFormat, string> = {
+  jpeg: 'image/jpeg',
+  webp: 'image/webp'
+};
+
+const COMPRESSED_EXTENSIONS: Record<CompressedImageFormat, string> = {
+  jpeg: 'jpg',
+  webp: 'webp'
+};
+
+// 브라우저가 디코딩할 수 있는 입력 형식
+const COMPRESSIBLE_MIME_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+// EXIF 방향 태그 (0x0112)
+const EXIF_ORIENTATION_TAG = 0x0112;
+
+/**
+ * 업로드할 사진을 최대 크기로 줄이고 JPEG/WebP로 다시 인코딩
+ * - EXIF 방향을 적용해 그리므로 결과 이미지는 항상 똑바로 선 상태
+ * - JPEG 원본의 EXIF(촬영 시각)는 결과 JPEG에 옮기고 방향만 1로 바꿈 (서버의 사진 신선도 검증 유지)
+ *   EXIF를 옮겨야 하면 format이 webp여도 JPEG로 인코딩
+ * - 지원하지 않는 브라우저/형식이거나 작아지지 않으면 원본을 그대로 반환 (실패해도 업로드는 가능)
+ */
+export async function compressImageFile(
+  file: File,
+  options: Partial<ImageCompressionOptions> = {}
+): Promise<ImageCompressionResult> {
+  const config = { ...DEFAULT_IMAGE_COMPRESSION_OPTIONS, ...options };
+  const original = (skipReason: ImageCompressionSkipReason): ImageCompressionResult => ({
+    file,
+    compressed: false,
+    originalSize: file.size,
+    compressedSize: file.size,
+    skipReason
+  });
+
+  if (
+    typeof document === 'undefined' ||
+    typeof createImageBitmap === 'undefined' ||
+    !COMPRESSIBLE_MIME_TYPES.includes(file.type)
+  ) {
+    return original('unsupported');
+  }
+
+  try {
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    const exifSegment = file.type === 'image/jpeg' ? findJpegExifSegment(bytes) : null;
+    if (file.type !== 'image/jpeg' && hasContainerExif(bytes, file.type)) {
+      return original('exif');
+    }
+
+    const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+    const scale = Math.min(1, config.maxDimension / Math.max(bitmap.width, bitmap.height));
+    const width = Math.max(1, Math.round(bitmap.width * scale));
+    const height = Math.max(1, Math.round(bitmap.height * scale));
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext('2d');
+    if (!context) {
+      bitmap.close();
+      return original('unsupported');
+    }
+
+    context.imageSmoothingQuality = 'high';
+    context.drawImage(bitmap, 0, 0, width, height);
+    bitmap.close();
+
+    const format: CompressedImageFormat = exifSegment ? 'jpeg' : config.format;
+    const mimeType = COMPRESSED_MIME_TYPES[format];
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, mimeType, config.quality));
+
+    // 지원하지 않는 형식을 요청하면 브라우저가 PNG로 인코딩하므로 형식도 확인
+    if (!blob || blob.type !== mimeType) {
+      return original('unsupported');
+    }
+
+    let output: BlobPart = blob;
+    if (exifSegment) {
+      output = insertJpegExifSegment(new Uint8Array(await blob.arrayBuffer()), resetExifOrientation(exifSegment));
+    }
+
+    const name = `${file.name.replace(/\.[^.]+$/, '') || 'photo'}.${COMPRESSED_EXTENSIONS[format]}`;
+    const compressedFile = new File([output], name, { type: mimeType, lastModified: file.lastModified });
+
+    if (compressedFile.size >= file.size) {
+      return original('not-smaller');
+    }
+
+    return {
+      file: compressedFile,
+      compressed: true,
+      originalSize: file.size,
+      compressedSize: compressedFile.size,
+      width,
+      height
+    };
+  } catch (error) {
+    console.warn('사진 압축 실패 (원본으로 업로드):', error);
+    return original('failed');
+  }
+}
+
+/**
+ * JPEG의 EXIF APP1 세그먼트 (마커 포함, 없으면 null)
+ */
+function findJpegExifSegment(bytes: Uint8Array): Uint8Array | null {
+  if (bytes[0] !== 0xff || bytes[1] !== 0xd8) return null;
+
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    // SOS 이후는 이미지 데이터
+    if (marker === 0xda) break;
+
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    const isExif = marker === 0xe1 &&
+      String.fromCharCode(...bytes.subarray(offset + 4, offset + 10)) === 'Exif\0\0';
+    if (isExif) {
+      return bytes.slice(offset, offset + 2 + length);
+    }
+    offset += 2 + length;
+  }
+
+  return null;
+}
+
+/**
+ * EXIF 세그먼트 복사본의 방향 태그를 1(정상)로 변경 (픽셀은 이미 회전했으므로 서버가 다시 회전하지 않도록)
+ */
+function resetExifOrientation(segment: Uint8Array): Uint8Array {
+  const result = segment.slice();
+  const view = new DataView(result.buffer);
+  const tiffStart = 10; // 마커(2) + 길이(2) + "Exif\0\0"(6)
+  if (result.length < tiffStart + 8) return result;
+
+  const littleEndian = view.getUint16(tiffStart) === 0x4949; // "II"
+  const ifdStart = tiffStart + view.getUint32(tiffStart + 4, littleEndian);
+  if (ifdStart + 2 > result.length) return result;
+
+  const entryCount = view.getUint16(ifdStart, littleEndian);
+  for (let i = 0; i < entryCount; i++) {
+    const entry = ifdStart + 2 + i * 12;
+    if (entry + 12 > result.length) break;
+    if (view.getUint16(entry, littleEndian) === EXIF_ORIENTATION_TAG) {
+      view.setUint16(entry + 8, 1, littleEndian);
+      break;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * SOI 바로 뒤에 EXIF 세그먼트 삽입
+ */
+function insertJpegExifSegment(jpeg: Uint8Array, segment: Uint8Array): Uint8Array {
+  const result = new Uint8Array(jpeg.length + segment.length);
+  result.set(jpeg.subarray(0, 2), 0);
+  result.set(segment, 2);
+  result.set(jpeg.subarray(2), 2 + segment.length);
+  return result;
+}
+
+/**
+ * PNG(eXIf)/WebP(EXIF) 청크가 있는지 확인
+ * 청크 구조를 모두 해석하지 않고 이름만 찾으므로 드물게 오탐이 있을 수 있음 (오탐이면 원본을 업로드할 뿐)
+ */
+function hasContainerExif(bytes: Uint8Array, mimeType: string): boolean {
+  const chunkName = mimeType === 'image/png' ? 'eXIf' : 'EXIF';
+  const codes = Array.from(chunkName, char => char.charCodeAt(0));
+
+  for (let i = 0; i + codes.length <= bytes.length; i++) {
+    if (codes.every((code, index) => bytes[i + index] === code)) {
+      return true;
+    }
+  }
+  return false;
+}
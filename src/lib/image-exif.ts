@@ -0,0 +1,57 @@
+import sharp from 'sharp';
+import exifReader from 'exif-reader';
+import { PhotoCaptureInput } from './meal-validation';
+
+// EXIF 촬영 시각 (카메라 기준 현지 시각)
+export interface PhotoCaptureTime extends PhotoCaptureInput {
+  mealDate: string; // YYYY-MM-DD (현지 날짜)
+}
+
+/**
+ * 이미지에서 EXIF 촬영 시각 읽기
+ * EXIF가 없거나 읽을 수 없으면 null
+ */
+export async function readPhotoCaptureTime(buffer: Buffer): Promise<PhotoCaptureTime | null> {
+  try {
+    const { exif } = await sharp(buffer).metadata();
+    return exif ? parsePhotoCaptureTime(exif) : null;
+  } catch (error) {
+    console.warn('EXIF 읽기 실패:', error instanceof Error ? error.message : error);
+    return null;
+  }
+}
+
+/**
+ * EXIF 원본 데이터에서 촬영 시각 추출 (DateTimeOriginal → DateTimeDigitized → DateTime 순)
+ */
+export function parsePhotoCaptureTime(exif: Buffer): PhotoCaptureTime | null {
+  try {
+    const tags = exifReader(exif);
+    // exif-reader는 offset 없는 EXIF 시각을 UTC 필드에 그대로 담아서 반환
+    const naive = tags.Photo?.DateTimeOriginal ?? tags.Photo?.DateTimeDigitized ?? tags.Image?.DateTime;
+    if (!(naive instanceof Date) || Number.isNaN(naive.getTime())) {
+      return null;
+    }
+
+    const pad = (value: number) => String(value).padStart(2, '0');
+    const mealDate = `${naive.getUTCFullYear()}-${pad(naive.getUTCMonth() + 1)}-${pad(naive.getUTCDate())}`;
+    const wallClock = `${mealDate}T${pad(naive.getUTCHours())}:${pad(naive.getUTCMinutes())}:${pad(naive.getUTCSeconds())}`;
+    const offset = tags.Photo?.OffsetTimeOriginal;
+
+    return {
+      takenAt: offset && /^[+-]\d{2}:\d{2}$/.test(offset) ? `${wallClock}${offset}` : wallClock,
+      mealDate,
+      localTime: new Date(
+        naive.getUTCFullYear(),
+        naive.getUTCMonth(),
+        naive.getUTCDate(),
+        naive.getUTCHours(),
+        naive.getUTCMinutes(),
+        naive.getUTCSeconds()
+      )
+    };
+  } catch (error) {
+    console.warn('EXIF 읽기 실패:', error instanceof Error ? error.message : error);
+    return null;
+  }
+}
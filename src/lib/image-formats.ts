@@ -0,0 +1,41 @@
+// 업로드 가능한 이미지 형식 (서버 시그니처 검사와 클라이언트 파일 선택이 같은 목록을 사용)
+// HEIC/AVIF는 서버에서 디코딩한 뒤 기존 분석/썸네일/아카이브 변형으로 변환됨
+export type SupportedImageFormat = 'jpeg' | 'png' | 'webp' | 'heic' | 'avif';
+
+export const SUPPORTED_IMAGE_FORMATS: SupportedImageFormat[] = ['jpeg', 'png', 'webp', 'heic', 'avif'];
+
+export const IMAGE_FORMAT_MIME_TYPES: Record<SupportedImageFormat, string> = {
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+  heic: 'image/heic',
+  avif: 'image/avif'
+};
+
+// image/heif는 HEIC와 같은 컨테이너 (일부 기기가 이 타입으로 보고함)
+export const SUPPORTED_IMAGE_MIME_TYPES = [...Object.values(IMAGE_FORMAT_MIME_TYPES), 'image/heif'];
+
+const SUPPORTED_IMAGE_EXTENSIONS = ['jpg', 'jpeg', 'png', 'webp', 'heic', 'heif', 'avif'];
+
+// <input type="file"> accept 값 (MIME 타입을 모르는 브라우저를 위해 확장자도 포함)
+export const IMAGE_ACCEPT_ATTRIBUTE = [
+  ...SUPPORTED_IMAGE_MIME_TYPES,
+  ...SUPPORTED_IMAGE_EXTENSIONS.map(extension => `.${extension}`)
+].join(',');
+
+/**
+ * 선택한 파일이 업로드 가능한 이미지인지 확인
+ * Windows/Android 브라우저는 HEIC 파일의 type을 비워두는 경우가 많아 확장자로도 판단
+ */
+export function isSupportedImageFile(file: { type: string; name: string }): boolean {
+  if (SUPPORTED_IMAGE_MIME_TYPES.includes(file.type)) {
+    return true;
+  }
+
+  if (file.type && file.type !== 'application/octet-stream') {
+    return false;
+  }
+
+  const extension = file.name.split('.').pop()?.toLowerCase();
+  return !!extension && SUPPORTED_IMAGE_EXTENSIONS.includes(extension);
+}
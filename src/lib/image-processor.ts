@@ -1,5 +1,8 @@
 import sharp from 'sharp';
 import crypto from 'crypto';
+import { parsePhotoCaptureTime, PhotoCaptureTime } from './image-exif';
+import { SUPPORTED_IMAGE_FORMATS, SupportedImageFormat } from './image-formats';
+import { getProcessedImageCache, ImageCacheStats } from './image-cache';
 
 // 이미지 처리 설정
 export interface ImageProcessingConfig {
@@ -48,6 +51,13 @@ export const DEFAULT_IMAGE_CONFIG: ImageProcessingConfig = {
   }
 };
 
+// 미리보기 이미지 크기와 품질 (화면에서는 CSS로 흐리게 확대하므로 작게 유지)
+const PLACEHOLDER_SIZE = 16;
+const PLACEHOLDER_QUALITY = 40;
+
+// HEIC/AVIF 디코딩 결과를 JPEG로 넘길 때 품질 (이후 다시 리사이즈/압축되므로 손실 최소화)
+const DECODED_INPUT_QUALITY = 95;
+
 // 처리된 이미지 결과 타입
 export interface ProcessedImage {
   buffer: Buffer;
@@ -58,12 +68,21 @@ export interface ProcessedImage {
   base64?: string; // API 전송용
 }
 
+// 썸네일 로딩 전에 보여줄 미리보기 (흐린 저해상도 이미지 + 대표 색상)
+export interface ImagePlaceholder {
+  dataUrl: string; // 16px WebP data URL (LQIP)
+  dominantColor: string; // #rrggbb
+}
+
 // 이미지 처리 결과 타입
 export interface ImageProcessingResult {
   analysis: ProcessedImage;
   thumbnail: ProcessedImage;
   archive: ProcessedImage;
   originalHash: string;
+  perceptualHash: string; // dHash (재인코딩/크롭된 같은 사진 감지용)
+  placeholder: ImagePlaceholder;
+  captureTime: PhotoCaptureTime | null; // EXIF 촬영 시각 (사진 신선도 검증용)
   processingTime: number;
 }
 
@@ -77,65 +96,9 @@ export interface ImageMetadata {
   hasAlpha: boolean;
   isAnimated: boolean;
   size: number;
+  captureTime: PhotoCaptureTime | null; // EXIF DateTimeOriginal (없으면 null)
 }
 
-// 간단한 메모리 캐시 (프로덕션에서는 Redis 등 사용 권장)
-class ImageCache {
-  private cache = new Map<string, ImageProcessingResult>();
-  private readonly maxSize = 50; // 최대 50개 이미지 캐시
-  private readonly maxAge = 1000 * 60 * 60; // 1시간
-
-  set(key: string, value: ImageProcessingResult): void {
-    // 캐시 크기 제한
-    if (this.cache.size >= this.maxSize) {
-      const firstKey = this.cache.keys().next().value;
-      if (firstKey) {
-        this.cache.delete(firstKey);
-      }
-    }
-
-    // 타임스탬프 추가
-    const timestampedValue = {
-      ...value,
-      cachedAt: Date.now()
-    };
-
-    this.cache.set(key, timestampedValue as ImageProcessingResult);
-  }
-
-  get(key: string): ImageProcessingResult | null {
-    const cached = this.cache.get(key);
-    if (!cached) return null;
-
-    // 만료 시간 체크
-    const cachedValue = cached as ImageProcessingResult & { cachedAt: number };
-    if (Date.now() - cachedValue.cachedAt > this.maxAge) {
-      this.cache.delete(key);
-      return null;
-    }
-
-    return cached;
-  }
-
-  generateKey(buffer: Buffer): string {
-    return crypto.createHash('md5').update(buffer).digest('hex');
-  }
-
-  clear(): void {
-    this.cache.clear();
-  }
-
-  getStats(): { size: number; maxSize: number } {
-    return {
-      size: this.cache.size,
-      maxSize: this.maxSize
-    };
-  }
-}
-
-// 전역 캐시 인스턴스
-const imageCache = new ImageCache();
-
 /**
  * 이미지 메타데이터 추출
  */
@@ -151,7 +114,8 @@ export async function getImageMetadata(buffer: Buffer): Promise<ImageMetadata> {
       density: metadata.density || 72,
       hasAlpha: metadata.hasAlpha || false,
       isAnimated: metadata.pages ? metadata.pages > 1 : false,
-      size: buffer.length
+      size: buffer.length,
+      captureTime: metadata.exif ? parsePhotoCaptureTime(metadata.exif) : null
     };
   } catch (error) {
     throw new Error(`Failed to extract image metadata: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -188,6 +152,7 @@ async function processForAnalysis(
   const startTime = Date.now();
   
   let sharpInstance = sharp(buffer)
+    .rotate() // EXIF 방향 적용 (메타데이터는 출력에 복사하지 않음)
     .resize(config.width, config.height, {
       fit: 'inside',
       withoutEnlargement: true,
@@ -238,6 +203,7 @@ async function processForThumbnail(
   config: ImageProcessingConfig['thumbnail']
 ): Promise<ProcessedImage> {
   const processedBuffer = await sharp(buffer)
+    .rotate() // EXIF 방향 적용 (메타데이터는 출력에 복사하지 않음)
     .resize(config.width, config.height, {
       fit: 'cover', // 썸네일은 정사각형으로 크롭
       position: 'centre'
@@ -260,14 +226,37 @@ async function processForThumbnail(
   };
 }
 
+/**
+ * 미리보기 생성 (썸네일에서 만들어 방향/크롭이 썸네일과 같음)
+ */
+export async function createImagePlaceholder(thumbnailBuffer: Buffer): Promise<ImagePlaceholder> {
+  const [placeholderBuffer, stats] = await Promise.all([
+    sharp(thumbnailBuffer)
+      .resize(PLACEHOLDER_SIZE, PLACEHOLDER_SIZE, { fit: 'inside' })
+      .webp({ quality: PLACEHOLDER_QUALITY })
+      .toBuffer(),
+    sharp(thumbnailBuffer).stats()
+  ]);
+
+  const { r, g, b } = stats.dominant;
+  return {
+    dataUrl: `data:image/webp;base64,${placeholderBuffer.toString('base64')}`,
+    dominantColor: `#${[r, g, b].map(channel => channel.toString(16).padStart(2, '0')).join('')}`
+  };
+}
+
 /**
  * 아카이브용 이미지 처리 (저장 최적화)
+ * - 원본의 EXIF/XMP(GPS 좌표, 기기 정보, 촬영 시각)는 저장 파일에 남기지 않음
+ *   (sharp는 withMetadata/keepExif를 호출하지 않으면 메타데이터를 모두 제거)
+ * - 촬영 시각은 사용자가 동의한 경우에만 meals.photo_taken_at에 별도로 저장
  */
 async function processForArchive(
   buffer: Buffer,
   config: ImageProcessingConfig['archive']
 ): Promise<ProcessedImage> {
   const processedBuffer = await sharp(buffer)
+    .rotate() // EXIF 방향 적용 (메타데이터 제거 후에도 올바른 방향 유지)
     .resize(config.maxWidth, config.maxHeight, {
       fit: 'inside',
       withoutEnlargement: true
@@ -291,6 +280,100 @@ async function processForArchive(
   };
 }
 
+/**
+ * HEIC/AVIF 입력을 이후 처리에서 쓸 수 있는 JPEG로 변환 (그 외 형식은 그대로 반환)
+ * - 배포용 libvips는 특허 문제로 HEVC 디코더가 빠져 있는 경우가 많아, HEIC는 WASM libheif로 다시 시도
+ * - 투명 영역은 분석용 이미지와 같은 흰색 배경으로 채움
+ */
+export async function decodeImageInput(buffer: Buffer): Promise<Buffer> {
+  const format = detectImageFormat(buffer);
+  if (format !== 'heic' && format !== 'avif') {
+    return buffer;
+  }
+
+  try {
+    return await sharp(buffer)
+      .flatten({ background: '#ffffff' })
+      .jpeg({ quality: DECODED_INPUT_QUALITY })
+      .toBuffer();
+  } catch (error) {
+    if (format !== 'heic') {
+      throw error;
+    }
+
+    const { default: decodeHeic } = await import('heic-decode');
+    const { width, height, data } = await decodeHeic({ buffer });
+
+    return sharp(Buffer.from(data.buffer, data.byteOffset, data.byteLength), {
+      raw: { width, height, channels: 4 }
+    })
+      .flatten({ background: '#ffffff' })
+      .jpeg({ quality: DECODED_INPUT_QUALITY })
+      .toBuffer();
+  }
+}
+
+/**
+ * 형식은 유지하고 EXIF 방향만 적용한 뒤 메타데이터(GPS, 기기 정보, 촬영 시각) 제거
+ * 분석 전 원본을 잠시 보관해야 할 때 사용 (HEIC/AVIF는 JPEG로 변환)
+ */
+export async function stripImageMetadata(buffer: Buffer): Promise<Buffer> {
+  // sharp는 withMetadata/keepExif를 호출하지 않으면 메타데이터를 모두 제거
+  return sharp(await decodeImageInput(buffer))
+    .rotate()
+    .toBuffer();
+}
+
+/**
+ * 지각 해시(dHash) 계산 - 64bit를 16자리 hex로 반환
+ * 9x8 흑백으로 축소한 뒤 가로로 인접한 픽셀의 밝기 비교
+ * 재인코딩, 크기 변경, 약간의 크롭에도 비슷한 값이 나옴
+ */
+export async function calculatePerceptualHash(buffer: Buffer): Promise<string> {
+  const pixels = await sharp(buffer)
+    .rotate() // EXIF 방향 적용
+    .greyscale()
+    .resize(9, 8, { fit: 'fill' })
+    .raw()
+    .toBuffer();
+
+  let hash = '';
+  for (let row = 0; row < 8; row++) {
+    let nibble = 0;
+    for (let col = 0; col < 8; col++) {
+      const left = pixels[row * 9 + col];
+      const right = pixels[row * 9 + col + 1];
+      nibble = (nibble << 1) | (left > right ? 1 : 0);
+      if (col % 4 === 3) {
+        hash += nibble.toString(16);
+        nibble = 0;
+      }
+    }
+  }
+
+  return hash;
+}
+
+/**
+ * 두 지각 해시의 해밍 거리 (다른 비트 수, 0~64)
+ */
+export function hammingDistance(hashA: string, hashB: string): number {
+  if (hashA.length !== hashB.length) {
+    throw new Error('Perceptual hash length mismatch');
+  }
+
+  let distance = 0;
+  for (let i = 0; i < hashA.length; i++) {
+    let diff = parseInt(hashA[i], 16) ^ parseInt(hashB[i], 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+
+  return distance;
+}
+
 /**
  * 메인 이미지 처리 함수
  */
@@ -309,30 +392,38 @@ export async function processImageForAI(
     }
 
     // 캐시 확인
-    const cacheKey = imageCache.generateKey(buffer);
-    const cached = imageCache.get(cacheKey);
+    const cacheKey = generateImageCacheKey(buffer);
+    const cached = await getProcessedImageCache().get(cacheKey);
     if (cached) {
       console.log(`Image loaded from cache: ${cacheKey}`);
       return cached;
     }
 
+    // HEIC/AVIF는 먼저 디코딩 (EXIF 촬영 시각은 위에서 원본 메타데이터로 읽음)
+    const source = await decodeImageInput(buffer);
+
     // 병렬 처리로 성능 최적화
-    const [analysis, thumbnail, archive] = await Promise.all([
-      processForAnalysis(buffer, config.analysis),
-      processForThumbnail(buffer, config.thumbnail),
-      processForArchive(buffer, config.archive)
+    const [analysis, thumbnail, archive, perceptualHash] = await Promise.all([
+      processForAnalysis(source, config.analysis),
+      processForThumbnail(source, config.thumbnail),
+      processForArchive(source, config.archive),
+      calculatePerceptualHash(source)
     ]);
+    const placeholder = await createImagePlaceholder(thumbnail.buffer);
 
     const result: ImageProcessingResult = {
       analysis,
       thumbnail,
       archive,
       originalHash: cacheKey,
+      perceptualHash,
+      placeholder,
+      captureTime: metadata.captureTime,
       processingTime: Date.now() - startTime
     };
 
     // 캐시에 저장
-    imageCache.set(cacheKey, result);
+    getProcessedImageCache().set(cacheKey, result);
 
     console.log(`Image processing completed in ${result.processingTime}ms`);
     console.log(`Sizes - Original: ${metadata.size}b, Analysis: ${analysis.size}b, Thumbnail: ${thumbnail.size}b, Archive: ${archive.size}b`);
@@ -344,27 +435,73 @@ export async function processImageForAI(
   }
 }
 
+// ISO-BMFF(ftyp) 브랜드별 형식 - HEIC/HEIF와 AVIF는 같은 컨테이너를 사용하므로 브랜드로 구분
+const HEIC_BRANDS = ['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis'];
+const AVIF_BRANDS = ['avif', 'avis'];
+const GENERIC_HEIF_BRANDS = ['mif1', 'msf1']; // HEIC/AVIF 공통 브랜드 (호환 브랜드 목록을 보고 결정)
+
+/**
+ * 파일 시그니처로 이미지 형식 감지 (지원하지 않는 형식이면 null)
+ */
+export function detectImageFormat(buffer: Buffer): SupportedImageFormat | null {
+  if (buffer.length < 12) {
+    return null;
+  }
+
+  if (buffer[0] === 0xFF && buffer[1] === 0xD8 && buffer[2] === 0xFF) {
+    return 'jpeg';
+  }
+
+  if (buffer.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A]))) {
+    return 'png';
+  }
+
+  // RIFF 컨테이너는 WAV/AVI도 사용하므로 8번째 바이트의 WEBP 식별자까지 확인
+  if (buffer.toString('latin1', 0, 4) === 'RIFF' && buffer.toString('latin1', 8, 12) === 'WEBP') {
+    return 'webp';
+  }
+
+  if (buffer.toString('latin1', 4, 8) === 'ftyp') {
+    return detectHeifBrand(buffer);
+  }
+
+  return null;
+}
+
+/**
+ * ftyp 박스의 주 브랜드와 호환 브랜드로 HEIC/AVIF 구분
+ */
+function detectHeifBrand(buffer: Buffer): SupportedImageFormat | null {
+  const boxSize = Math.min(buffer.readUInt32BE(0), buffer.length);
+  const majorBrand = buffer.toString('latin1', 8, 12);
+  const compatibleBrands: string[] = [];
+  for (let offset = 16; offset + 4 <= boxSize; offset += 4) {
+    compatibleBrands.push(buffer.toString('latin1', offset, offset + 4));
+  }
+
+  if (AVIF_BRANDS.includes(majorBrand)) return 'avif';
+  if (HEIC_BRANDS.includes(majorBrand)) return 'heic';
+  if (!GENERIC_HEIF_BRANDS.includes(majorBrand)) return null;
+
+  if (compatibleBrands.some(brand => AVIF_BRANDS.includes(brand))) return 'avif';
+  if (compatibleBrands.some(brand => HEIC_BRANDS.includes(brand))) return 'heic';
+  return null;
+}
+
 /**
  * 이미지 형식 검증
  */
-export function validateImageFormat(buffer: Buffer, allowedFormats: string[] = ['jpeg', 'jpg', 'png', 'webp']): boolean {
+export function validateImageFormat(buffer: Buffer, allowedFormats: string[] = SUPPORTED_IMAGE_FORMATS): boolean {
   try {
-    // 파일 시그니처 체크
-    const signatures = {
-      jpeg: [0xFF, 0xD8, 0xFF],
-      jpg: [0xFF, 0xD8, 0xFF],
-      png: [0x89, 0x50, 0x4E, 0x47],
-      webp: [0x52, 0x49, 0x46, 0x46] // RIFF (WebP의 시작)
-    };
-
-    for (const format of allowedFormats) {
-      const signature = signatures[format as keyof typeof signatures];
-      if (signature && buffer.subarray(0, signature.length).every((byte, index) => byte === signature[index])) {
-        return true;
-      }
+    const format = detectImageFormat(buffer);
+    if (!format) {
+      return false;
     }
 
-    return false;
+    // jpg/heif는 같은 형식의 다른 이름
+    return allowedFormats.some(allowed =>
+      allowed === format || (allowed === 'jpg' && format === 'jpeg') || (allowed === 'heif' && format === 'heic')
+    );
   } catch {
     return false;
   }
@@ -389,13 +526,20 @@ export async function validateImageIntegrity(buffer: Buffer): Promise<boolean> {
   }
 }
 
+/**
+ * 처리된 이미지 캐시 키 (원본 이미지 MD5, originalHash와 동일)
+ */
+function generateImageCacheKey(buffer: Buffer): string {
+  return crypto.createHash('md5').update(buffer).digest('hex');
+}
+
 /**
  * 캐시 관리 함수들
  */
 export const cacheManager = {
-  getStats: () => imageCache.getStats(),
-  clear: () => imageCache.clear(),
-  generateKey: (buffer: Buffer) => imageCache.generateKey(buffer)
+  getStats: (): ImageCacheStats => getProcessedImageCache().getStats(),
+  clear: () => getProcessedImageCache().clear(),
+  generateKey: (buffer: Buffer) => generateImageCacheKey(buffer)
 };
 
 /**
@@ -0,0 +1,287 @@
+import crypto from 'crypto';
+import { logSecurityEvent } from './security';
+import { PhotoCaptureTime } from './image-exif';
+import {
+  processImageForAI,
+  getMemoryUsage,
+  calculateCompressionRatio
+} from './image-processor';
+import { uploadProcessedImages, MultiUploadResult } from './storage';
+import { analyzeFoodImage, FoodAnalysisProvider, getAnalysisFallbackPolicy } from './analysis-provider';
+import { AnalysisResultCache } from './analysis-cache';
+import { getAnalysisOptionsKey, resolveAnalysisOptions } from './analysis-prompts';
+import { assignAnalysisPrompt } from './prompt-registry';
+import { recordMealAnalysis } from './meal-recording';
+import { ComprehensiveMealValidationResult } from './meal-validation';
+import { createPendingMeal, needsConfirmation } from './pending-meals';
+import { checkAIQuota, getAIQuotaExceededMessage, recordAIUsage } from './ai-usage';
+import { checkStorageQuota } from './storage-quota';
+import {
+  AIUsageSummary,
+  FoodAnalysisOptions,
+  FoodAnalysisResult,
+  PendingMealConfirmation
+} from '@/types/food-analysis';
+import { MealType } from '@/types/database';
+
+export interface MealAnalysisPipelineOptions {
+  provider: FoodAnalysisProvider;
+  cache: AnalysisResultCache | null;
+  analysisOptions?: FoodAnalysisOptions;
+  confidenceThreshold?: number; // 분석 신뢰도가 이보다 낮으면 자동 저장하지 않고 확인 대기
+  historical?: MealImportTarget; // 과거 사진 가져오기 - 촬영 시각 기준 날짜/식사 타입으로 저장
+  photoCapture?: PhotoCaptureTime | null; // 재시도 작업에 보관한 촬영 시각 (보관 이미지는 메타데이터가 제거되어 있음)
+  uploadedAt?: Date; // 원래 업로드 시각 (재시도 작업은 작업 생성 시각) - 시간대/중복/신선도 검증 기준, 없으면 현재
+  saveToHistory: boolean;
+  saveImages: boolean;
+  clientIP: string;
+  userAgent: string;
+}
+
+// 과거 사진 가져오기 저장 대상 (EXIF 촬영 시각에서 계산)
+export interface MealImportTarget {
+  mealDate: string; // YYYY-MM-DD
+  mealType: MealType;
+  capturedAt: string;
+}
+
+export type MealAnalysisPipelineOutcome =
+  | {
+      status: 'succeeded';
+      result: FoodAnalysisResult;
+      imageHash: string;
+      cacheHit: boolean;
+      mealId?: string;
+      validation?: ComprehensiveMealValidationResult; // 저장된 경우 (늦은 인증 여부 포함)
+      storageWarning?: string; // 저장 공간 한도 경고/정리/거부 안내
+    }
+  | {
+      status: 'rejected'; // 분석은 성공했지만 식사 규칙 위반으로 저장하지 않음
+      result: FoodAnalysisResult;
+      imageHash: string;
+      cacheHit: boolean;
+      validation: ComprehensiveMealValidationResult;
+    }
+  | {
+      status: 'needs_confirmation'; // 신뢰도가 낮아 사용자 확인 후 저장
+      result: FoodAnalysisResult;
+      imageHash: string;
+      cacheHit: boolean;
+      confirmation: PendingMealConfirmation;
+      storageWarning?: string;
+    }
+  | {
+      status: 'deferred'; // AI 분석 실패 - queue-for-retry 정책으로 나중에 다시 분석
+      imageHash: string;
+      captureTime: PhotoCaptureTime | null; // 재시도 작업에 보관 (원본 이미지는 메타데이터를 제거하고 보관)
+      error: string;
+    }
+  | {
+      status: 'quota_exceeded'; // 사용자별 AI 호출 한도 초과 - provider를 호출하지 않음
+      imageHash: string;
+      usage: AIUsageSummary;
+      error: string;
+    };
+
+/**
+ * 검증을 통과한 이미지의 분석 파이프라인
+ * 이미지 처리 → AI 분석 (캐시 우선) → 이미지 저장 → (신뢰도 확인) → 히스토리 저장
+ * AI 분석 실패 시 queue-for-retry 정책이면 에러 대신 deferred 반환
+ * 동기 분석 요청과 비동기 분석 작업이 같은 경로를 사용
+ */
+export async function runMealAnalysisPipeline(
+  userId: string,
+  imageBuffer: Buffer,
+  options: MealAnalysisPipelineOptions
+): Promise<MealAnalysisPipelineOutcome> {
+  const { provider, cache, saveToHistory, saveImages, clientIP, userAgent } = options;
+  // 프롬프트 버전은 사용자별로 배정 (A/B 비교)
+  const analysisOptions = resolveAnalysisOptions({
+    ...options.analysisOptions,
+    prompt_version: options.analysisOptions?.prompt_version ?? assignAnalysisPrompt(userId)
+  });
+
+  // 1. 이미지 해시 계산 (중복 검사용)
+  const imageHash = crypto.createHash('md5').update(imageBuffer).digest('hex');
+
+  // 2. 이미지 처리 (AI 분석용 + 저장용)
+  const memoryBefore = getMemoryUsage();
+  const processedImages = await processImageForAI(imageBuffer);
+  const memoryAfter = getMemoryUsage();
+  const compressionRatio = calculateCompressionRatio(imageBuffer.length, processedImages.analysis.size);
+  const captureTime = options.photoCapture ?? processedImages.captureTime;
+
+  logSecurityEvent('IMAGE_PROCESSED', {
+    userId,
+    imageHash,
+    originalSize: imageBuffer.length,
+    compressionRatio,
+    memoryUsage: memoryAfter.heapUsed - memoryBefore.heapUsed,
+    clientIP,
+    userAgent
+  });
+
+  // 3. AI 분석 (캐시 확인 → 사용자별 한도 확인 → provider 호출 + 응답 정규화)
+  // 분석 옵션(프롬프트 버전 포함)이 다르면 결과도 다르므로 provider와 옵션을 함께 캐시 구분 값으로 사용
+  const cacheVariant = `${provider.name}:${getAnalysisOptionsKey(analysisOptions)}`;
+  const cachedResult = cache ? await cache.get(imageHash, cacheVariant) : null;
+  const cacheHit = cachedResult !== null;
+
+  let analysisResult: FoodAnalysisResult;
+  if (cachedResult) {
+    analysisResult = cachedResult;
+  } else {
+    // 캐시 적중은 한도에 포함하지 않음
+    const quota = await checkAIQuota(userId);
+    if (!quota.allowed && quota.usage) {
+      return {
+        status: 'quota_exceeded',
+        imageHash,
+        usage: quota.usage,
+        error: getAIQuotaExceededMessage(quota.usage)
+      };
+    }
+
+    // 재시도를 포함한 실제 API 호출 수를 성공/실패와 관계없이 기록
+    let apiCalls = 0;
+    try {
+      analysisResult = await analyzeFoodImage(processedImages, provider, analysisOptions, () => {
+        apiCalls++;
+      });
+    } catch (analysisError) {
+      if (getAnalysisFallbackPolicy() !== 'queue-for-retry') {
+        throw analysisError;
+      }
+      return {
+        status: 'deferred',
+        imageHash,
+        captureTime,
+        error: analysisError instanceof Error ? analysisError.message : 'Unknown error'
+      };
+    } finally {
+      await recordAIUsage(userId, provider.name, apiCalls);
+    }
+    analysisResult.metadata = { ...analysisResult.metadata, cache_hit: false };
+    await cache?.set(imageHash, cacheVariant, analysisResult);
+  }
+
+  // 과거 사진은 분석 결과의 식사 타입 대신 촬영 시각 기준 식사 타입 사용 (캐시에는 원본 유지)
+  // 촬영 시각 자체는 분석 결과에 남기지 않고 동의한 경우에만 photo_taken_at으로 저장
+  if (options.historical) {
+    analysisResult = {
+      ...analysisResult,
+      meal_type: options.historical.mealType,
+      metadata: {
+        ...analysisResult.metadata,
+        imported: true
+      }
+    };
+  }
+
+  // 4. 이미지 저장 (선택사항, 사용자별 저장 공간 한도 확인 후)
+  let uploadResult: MultiUploadResult | undefined;
+  let storageWarning: string | undefined;
+  let storeImages = saveImages;
+  if (saveImages) {
+    const incomingBytes = processedImages.archive.size + processedImages.thumbnail.size + processedImages.analysis.size;
+    const storageQuota = await checkStorageQuota(userId, incomingBytes);
+    storageWarning = storageQuota.warning;
+    storeImages = storageQuota.allowed;
+
+    if (storageQuota.downgradedCount > 0) {
+      logSecurityEvent('STORAGE_IMAGES_DOWNGRADED', {
+        userId,
+        downgradedCount: storageQuota.downgradedCount,
+        usedBytes: storageQuota.usage?.used_bytes,
+        limitBytes: storageQuota.usage?.limit_bytes
+      }, 'info');
+    }
+    if (!storageQuota.allowed) {
+      logSecurityEvent('STORAGE_QUOTA_EXCEEDED', {
+        userId,
+        imageHash,
+        incomingBytes,
+        usedBytes: storageQuota.usage?.used_bytes,
+        limitBytes: storageQuota.usage?.limit_bytes,
+        policy: storageQuota.usage?.policy,
+        clientIP,
+        userAgent
+      }, 'warn');
+    }
+  }
+
+  if (storeImages) {
+    try {
+      uploadResult = await uploadProcessedImages(processedImages, userId);
+      if (!uploadResult.success) {
+        console.error('Image upload failed:', uploadResult.error);
+        // 업로드 실패는 로그만 남기고 계속 진행
+      }
+    } catch (uploadError) {
+      console.error('Image upload error:', uploadError);
+      // 업로드 에러는 무시하고 계속 진행
+    }
+  }
+
+  // 5. 신뢰도가 낮으면 바로 저장하지 않고 확인 대기 상태로 보관
+  const { confidenceThreshold } = options;
+  if (saveToHistory && confidenceThreshold !== undefined && needsConfirmation(analysisResult, confidenceThreshold)) {
+    const pendingResult = await createPendingMeal(userId, analysisResult, {
+      threshold: confidenceThreshold,
+      imageHash,
+      perceptualHash: processedImages.perceptualHash,
+      photoCapture: captureTime,
+      uploadResult,
+      uploadedAt: options.uploadedAt
+    });
+
+    if (pendingResult.success && pendingResult.data) {
+      return {
+        status: 'needs_confirmation',
+        result: analysisResult,
+        imageHash,
+        cacheHit,
+        confirmation: pendingResult.data,
+        storageWarning
+      };
+    }
+    // 보관 실패는 로그만 남기고 저장 없이 분석 결과만 반환
+    return { status: 'succeeded', result: analysisResult, imageHash, cacheHit, storageWarning };
+  }
+
+  // 6. 분석 결과 히스토리 저장 (선택사항)
+  let mealId: string | undefined;
+  let validation: ComprehensiveMealValidationResult | undefined;
+  if (saveToHistory) {
+    const recordResult = await recordMealAnalysis(userId, analysisResult, {
+      uploadResult,
+      imageHash,
+      perceptualHash: processedImages.perceptualHash,
+      mealDate: options.historical?.mealDate,
+      photoCapture: options.historical ? undefined : captureTime,
+      photoTakenAt: options.historical?.capturedAt,
+      uploadedAt: options.uploadedAt,
+      mealTime: options.uploadedAt,
+      clientIP,
+      userAgent
+    });
+
+    if (recordResult.status === 'rejected') {
+      return {
+        status: 'rejected',
+        result: analysisResult,
+        imageHash,
+        cacheHit,
+        validation: recordResult.validation
+      };
+    }
+
+    if (recordResult.status === 'saved') {
+      mealId = recordResult.mealId;
+      validation = recordResult.validation;
+    }
+    // 저장 실패는 로그만 남기고 계속 진행
+  }
+
+  return { status: 'succeeded', result: analysisResult, imageHash, cacheHit, mealId, validation, storageWarning };
+}
@@ -0,0 +1,204 @@
+import crypto from 'crypto';
+import { createSupabaseAdmin } from './supabase';
+import { responseProcessor } from './response-processor';
+import {
+  validateMealUpload,
+  validateHistoricalMealUpload,
+  ComprehensiveMealValidationResult
+} from './meal-validation';
+import { MealType } from '@/types/database';
+import {
+  FoodAnalysisResult,
+  MealCorrectionInput,
+  MealCorrectionRecord
+} from '@/types/food-analysis';
+
+export interface MealCorrectionResult {
+  success: boolean;
+  data?: {
+    meal_id: string;
+    correction_id: string;
+    result: FoodAnalysisResult;
+    warnings: string[];
+  };
+  validation?: ComprehensiveMealValidationResult; // 식사 타입 변경이 식사 규칙에 맞지 않는 경우
+  analysis?: FoodAnalysisResult;
+  error?: string;
+  code?: 'NOT_FOUND' | 'FORBIDDEN' | 'INVALID_CORRECTION' | 'VALIDATION_FAILED' | 'DATABASE_ERROR';
+}
+
+export interface MealCorrectionOptions {
+  mealTime?: Date; // 식사 타입 변경 시 시간대 검사 기준 시각 (없으면 식사 저장 시각)
+}
+
+/**
+ * 저장된 식사에 사용자 수정 사항 적용
+ * - 수정은 현재 저장된 결과를 기준으로 적용
+ * - AI 원본은 첫 수정 시점의 결과를 meal_corrections에 그대로 보존
+ * - 식사 타입을 바꾸면 새 타입으로 시간대/중복 규칙을 다시 검증 (과거 식사 가져오기는 중복만)
+ */
+export async function saveMealCorrection(
+  userId: string,
+  mealId: string,
+  corrections: MealCorrectionInput,
+  options: MealCorrectionOptions = {}
+): Promise<MealCorrectionResult> {
+  const startTime = Date.now();
+
+  try {
+    const supabase = createSupabaseAdmin();
+
+    // 1. 식사 조회 및 소유자 확인
+    const { data: meal, error: mealError } = await supabase
+      .from('meals')
+      .select('id, user_id, analysis_result, meal_type, meal_date, created_at')
+      .eq('id', mealId)
+      .maybeSingle();
+
+    if (mealError) {
+      throw new Error(`식사 조회 실패: ${mealError.message}`);
+    }
+
+    if (!meal) {
+      return { success: false, error: '식사 기록을 찾을 수 없습니다.', code: 'NOT_FOUND' };
+    }
+
+    if (meal.user_id !== userId) {
+      return { success: false, error: '본인의 식사 기록만 수정할 수 있습니다.', code: 'FORBIDDEN' };
+    }
+
+    const currentResult = meal.analysis_result as FoodAnalysisResult;
+
+    // 2. 수정 사항 적용 및 재계산
+    const validationResult = responseProcessor.applyCorrections(currentResult, corrections, startTime);
+    if (!validationResult.isValid || !validationResult.corrected_data) {
+      return {
+        success: false,
+        error: validationResult.errors.join(', ') || '수정 사항을 적용할 수 없습니다.',
+        code: 'INVALID_CORRECTION'
+      };
+    }
+
+    const correctedResult = validationResult.corrected_data as FoodAnalysisResult;
+
+    // 3. 식사 타입이 바뀌면 식사 규칙 재검증
+    if (correctedResult.meal_type !== meal.meal_type) {
+      const mealType = (correctedResult.meal_type as MealType) || 'snack';
+      const mealValidation = currentResult.metadata?.imported
+        ? await validateHistoricalMealUpload(userId, mealType, meal.meal_date)
+        : await validateMealUpload(userId, mealType, options.mealTime ?? new Date(meal.created_at));
+
+      if (!mealValidation.isValid) {
+        return {
+          success: false,
+          error: mealValidation.message,
+          validation: mealValidation,
+          analysis: correctedResult,
+          code: 'VALIDATION_FAILED'
+        };
+      }
+    }
+
+    // 4. AI 원본 결과 확인 (이전 수정 이력이 있으면 최초 원본 사용)
+    const { data: firstCorrection } = await supabase
+      .from('meal_corrections')
+      .select('original_result')
+      .eq('meal_id', mealId)
+      .order('created_at', { ascending: true })
+      .limit(1)
+      .maybeSingle();
+
+    const originalResult = (firstCorrection?.original_result as FoodAnalysisResult | undefined) ?? currentResult;
+
+    // 5. 수정 이력 저장
+    const record: MealCorrectionRecord = {
+      id: crypto.randomUUID(),
+      meal_id: mealId,
+      user_id: userId,
+      original_result: originalResult,
+      corrections,
+      corrected_result: correctedResult,
+      created_at: new Date().toISOString()
+    };
+
+    const { error: insertError } = await supabase
+      .from('meal_corrections')
+      .insert([record]);
+
+    if (insertError) {
+      throw new Error(`수정 이력 저장 실패: ${insertError.message}`);
+    }
+
+    // 6. 식사 기록 갱신
+    const { error: updateError } = await supabase
+      .from('meals')
+      .update({
+        analysis_result: correctedResult,
+        total_calories: correctedResult.total_calories,
+        meal_type: correctedResult.meal_type,
+        nutritional_info: correctedResult.nutritional_info,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', mealId);
+
+    if (updateError) {
+      // 식사가 바뀌지 않았으므로 수정 이력도 되돌림 (남으면 수정 통계가 어긋남)
+      const { error: rollbackError } = await supabase
+        .from('meal_corrections')
+        .delete()
+        .eq('id', record.id);
+
+      if (rollbackError) {
+        console.error('Failed to roll back meal correction:', rollbackError);
+      }
+      throw new Error(`식사 기록 갱신 실패: ${updateError.message}`);
+    }
+
+    return {
+      success: true,
+      data: {
+        meal_id: mealId,
+        correction_id: record.id,
+        result: correctedResult,
+        warnings: validationResult.warnings
+      }
+    };
+  } catch (error) {
+    console.error('Save meal correction error:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      code: 'DATABASE_ERROR'
+    };
+  }
+}
+
+/**
+ * 식사의 수정 이력 조회 (최신순)
+ */
+export async function getMealCorrections(
+  userId: string,
+  mealId: string
+): Promise<{ success: boolean; data?: MealCorrectionRecord[]; error?: string }> {
+  try {
+    const supabase = createSupabaseAdmin();
+    const { data, error } = await supabase
+      .from('meal_corrections')
+      .select('*')
+      .eq('meal_id', mealId)
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`수정 이력 조회 실패: ${error.message}`);
+    }
+
+    return { success: true, data: (data || []) as MealCorrectionRecord[] };
+  } catch (error) {
+    console.error('Get meal corrections error:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+}
@@ -0,0 +1,123 @@
+import { createSupabaseAdmin } from './supabase';
+import { createSignedImageUrls, getStoragePathFromUrl, STORAGE_CONFIG } from './storage';
+
+// 화면에 표시하는 이미지 종류 (analysis 이미지는 AI 분석용이라 제공하지 않음)
+export type MealImageVariant = 'original' | 'thumbnail';
+
+// 한 번에 서명할 수 있는 최대 식사 수 (피드 한 페이지 기준)
+export const MAX_SIGNED_MEAL_IMAGES = 50;
+
+export interface SignedMealImages {
+  urls: Record<string, string>; // 식사 ID → 서명된 URL (이미지가 없는 식사는 제외)
+  expires_at: string;
+  denied: string[]; // 없거나 볼 권한이 없는 식사 ID
+}
+
+// 이미지 경로 계산에 필요한 식사 컬럼 (예전 기록은 공개 URL만 있음)
+interface MealImageRow {
+  id: string;
+  user_id: string;
+  image_path?: string | null;
+  thumbnail_path?: string | null;
+  image_url?: string | null;
+  photo_url?: string | null;
+}
+
+/**
+ * 사용자가 식사 사진을 볼 수 있는 사용자 ID 목록 (본인 + 활성 커플 상대)
+ */
+export async function getViewableUserIds(viewerId: string): Promise<string[]> {
+  const supabase = createSupabaseAdmin();
+  const { data, error } = await supabase
+    .from('couples')
+    .select('user1_id, user2_id')
+    .or(`user1_id.eq.${viewerId},user2_id.eq.${viewerId}`)
+    .eq('relationship_status', 'active');
+
+  if (error) {
+    throw new Error(`커플 관계 조회 실패: ${error.message}`);
+  }
+
+  const partnerIds = (data || []).map(couple => (couple.user1_id === viewerId ? couple.user2_id : couple.user1_id));
+  return [viewerId, ...partnerIds];
+}
+
+/**
+ * 식사 사진의 서명된 URL 발급
+ * - 본인 식사이거나 활성 커플 관계인 상대의 식사만 발급
+ * - 경로가 식사 작성자의 폴더(users/<작성자 ID>/)가 아니면 발급하지 않음
+ */
+export async function getSignedMealImageUrls(
+  viewerId: string,
+  mealIds: string[],
+  variant: MealImageVariant
+): Promise<{ success: boolean; data?: SignedMealImages; error?: string }> {
+  try {
+    const uniqueIds = Array.from(new Set(mealIds));
+    const supabase = createSupabaseAdmin();
+
+    // 예전 기록의 공개 URL 컬럼까지 읽기 위해 전체 컬럼 조회
+    const [{ data: meals, error }, viewableUserIds] = await Promise.all([
+      supabase.from('meals').select('*').in('id', uniqueIds),
+      getViewableUserIds(viewerId)
+    ]);
+
+    if (error) {
+      throw new Error(`식사 조회 실패: ${error.message}`);
+    }
+
+    const mealRows = (meals || []) as MealImageRow[];
+    const allowedMeals = mealRows.filter(meal => viewableUserIds.includes(meal.user_id));
+    const allowedIds = new Set(allowedMeals.map(meal => meal.id));
+
+    const pathsByMeal = new Map<string, string>();
+    for (const meal of allowedMeals) {
+      const path = getMealImagePath(meal, variant);
+      if (path && path.startsWith(`users/${meal.user_id}/`)) {
+        pathsByMeal.set(meal.id, path);
+      }
+    }
+
+    const expiresAt = new Date(Date.now() + STORAGE_CONFIG.signedUrlExpiresIn * 1000).toISOString();
+    const signed = await createSignedImageUrls(Array.from(new Set(pathsByMeal.values())));
+    if (!signed.success || !signed.data) {
+      throw new Error(`서명된 URL 생성 실패: ${signed.error}`);
+    }
+
+    const urls: Record<string, string> = {};
+    for (const [mealId, path] of pathsByMeal) {
+      const url = signed.data[path];
+      if (url) {
+        urls[mealId] = url;
+      }
+    }
+
+    return {
+      success: true,
+      data: {
+        urls,
+        expires_at: expiresAt,
+        denied: uniqueIds.filter(id => !allowedIds.has(id))
+      }
+    };
+  } catch (error) {
+    console.error('Signed meal image URLs error:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+}
+
+/**
+ * 식사의 이미지 경로 (썸네일이 없으면 원본 사용, 예전 기록은 공개 URL에서 경로 추출)
+ */
+function getMealImagePath(meal: MealImageRow, variant: MealImageVariant): string | null {
+  const path = variant === 'thumbnail' ? meal.thumbnail_path || meal.image_path : meal.image_path;
+  if (path) {
+    return path;
+  }
+
+  const legacyUrl = meal.image_url || meal.photo_url;
+  return legacyUrl ? getStoragePathFromUrl(legacyUrl) : null;
+}
@@ -0,0 +1,175 @@
+import {
+  validateImageFormat,
+  validateImageSize,
+  validateImageIntegrity
+} from './image-processor';
+import { readPhotoCaptureTime } from './image-exif';
+import { checkDuplicateMeal, getCurrentMealType } from './meal-validation';
+import { runMealAnalysisPipeline, MealAnalysisPipelineOptions } from './meal-analysis-pipeline';
+import { MealImportFileResult } from '@/types/food-analysis';
+
+// 한 번에 가져올 수 있는 최대 파일 수 (요청 크기와 처리 시간 제한)
+export const MAX_IMPORT_FILES = 20;
+
+// 동시에 분석할 이미지 수 (AI API 호출과 이미지 처리 메모리 제한)
+export const IMPORT_CONCURRENCY = 3;
+
+export interface MealImportFile {
+  fileName: string;
+  buffer: Buffer;
+}
+
+// 가져오기는 항상 히스토리에 저장하고, 신뢰도 확인 대기 없이 바로 저장
+export type MealImportOptions = Omit<
+  MealAnalysisPipelineOptions,
+  'historical' | 'confidenceThreshold' | 'saveToHistory'
+>;
+
+/**
+ * 과거 식사 사진 일괄 가져오기
+ * - EXIF 촬영 시각으로 meal_date와 식사 타입을 정하고 현재 시간대 제한 없이 저장
+ * - 시간대/신선도 검증을 거치지 않으므로 어제까지 찍은 사진만 허용 (오늘 식사는 일반 업로드로 기록)
+ * - 파일별 결과를 입력 순서대로 반환 (한 파일의 실패가 다른 파일에 영향 없음)
+ */
+export async function importMealPhotos(
+  userId: string,
+  files: MealImportFile[],
+  options: MealImportOptions
+): Promise<MealImportFileResult[]> {
+  return mapWithConcurrency(files, IMPORT_CONCURRENCY, file => importMealPhoto(userId, file, options));
+}
+
+async function importMealPhoto(
+  userId: string,
+  file: MealImportFile,
+  options: MealImportOptions
+): Promise<MealImportFileResult> {
+  const { fileName, buffer } = file;
+
+  try {
+    // 1. 이미지 기본 검증
+    if (!validateImageSize(buffer)) {
+      return { file_name: fileName, status: 'failed', error: '파일 크기가 너무 큽니다. 10MB 이하의 파일만 가져올 수 있습니다.' };
+    }
+    if (!validateImageFormat(buffer)) {
+      return { file_name: fileName, status: 'failed', error: '지원하지 않는 이미지 형식입니다.' };
+    }
+    if (!(await validateImageIntegrity(buffer))) {
+      return { file_name: fileName, status: 'failed', error: '손상된 이미지 파일입니다.' };
+    }
+
+    // 2. EXIF 촬영 시각으로 날짜와 식사 타입 결정
+    const captureTime = await readPhotoCaptureTime(buffer);
+    if (!captureTime) {
+      return { file_name: fileName, status: 'skipped', error: '촬영 시각(EXIF) 정보가 없어 날짜를 알 수 없습니다.' };
+    }
+
+    // EXIF 날짜는 사용자가 바꿀 수 있으므로 오늘 날짜 사진을 가져와 정상 식사로 기록하지 못하게 함
+    // (촬영 시각과 같은 기준인 서버 현지 날짜로 비교)
+    if (captureTime.mealDate >= getLocalDateString(new Date())) {
+      return {
+        file_name: fileName,
+        status: 'skipped',
+        error: '오늘 이후 날짜의 사진은 가져올 수 없습니다. 오늘 식사는 식사 기록에서 바로 올려주세요.'
+      };
+    }
+
+    const mealType = getCurrentMealType(captureTime.localTime) ?? 'snack';
+    const target = {
+      meal_date: captureTime.mealDate,
+      meal_type: mealType,
+      captured_at: captureTime.takenAt
+    };
+
+    // 3. 이미 기록된 식사면 AI 분석 없이 건너뜀
+    const duplicate = await checkDuplicateMeal(userId, mealType, captureTime.mealDate);
+    if (duplicate.isDuplicate) {
+      return {
+        file_name: fileName,
+        status: 'duplicate',
+        ...target,
+        existing_meal_id: duplicate.existingMeal?.id,
+        error: duplicate.message
+      };
+    }
+
+    // 4. 분석 및 저장
+    const outcome = await runMealAnalysisPipeline(userId, buffer, {
+      ...options,
+      saveToHistory: true,
+      historical: {
+        mealDate: captureTime.mealDate,
+        mealType,
+        capturedAt: captureTime.takenAt
+      }
+    });
+
+    if (outcome.status === 'deferred') {
+      return { file_name: fileName, status: 'failed', ...target, error: 'AI 분석 서비스가 일시적으로 불안정합니다. 잠시 후 다시 시도해주세요.' };
+    }
+
+    if (outcome.status === 'quota_exceeded') {
+      return { file_name: fileName, status: 'failed', ...target, error: outcome.error };
+    }
+
+    if (outcome.status === 'rejected') {
+      return {
+        file_name: fileName,
+        status: 'duplicate',
+        ...target,
+        existing_meal_id: outcome.validation.duplicateValidation.existingMeal?.id,
+        error: outcome.validation.message
+      };
+    }
+
+    if (outcome.status !== 'succeeded' || !outcome.mealId) {
+      return { file_name: fileName, status: 'failed', ...target, error: '식사를 저장하지 못했습니다.' };
+    }
+
+    return {
+      file_name: fileName,
+      status: 'imported',
+      ...target,
+      meal_id: outcome.mealId,
+      total_calories: outcome.result.total_calories,
+      is_mock_data: outcome.result.metadata?.is_mock_data ?? false
+    };
+  } catch (error) {
+    console.error(`Meal import error (${fileName}):`, error);
+    return {
+      file_name: fileName,
+      status: 'failed',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+}
+
+/**
+ * 최대 limit개씩 동시에 실행하고 입력 순서대로 결과 반환
+ */
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+
+  const runWorker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await worker(items[index]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, runWorker));
+  return results;
+}
+
+/**
+ * 현지 날짜 (YYYY-MM-DD, EXIF 촬영 날짜와 같은 형식)
+ */
+function getLocalDateString(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
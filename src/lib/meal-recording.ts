@@ -0,0 +1,219 @@
+import { NextResponse } from 'next/server';
+import { logSecurityEvent } from './security';
+import { saveMealAnalysis } from './meals-history';
+import {
+  validateMealUpload,
+  validateHistoricalMealUpload,
+  ComprehensiveMealValidationResult,
+  DEFAULT_PHOTO_FRESHNESS_CONFIG,
+  DEFAULT_TIME_SLOTS,
+  PhotoCaptureInput,
+  PhotoFreshnessConfig,
+  PhotoFreshnessPolicy
+} from './meal-validation';
+import { MultiUploadResult } from './storage';
+import { getUserPhotoSettings } from './user-settings';
+import { checkReusedPhoto } from './photo-reuse';
+import { MealType } from '@/types/database';
+import { FoodAnalysisResult } from '@/types/food-analysis';
+
+export interface RecordMealOptions {
+  uploadResult?: MultiUploadResult;
+  imageHash?: string;
+  perceptualHash?: string; // 있으면 이전 식사 사진과 비교해 재사용 여부 표시
+  mealDate?: string; // 과거 식사 가져오기 (YYYY-MM-DD) - 시간대 제한 없이 중복만 검사
+  photoCapture?: PhotoCaptureInput | null; // 사진 업로드면 EXIF 촬영 시각 (없으면 null) - 신선도 검증
+  uploadedAt?: Date; // 신선도 비교 기준 시각 (확인 대기 후 저장하는 경우 원래 업로드 시각)
+  mealType?: MealType; // 검증할 식사 타입 (저장 후 수정으로 바뀌는 경우, 없으면 분석 결과의 식사 타입)
+  mealTime?: Date; // 시간대/중복 검사와 meal_date 기준 시각 (확인 대기 후 저장하는 경우 원래 업로드 시각, 없으면 현재)
+  photoTakenAt?: string; // 과거 사진 가져오기의 EXIF 촬영 시각 (없으면 photoCapture 사용)
+  clientIP: string;
+  userAgent: string;
+}
+
+export type RecordMealOutcome =
+  | { status: 'saved'; mealId: string; validation: ComprehensiveMealValidationResult }
+  | { status: 'rejected'; validation: ComprehensiveMealValidationResult }
+  | { status: 'failed'; error: string };
+
+/**
+ * 설정(PHOTO_FRESHNESS_POLICY, PHOTO_FRESHNESS_MAX_AGE_MINUTES, PHOTO_FRESHNESS_REQUIRE_EXIF)에 따른 사진 신선도 규칙
+ */
+export function getPhotoFreshnessConfig(): PhotoFreshnessConfig {
+  const policy = (process.env.PHOTO_FRESHNESS_POLICY || DEFAULT_PHOTO_FRESHNESS_CONFIG.policy) as PhotoFreshnessPolicy;
+  if (!['reject', 'mark', 'off'].includes(policy)) {
+    throw new Error(`알 수 없는 사진 신선도 정책입니다: ${policy}`);
+  }
+
+  const maxAgeMinutes = Number(process.env.PHOTO_FRESHNESS_MAX_AGE_MINUTES);
+
+  return {
+    policy,
+    maxAgeMinutes: Number.isFinite(maxAgeMinutes) && maxAgeMinutes > 0
+      ? maxAgeMinutes
+      : DEFAULT_PHOTO_FRESHNESS_CONFIG.maxAgeMinutes,
+    requireCaptureTime: process.env.PHOTO_FRESHNESS_REQUIRE_EXIF === 'true'
+  };
+}
+
+/**
+ * 식사 규칙 검증(시간대/중복/사진 신선도) 후 히스토리에 저장
+ * 사진 분석과 텍스트 입력 모두 이 경로로 저장
+ * mealDate가 있으면 과거 식사로 보고 시간대 제한 없이 해당 날짜에 저장
+ */
+export async function recordMealAnalysis(
+  userId: string,
+  analysisResult: FoodAnalysisResult,
+  options: RecordMealOptions
+): Promise<RecordMealOutcome> {
+  const { uploadResult, imageHash, perceptualHash, mealDate, photoCapture, uploadedAt, mealTime, photoTakenAt, clientIP, userAgent } = options;
+
+  try {
+    const mealType = options.mealType || (analysisResult.meal_type as MealType) || 'snack'; // 기본값으로 스낵 설정
+    const validationResult = mealDate
+      ? await validateHistoricalMealUpload(userId, mealType, mealDate)
+      : await validateMealUpload(
+          userId,
+          mealType,
+          mealTime ?? new Date(),
+          DEFAULT_TIME_SLOTS,
+          photoCapture !== undefined
+            ? { capture: photoCapture, uploadedAt, config: getPhotoFreshnessConfig() }
+            : undefined
+        );
+
+    if (!validationResult.isValid) {
+      logSecurityEvent('MEAL_VALIDATION_FAILED', {
+        userId,
+        imageHash,
+        mealType: analysisResult.meal_type,
+        inputMode: analysisResult.metadata?.input_mode ?? 'photo',
+        mealDate,
+        validationResult: {
+          timeValidation: validationResult.timeValidation,
+          duplicateValidation: validationResult.duplicateValidation,
+          freshnessValidation: validationResult.freshnessValidation,
+          canProceed: validationResult.canProceed
+        },
+        clientIP,
+        userAgent
+      });
+
+      return { status: 'rejected', validation: validationResult };
+    }
+
+    // 이전 식사 사진 재사용 검사 (저장은 막지 않고 표시만)
+    const reuseCheck = perceptualHash
+      ? await checkReusedPhoto(userId, perceptualHash)
+      : { isPossiblyReused: false };
+
+    if (reuseCheck.isPossiblyReused) {
+      logSecurityEvent('MEAL_PHOTO_POSSIBLY_REUSED', {
+        userId,
+        imageHash,
+        similarMealId: reuseCheck.similarMeal?.id,
+        distance: reuseCheck.similarMeal?.distance,
+        clientIP,
+        userAgent
+      }, 'warn');
+    }
+
+    // 촬영 시각은 사용자가 보관에 동의한 경우에만 저장 (사진 파일에서는 항상 제거됨)
+    const takenAt = photoTakenAt ?? photoCapture?.takenAt;
+    const keepTakenAt = !!takenAt && (await getUserPhotoSettings(userId)).keep_photo_taken_at;
+
+    const saveResult = await saveMealAnalysis(userId, analysisResult, {
+      uploadResult,
+      imageHash,
+      perceptualHash,
+      reusedFromMealId: reuseCheck.similarMeal?.id,
+      // 중복 검사와 같은 기준(UTC 날짜)으로 저장
+      mealDate: mealDate ?? mealTime?.toISOString().split('T')[0],
+      photoFreshness: getPhotoFreshnessLabel(validationResult),
+      photoTakenAt: keepTakenAt ? takenAt : undefined
+    });
+    if (!saveResult.success || !saveResult.mealId) {
+      console.error('Failed to save meal analysis:', saveResult.error);
+      return { status: 'failed', error: saveResult.error || 'Unknown error' };
+    }
+
+    logSecurityEvent('MEAL_VALIDATION_SUCCESS', {
+      userId,
+      imageHash,
+      mealId: saveResult.mealId,
+      mealType: analysisResult.meal_type,
+      inputMode: analysisResult.metadata?.input_mode ?? 'photo',
+      mealDate,
+      validationResult: {
+        timeValid: validationResult.timeValidation.isValid,
+        duplicateValid: !validationResult.duplicateValidation.isDuplicate,
+        photoFreshness: validationResult.freshnessValidation?.status
+      },
+      clientIP,
+      userAgent
+    });
+
+    return { status: 'saved', mealId: saveResult.mealId, validation: validationResult };
+  } catch (error) {
+    console.error('Save meal analysis error:', error);
+    return { status: 'failed', error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
+
+/**
+ * 저장할 사진 신선도 표시 (신선도 검증을 하지 않았으면 undefined)
+ */
+function getPhotoFreshnessLabel(
+  validationResult: ComprehensiveMealValidationResult
+): 'fresh' | 'late' | 'missing' | undefined {
+  const freshness = validationResult.freshnessValidation;
+  if (!freshness || freshness.status === 'skipped') return undefined;
+  if (freshness.isLate) return 'late';
+  return freshness.status === 'missing' ? 'missing' : 'fresh';
+}
+
+/**
+ * 식사 규칙 위반 상세 정보 (422 응답과 분석 작업 결과에 공통 사용)
+ */
+export function buildValidationDetails(validationResult: ComprehensiveMealValidationResult) {
+  return {
+    timeValidation: {
+      isValid: validationResult.timeValidation.isValid,
+      message: validationResult.timeValidation.message,
+      allowedMealTypes: validationResult.timeValidation.allowedMealTypes,
+      currentMealType: validationResult.timeValidation.currentMealType,
+      restrictionReason: validationResult.timeValidation.restrictionReason
+    },
+    duplicateValidation: {
+      isDuplicate: validationResult.duplicateValidation.isDuplicate,
+      message: validationResult.duplicateValidation.message,
+      existingMeal: validationResult.duplicateValidation.existingMeal
+    },
+    ...(validationResult.freshnessValidation && {
+      freshnessValidation: validationResult.freshnessValidation
+    })
+  };
+}
+
+/**
+ * 식사 규칙 위반 응답 (422) - 분석 결과는 그대로 제공
+ */
+export function createValidationFailureResponse(
+  validationResult: ComprehensiveMealValidationResult,
+  analysisResult: FoodAnalysisResult
+): NextResponse {
+  return NextResponse.json({
+    success: false,
+    error: validationResult.message,
+    validation: buildValidationDetails(validationResult),
+    analysis: analysisResult // 분석 결과는 여전히 제공
+  }, {
+    status: 422, // Unprocessable Entity - 요청은 유효하지만 규칙 위반
+    headers: {
+      'X-Validation-Failed': 'true',
+      'X-Validation-Type': !validationResult.timeValidation.isValid
+        ? 'time'
+        : validationResult.duplicateValidation.isDuplicate ? 'duplicate' : 'freshness'
+    }
+  });
+}
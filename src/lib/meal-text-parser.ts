@@ -0,0 +1,90 @@
+import { findNutritionReference, SERVING_UNITS } from './nutrition-reference';
+import { NutritionSource } from '@/types/food-analysis';
+
+// 텍스트 파서가 만든 원시 음식 데이터 (ResponseProcessor 입력 형식)
+export interface ParsedTextFood {
+  name: string;
+  amount: string;
+  calories: number;
+  confidence: number;
+  sources?: { calories: NutritionSource }; // 칼로리를 직접 적은 경우 참조 DB 보정 생략 (presetSources로 전달)
+}
+
+export interface MealTextParseResult {
+  foods: ParsedTextFood[];
+  unmatched: string[]; // 참조 DB에 없고 칼로리도 없는 음식명
+}
+
+export const MEAL_TEXT_PARSER_VERSION = 'text-parser-v1';
+
+// 설명 최대 길이
+export const MAX_MEAL_DESCRIPTION_LENGTH = 500;
+
+// 참조 DB 매칭 여부에 따른 신뢰도
+const MATCHED_CONFIDENCE = 0.8;
+const UNMATCHED_CONFIDENCE = 0.5;
+
+const CALORIE_PATTERN = /(\d+(?:\.\d+)?)\s*(?:kcal|킬로칼로리|칼로리)/i;
+const AMOUNT_PATTERN = new RegExp(
+  `(?:(\\d+(?:\\.\\d+)?)\\s*(g|ml|${SERVING_UNITS.join('|')})(?![a-z])|반\\s*(${SERVING_UNITS.join('|')}))`,
+  'i'
+);
+
+/**
+ * 자유 형식 식사 설명을 음식 목록으로 변환
+ * 예: "공기밥 1공기, 된장찌개" → [{ name: 공기밥, amount: 1공기 }, { name: 된장찌개, amount: 1인분 }]
+ * - 쉼표, 줄바꿈, +, "그리고"로 음식 구분
+ * - "200g", "2개", "반공기" 같은 분량과 "170kcal" 같은 칼로리를 추출
+ * - 칼로리는 0으로 두고 ResponseProcessor의 참조 DB 교차 검증에서 채움
+ */
+export function parseMealDescription(description: string): MealTextParseResult {
+  const foods: ParsedTextFood[] = [];
+  const unmatched: string[] = [];
+
+  const segments = description
+    .split(/[,，、\n+·]|\s그리고\s/)
+    .map(segment => segment.trim())
+    .filter(segment => segment.length > 0);
+
+  for (const segment of segments) {
+    let rest = segment;
+
+    // 칼로리 추출
+    let calories = 0;
+    const calorieMatch = rest.match(CALORIE_PATTERN);
+    if (calorieMatch) {
+      calories = Number(calorieMatch[1]);
+      rest = rest.replace(calorieMatch[0], ' ');
+    }
+
+    // 분량 추출
+    let amount = '1인분';
+    const amountMatch = rest.match(AMOUNT_PATTERN);
+    if (amountMatch) {
+      amount = amountMatch[0].replace(/\s+/g, '');
+      rest = rest.replace(amountMatch[0], ' ');
+    }
+
+    const name = rest
+      .replace(/[()[\]]/g, ' ')
+      .replace(/\s+/g, ' ')
+      .trim();
+
+    if (!name) continue;
+
+    const matched = findNutritionReference(name) !== null;
+    if (!matched && calories === 0) {
+      unmatched.push(name);
+    }
+
+    foods.push({
+      name,
+      amount,
+      calories,
+      confidence: matched || calories > 0 ? MATCHED_CONFIDENCE : UNMATCHED_CONFIDENCE,
+      ...(calories > 0 && { sources: { calories: 'user' as const } })
+    });
+  }
+
+  return { foods, unmatched };
+}
@@ -229,16 +229,167 @@ export interface DuplicateValidationResult {
 }
 
 /**
- * 통합 식사 검증 결과 (시간대 + 중복)
+ * 통합 식사 검증 결과 (시간대 + 중복 + 사진 신선도)
  */
 export interface ComprehensiveMealValidationResult {
   isValid: boolean;
   timeValidation: MealValidationResult;
   duplicateValidation: DuplicateValidationResult;
+  freshnessValidation?: PhotoFreshnessResult; // 사진 업로드인 경우에만
   message: string;
   canProceed: boolean;
 }
 
+// ===== 사진 신선도 검증 관련 =====
+
+/**
+ * 오래된 사진 처리 방식
+ * reject: 업로드 거부, mark: 저장하되 늦은 인증(미인증)으로 표시, off: 검사하지 않음
+ */
+export type PhotoFreshnessPolicy = 'reject' | 'mark' | 'off';
+
+/**
+ * 사진 신선도 검증 설정
+ */
+export interface PhotoFreshnessConfig {
+  policy: PhotoFreshnessPolicy;
+  maxAgeMinutes: number;       // 촬영 후 이 시간이 지나면 오래된 사진
+  requireCaptureTime: boolean; // 촬영 시각(EXIF)이 없는 사진도 오래된 사진처럼 처리
+}
+
+/**
+ * 기본 신선도 설정
+ */
+export const DEFAULT_PHOTO_FRESHNESS_CONFIG: PhotoFreshnessConfig = {
+  policy: 'mark',
+  maxAgeMinutes: 180,
+  requireCaptureTime: false
+};
+
+// 카메라와 서버 시계 차이 허용 범위
+const CAPTURE_CLOCK_SKEW_MINUTES = 10;
+
+/**
+ * 사진 촬영 시각 (EXIF)
+ */
+export interface PhotoCaptureInput {
+  takenAt: string; // ISO 문자열 (offset이 있으면 포함)
+  localTime: Date; // getHours()가 촬영 현지 시각을 반환하는 Date
+}
+
+/**
+ * 사진 신선도 검증 결과
+ */
+export interface PhotoFreshnessResult {
+  status: 'fresh' | 'stale' | 'missing' | 'skipped';
+  isAccepted: boolean; // false면 업로드 거부
+  isLate: boolean;     // 저장하되 늦은 인증(미인증)으로 표시
+  capturedAt?: string;
+  ageMinutes?: number;
+  message: string;
+  reason?: string;
+}
+
+/**
+ * 사진 촬영 시각이 업로드 시각과 식사 시간대에 맞는지 검증
+ * @param mealType 기록할 식사 타입
+ * @param capture EXIF 촬영 시각 (없으면 null)
+ * @param uploadTime 업로드 시각 (기본값: 현재 시간)
+ * @param config 신선도 설정 (기본값: DEFAULT_PHOTO_FRESHNESS_CONFIG)
+ * @param timeSlots 시간대 설정 (기본값: DEFAULT_TIME_SLOTS)
+ * @returns 신선도 검증 결과
+ */
+export function validatePhotoFreshness(
+  mealType: MealType,
+  capture: PhotoCaptureInput | null,
+  uploadTime: Date = new Date(),
+  config: PhotoFreshnessConfig = DEFAULT_PHOTO_FRESHNESS_CONFIG,
+  timeSlots: TimeSlotConfig = DEFAULT_TIME_SLOTS
+): PhotoFreshnessResult {
+  if (config.policy === 'off') {
+    return { status: 'skipped', isAccepted: true, isLate: false, message: '사진 촬영 시각을 검사하지 않습니다.' };
+  }
+
+  const applyPolicy = (
+    status: 'stale' | 'missing',
+    message: string,
+    reason: string,
+    details: Pick<PhotoFreshnessResult, 'capturedAt' | 'ageMinutes'> = {}
+  ): PhotoFreshnessResult => ({
+    status,
+    isAccepted: config.policy !== 'reject',
+    isLate: config.policy === 'mark',
+    message: config.policy === 'reject' ? message : `${message} 늦은 인증으로 기록됩니다.`,
+    reason,
+    ...details
+  });
+
+  if (!capture) {
+    if (!config.requireCaptureTime) {
+      return { status: 'missing', isAccepted: true, isLate: false, message: '사진에 촬영 시각 정보가 없습니다.' };
+    }
+    return applyPolicy(
+      'missing',
+      '사진에 촬영 시각 정보가 없어 식단 인증을 할 수 없습니다.',
+      '방금 찍은 사진을 카메라 앱에서 바로 업로드해주세요.'
+    );
+  }
+
+  // offset이 없으면 서버 시간대 기준 현지 시각으로 간주
+  const hasOffset = /[+-]\d{2}:\d{2}$/.test(capture.takenAt);
+  const capturedInstant = hasOffset ? new Date(capture.takenAt) : capture.localTime;
+  const ageMinutes = Math.round((uploadTime.getTime() - capturedInstant.getTime()) / (1000 * 60));
+  const details = { capturedAt: capture.takenAt, ageMinutes };
+  const capturedLabel = capture.localTime.toLocaleString('ko-KR', {
+    month: 'numeric',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+
+  if (ageMinutes < -CAPTURE_CLOCK_SKEW_MINUTES) {
+    return applyPolicy(
+      'stale',
+      '사진 촬영 시각이 업로드 시각보다 늦습니다.',
+      `촬영 시각: ${capturedLabel}`,
+      details
+    );
+  }
+
+  if (ageMinutes > config.maxAgeMinutes) {
+    return applyPolicy(
+      'stale',
+      `${Math.floor(ageMinutes / 60)}시간 ${ageMinutes % 60}분 전에 찍은 사진입니다.`,
+      `식단 인증은 촬영 후 ${config.maxAgeMinutes}분 이내의 사진만 인정됩니다. (촬영 시각: ${capturedLabel})`,
+      details
+    );
+  }
+
+  // 스낵 외에는 촬영 시각도 해당 식사 시간대여야 함
+  if (mealType !== 'snack' && !getAllowedMealTypes(capture.localTime, timeSlots).includes(mealType)) {
+    const mealTypeKorean = {
+      breakfast: '아침식사',
+      lunch: '점심식사',
+      dinner: '저녁식사'
+    }[mealType];
+
+    return applyPolicy(
+      'stale',
+      `${mealTypeKorean} 시간대에 찍은 사진이 아닙니다.`,
+      `촬영 시각: ${capturedLabel}`,
+      details
+    );
+  }
+
+  return {
+    status: 'fresh',
+    isAccepted: true,
+    isLate: false,
+    message: '방금 찍은 사진입니다.',
+    ...details
+  };
+}
+
 /**
  * 특정 날짜에 사용자가 해당 식사 타입을 이미 업로드했는지 확인
  * @param userId 사용자 ID
@@ -309,18 +460,20 @@ export async function checkDuplicateMeal(
 }
 
 /**
- * 포괄적인 식사 업로드 검증 (시간대 + 중복)
+ * 포괄적인 식사 업로드 검증 (시간대 + 중복 + 사진 신선도)
  * @param userId 사용자 ID
  * @param mealType 식사 타입
  * @param date 검증할 날짜 (기본값: 현재 시간)
  * @param timeSlots 시간대 설정 (기본값: DEFAULT_TIME_SLOTS)
+ * @param photo 사진 업로드인 경우 촬영 시각 (신선도 검증)
  * @returns 포괄적인 검증 결과
  */
 export async function validateMealUpload(
   userId: string,
   mealType: MealType,
   date: Date = new Date(),
-  timeSlots: TimeSlotConfig = DEFAULT_TIME_SLOTS
+  timeSlots: TimeSlotConfig = DEFAULT_TIME_SLOTS,
+  photo?: { capture: PhotoCaptureInput | null; uploadedAt?: Date; config?: PhotoFreshnessConfig }
 ): Promise<ComprehensiveMealValidationResult> {
   // 1. 시간대 검증
   const timeValidation = validateMealTime(mealType, date, timeSlots);
@@ -339,14 +492,23 @@ export async function validateMealUpload(
     };
   }
 
-  // 3. 종합 결과 결정
-  const canProceed = timeValidation.isValid && !duplicateValidation.isDuplicate;
+  // 3. 사진 신선도 검증 (사진 업로드인 경우)
+  const freshnessValidation = photo
+    ? validatePhotoFreshness(mealType, photo.capture, photo.uploadedAt ?? date, photo.config, timeSlots)
+    : undefined;
+
+  // 4. 종합 결과 결정
+  const canProceed = timeValidation.isValid &&
+    !duplicateValidation.isDuplicate &&
+    (freshnessValidation?.isAccepted ?? true);
   
   let message: string;
   if (!timeValidation.isValid) {
     message = timeValidation.message;
   } else if (duplicateValidation.isDuplicate) {
     message = duplicateValidation.message;
+  } else if (freshnessValidation && !freshnessValidation.isAccepted) {
+    message = freshnessValidation.message;
   } else {
     message = '업로드 가능합니다!';
   }
@@ -355,11 +517,42 @@ export async function validateMealUpload(
     isValid: canProceed,
     timeValidation,
     duplicateValidation,
+    freshnessValidation,
     message,
     canProceed
   };
 }
 
+/**
+ * 과거 식사 가져오기 검증 (중복만 확인)
+ * 촬영 시각 기준으로 기록하므로 현재 시간대 제한(validateMealTime)은 적용하지 않음
+ * @param userId 사용자 ID
+ * @param mealType 식사 타입
+ * @param mealDate 식사 날짜 (YYYY-MM-DD 형식)
+ * @returns 포괄적인 검증 결과 (timeValidation은 항상 통과)
+ */
+export async function validateHistoricalMealUpload(
+  userId: string,
+  mealType: MealType,
+  mealDate: string
+): Promise<ComprehensiveMealValidationResult> {
+  const timeValidation: MealValidationResult = {
+    isValid: true,
+    allowedMealTypes: ['breakfast', 'lunch', 'dinner', 'snack'],
+    currentMealType: mealType,
+    message: '과거 식사 기록은 시간대 제한 없이 저장할 수 있습니다.'
+  };
+  const duplicateValidation = await checkDuplicateMeal(userId, mealType, mealDate);
+
+  return {
+    isValid: !duplicateValidation.isDuplicate,
+    timeValidation,
+    duplicateValidation,
+    message: duplicateValidation.isDuplicate ? duplicateValidation.message : '업로드 가능합니다!',
+    canProceed: !duplicateValidation.isDuplicate
+  };
+}
+
 /**
  * 특정 날짜의 사용자 식사 기록 요약
  * @param userId 사용자 ID
@@ -45,17 +45,30 @@ export interface CoupleSharedMeal {
   partner_name?: string;
 }
 
+// 식사 저장 옵션
+export interface SaveMealOptions {
+  uploadResult?: MultiUploadResult;
+  imageHash?: string;
+  perceptualHash?: string;
+  reusedFromMealId?: string; // 이전 식사 사진과 거의 같은 사진이면 해당 식사 ID
+  mealDate?: string; // 없으면 저장 날짜 (DB 기본값)
+  photoFreshness?: 'fresh' | 'late' | 'missing'; // 사진 신선도 검증 결과 (late: 늦은 인증)
+  photoTakenAt?: string; // 사용자가 동의한 경우에만 전달되는 EXIF 촬영 시각
+}
+
 /**
  * 분석 결과를 데이터베이스에 저장
  */
 export async function saveMealAnalysis(
   userId: string,
   analysisResult: FoodAnalysisResult,
-  uploadResult?: MultiUploadResult,
-  originalImageHash?: string
+  options: SaveMealOptions = {}
 ): Promise<{ success: boolean; mealId?: string; error?: string }> {
+  const { uploadResult, imageHash, perceptualHash, reusedFromMealId, mealDate, photoFreshness, photoTakenAt } = options;
+
   try {
-    const mealId = crypto.randomUUID();
+    // 이미지가 있으면 업로드한 폴더와 같은 ID로 저장 (users/{userId}/meals/{mealId}/)
+    const mealId = uploadResult?.mealId ?? crypto.randomUUID();
     
     const record: MealAnalysisRecord = {
       id: mealId,
@@ -63,10 +76,22 @@ export async function saveMealAnalysis(
       analysis_result: analysisResult,
       total_calories: analysisResult.total_calories,
       meal_type: analysisResult.meal_type || 'other',
-      image_hash: originalImageHash,
+      image_hash: imageHash,
+      perceptual_hash: perceptualHash,
+      possibly_reused: !!reusedFromMealId,
+      reused_from_meal_id: reusedFromMealId,
+      photo_freshness: photoFreshness,
+      photo_taken_at: photoTakenAt,
       processing_time: uploadResult?.totalUploadTime,
       image_size: uploadResult?.totalSize,
-      image_url: uploadResult?.results.original?.publicUrl,
+      image_path: uploadResult?.results.original?.path,
+      thumbnail_path: uploadResult?.results.thumbnail?.path,
+      image_placeholder: uploadResult?.placeholder?.dataUrl,
+      image_dominant_color: uploadResult?.placeholder?.dominantColor,
+      nutritional_info: analysisResult.nutritional_info,
+      input_mode: analysisResult.metadata?.input_mode ?? 'photo',
+      is_mock_data: analysisResult.metadata?.is_mock_data ?? false,
+      ...(mealDate && { meal_date: mealDate }),
       created_at: new Date().toISOString(),
       updated_at: new Date().toISOString()
     };
@@ -202,7 +227,8 @@ export async function getMealStatistics(
       throw new Error(historyResult.error || 'Failed to get meal history');
     }
 
-    const meals = historyResult.data;
+    // 실제 AI 분석이 아닌 mock 결과는 통계에서 제외
+    const meals = historyResult.data.filter(meal => !meal.is_mock_data);
 
     // 통계 계산
     const totalMeals = meals.length;
@@ -0,0 +1,169 @@
+import { NutritionFacts, NutritionSource } from '@/types/food-analysis';
+import { scaleNutrition } from './nutrition';
+import referenceData from './data/korean-food-nutrition.json';
+
+// 내장 영양 DB 항목 (1회 제공량 기준)
+export interface NutritionReferenceItem {
+  id: string;
+  name: string;
+  aliases: string[];
+  category: 'dish' | 'ingredient';
+  serving: {
+    label: string;
+    grams: number; // g 또는 ml
+    count: number;
+    unit: string;
+  };
+  calories: number;
+  nutrition: NutritionFacts;
+}
+
+// 참조 DB 교차 검증 결과
+export interface ReferenceCrossCheckResult {
+  calories: number;
+  nutrition?: NutritionFacts;
+  calorieSource: NutritionSource;
+  nutritionSource?: NutritionSource;
+  reference?: NutritionReferenceItem;
+  servingMultiplier?: number;
+  expectedCalories?: number;
+  warnings: string[];
+}
+
+// 예상 칼로리 대비 허용 비율 (벗어나면 보정)
+const CORRECTION_RATIO = { min: 0.5, max: 2 };
+// 예상 칼로리 대비 주의 비율 (벗어나면 경고만)
+const WARNING_RATIO = { min: 0.67, max: 1.5 };
+// 분량 배수 허용 범위
+const SERVING_MULTIPLIER_RANGE = { min: 0.25, max: 5 };
+
+// 분량 단위 (긴 단위를 먼저 검사)
+export const SERVING_UNITS = ['인분', '공기', '그릇', '접시', '조각', '봉지', '스푼', '마리', '개', '장', '줄', '잔', '컵', '모', '캔', '병'];
+
+export const NUTRITION_REFERENCE_VERSION: string = referenceData.version;
+export const NUTRITION_REFERENCE_SOURCE: string = referenceData.source;
+
+const referenceItems = referenceData.foods as NutritionReferenceItem[];
+
+// 이름/별칭 → 항목 인덱스
+const referenceIndex = new Map<string, NutritionReferenceItem>();
+for (const item of referenceItems) {
+  for (const key of [item.name, ...item.aliases]) {
+    referenceIndex.set(normalizeFoodName(key), item);
+  }
+}
+
+function normalizeFoodName(name: string): string {
+  return name.replace(/\([^)]*\)/g, '').replace(/\s+/g, '').toLowerCase();
+}
+
+/**
+ * 음식명으로 참조 항목 검색
+ * 정확히 일치하는 이름/별칭을 우선하고, 없으면 음식명에 포함된 가장 긴 이름을 사용
+ * (예: "돼지고기 김치찌개" → 김치찌개)
+ */
+export function findNutritionReference(foodName: string): NutritionReferenceItem | null {
+  const normalized = normalizeFoodName(foodName);
+  if (!normalized) return null;
+
+  const exact = referenceIndex.get(normalized);
+  if (exact) return exact;
+
+  let bestMatch: NutritionReferenceItem | null = null;
+  let bestLength = 1; // 한 글자 별칭(예: "밥")은 부분 일치에 사용하지 않음
+  for (const [key, item] of referenceIndex) {
+    if (key.length > bestLength && normalized.includes(key)) {
+      bestMatch = item;
+      bestLength = key.length;
+    }
+  }
+
+  return bestMatch;
+}
+
+/**
+ * 분량 문자열에서 1회 제공량 대비 배수 추정
+ * "1공기 (약 150g)"처럼 무게가 있으면 무게 기준, 없으면 개수 기준, 둘 다 없으면 1
+ */
+export function estimateServingMultiplier(amount: string, reference: NutritionReferenceItem): number {
+  let multiplier = 1;
+
+  const weightMatch = amount.match(/(\d+(?:\.\d+)?)\s*(g|ml)(?![a-z])/i);
+  const countMatch = amount.match(new RegExp(`(\\d+(?:\\.\\d+)?)\\s*(${SERVING_UNITS.join('|')})`));
+
+  if (weightMatch) {
+    multiplier = Number(weightMatch[1]) / reference.serving.grams;
+  } else if (countMatch) {
+    const count = Number(countMatch[1]);
+    multiplier = countMatch[2] === reference.serving.unit
+      ? count / reference.serving.count
+      : count;
+  } else if (/반/.test(amount)) {
+    multiplier = 0.5;
+  }
+
+  if (!Number.isFinite(multiplier) || multiplier <= 0) return 1;
+  return Math.min(SERVING_MULTIPLIER_RANGE.max, Math.max(SERVING_MULTIPLIER_RANGE.min, multiplier));
+}
+
+/**
+ * AI가 추정한 칼로리/영양 성분을 내장 영양 DB와 교차 검증
+ * - 예상치의 0.5~2배를 벗어나면 참조 값으로 보정
+ * - 0.67~1.5배를 벗어나면 경고만 남김
+ * - 영양 성분이 없거나 칼로리가 보정된 경우 참조 영양 성분으로 대체
+ */
+export function crossCheckWithReference(
+  foodName: string,
+  amount: string,
+  calories: number,
+  nutrition?: unknown
+): ReferenceCrossCheckResult {
+  const hasNutrition = !!nutrition && typeof nutrition === 'object';
+  const reference = findNutritionReference(foodName);
+
+  if (!reference) {
+    return {
+      calories,
+      nutrition: hasNutrition ? nutrition as NutritionFacts : undefined,
+      calorieSource: 'ai',
+      nutritionSource: hasNutrition ? 'ai' : undefined,
+      warnings: []
+    };
+  }
+
+  const warnings: string[] = [];
+  const servingMultiplier = estimateServingMultiplier(amount, reference);
+  const expectedCalories = Math.round(reference.calories * servingMultiplier);
+  const referenceNutrition = scaleNutrition(reference.nutrition, servingMultiplier);
+
+  let calorieSource: NutritionSource = 'ai';
+  let correctedCalories = calories;
+
+  if (calories === 0) {
+    correctedCalories = expectedCalories;
+    calorieSource = 'reference';
+    warnings.push(`"${foodName}"의 칼로리가 없어 참조 DB 값 사용: ${expectedCalories}kcal`);
+  } else {
+    const ratio = calories / expectedCalories;
+    if (ratio < CORRECTION_RATIO.min || ratio > CORRECTION_RATIO.max) {
+      correctedCalories = expectedCalories;
+      calorieSource = 'reference';
+      warnings.push(`"${foodName}" 칼로리 이상치 보정 (참조 DB "${reference.name}" ${reference.serving.label} 기준): ${calories}kcal → ${expectedCalories}kcal`);
+    } else if (ratio < WARNING_RATIO.min || ratio > WARNING_RATIO.max) {
+      warnings.push(`"${foodName}" 칼로리가 참조 DB 예상치와 차이가 큼: ${calories}kcal (예상 ${expectedCalories}kcal)`);
+    }
+  }
+
+  const useReferenceNutrition = !hasNutrition || calorieSource === 'reference';
+
+  return {
+    calories: correctedCalories,
+    nutrition: useReferenceNutrition ? referenceNutrition : nutrition as NutritionFacts,
+    calorieSource,
+    nutritionSource: useReferenceNutrition ? 'reference' : 'ai',
+    reference,
+    servingMultiplier: Number(servingMultiplier.toFixed(2)),
+    expectedCalories,
+    warnings
+  };
+}
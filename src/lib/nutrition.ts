@@ -0,0 +1,120 @@
+import { FoodItem, NutritionFacts } from '@/types/food-analysis';
+
+// 영양 성분 키 목록 (표시 순서)
+export const NUTRITION_KEYS: (keyof NutritionFacts)[] = [
+  'protein_g',
+  'carbs_g',
+  'fat_g',
+  'sugar_g',
+  'fiber_g',
+  'sodium_mg'
+];
+
+// 화면 표시용 라벨/단위
+export const NUTRITION_LABELS: Record<keyof NutritionFacts, { label: string; unit: string }> = {
+  protein_g: { label: '단백질', unit: 'g' },
+  carbs_g: { label: '탄수화물', unit: 'g' },
+  fat_g: { label: '지방', unit: 'g' },
+  sugar_g: { label: '당류', unit: 'g' },
+  fiber_g: { label: '식이섬유', unit: 'g' },
+  sodium_mg: { label: '나트륨', unit: 'mg' }
+};
+
+// 음식 1개 기준 허용 범위 (이 범위를 벗어나면 비현실적인 값으로 간주)
+export const NUTRITION_LIMITS: Record<keyof NutritionFacts, number> = {
+  protein_g: 200,
+  carbs_g: 400,
+  fat_g: 200,
+  sugar_g: 300,
+  fiber_g: 100,
+  sodium_mg: 10000
+};
+
+// 하루 권장 섭취 기준 (당류/나트륨은 상한선)
+export const DEFAULT_DAILY_NUTRITION_GOALS: NutritionFacts = {
+  protein_g: 60,
+  carbs_g: 300,
+  fat_g: 50,
+  sugar_g: 50,
+  fiber_g: 25,
+  sodium_mg: 2000
+};
+
+// 초과 시 경고해야 하는 항목 (상한선 기준)
+export const NUTRITION_UPPER_LIMIT_KEYS: (keyof NutritionFacts)[] = ['sugar_g', 'sodium_mg'];
+
+// 1g당 칼로리 (Atwater 계수)
+export const KCAL_PER_GRAM = {
+  protein: 4,
+  carbs: 4,
+  fat: 9
+} as const;
+
+export function emptyNutrition(): NutritionFacts {
+  return {
+    protein_g: 0,
+    carbs_g: 0,
+    fat_g: 0,
+    sugar_g: 0,
+    fiber_g: 0,
+    sodium_mg: 0
+  };
+}
+
+/**
+ * 다량 영양소 기준 칼로리 계산 (단백질 4 / 탄수화물 4 / 지방 9 kcal)
+ */
+export function calculateMacroCalories(nutrition: NutritionFacts): number {
+  return (
+    nutrition.protein_g * KCAL_PER_GRAM.protein +
+    nutrition.carbs_g * KCAL_PER_GRAM.carbs +
+    nutrition.fat_g * KCAL_PER_GRAM.fat
+  );
+}
+
+/**
+ * 영양 성분 값 반올림 (g은 소수점 1자리, mg은 정수)
+ */
+export function roundNutrition(nutrition: NutritionFacts): NutritionFacts {
+  const rounded = emptyNutrition();
+  for (const key of NUTRITION_KEYS) {
+    rounded[key] = key === 'sodium_mg'
+      ? Math.round(nutrition[key])
+      : Number(nutrition[key].toFixed(1));
+  }
+  return rounded;
+}
+
+/**
+ * 영양 성분 배수 적용 (분량 변경 시)
+ */
+export function scaleNutrition(nutrition: NutritionFacts, multiplier: number): NutritionFacts {
+  const scaled = emptyNutrition();
+  for (const key of NUTRITION_KEYS) {
+    scaled[key] = (Number(nutrition[key]) || 0) * multiplier;
+  }
+  return roundNutrition(scaled);
+}
+
+/**
+ * 여러 영양 성분 합산
+ */
+export function sumNutrition(items: (NutritionFacts | undefined | null)[]): NutritionFacts {
+  const total = emptyNutrition();
+  for (const item of items) {
+    if (!item) continue;
+    for (const key of NUTRITION_KEYS) {
+      total[key] += Number(item[key]) || 0;
+    }
+  }
+  return roundNutrition(total);
+}
+
+/**
+ * 음식 목록의 영양 성분 합계 (nutrition 정보가 하나도 없으면 undefined)
+ */
+export function sumFoodNutrition(foods: FoodItem[]): NutritionFacts | undefined {
+  const withNutrition = foods.filter(food => food.nutrition);
+  if (withNutrition.length === 0) return undefined;
+  return sumNutrition(withNutrition.map(food => food.nutrition));
+}
@@ -0,0 +1,269 @@
+import { createSupabaseAdmin } from './supabase';
+import { responseProcessor } from './response-processor';
+import { recordMealAnalysis } from './meal-recording';
+import { saveMealCorrection } from './meal-corrections';
+import { ComprehensiveMealValidationResult, PhotoCaptureInput } from './meal-validation';
+import { MultiUploadResult } from './storage';
+import { MealType } from '@/types/database';
+import {
+  FoodAnalysisResult,
+  MealCorrectionInput,
+  PendingMealConfirmation,
+  PendingMealRecord
+} from '@/types/food-analysis';
+
+// 확인 대기 결과 보관 기간
+export const PENDING_MEAL_TTL_MS = 1000 * 60 * 60 * 24; // 24시간
+
+export interface ConfirmPendingMealResult {
+  success: boolean;
+  data?: {
+    meal_id: string;
+    result: FoodAnalysisResult;
+    warnings: string[];
+  };
+  validation?: ComprehensiveMealValidationResult;
+  analysis?: FoodAnalysisResult;
+  error?: string;
+  code?: 'NOT_FOUND' | 'EXPIRED' | 'INVALID_CORRECTION' | 'VALIDATION_FAILED' | 'DATABASE_ERROR';
+}
+
+/**
+ * 기준 신뢰도 미만인 음식의 index 목록
+ */
+export function findUncertainFoods(result: FoodAnalysisResult, threshold: number): number[] {
+  return result.foods
+    .map((food, index) => (food.confidence < threshold ? index : -1))
+    .filter(index => index >= 0);
+}
+
+/**
+ * 저장 전 확인이 필요한지 여부 (전체 분석 신뢰도 기준)
+ */
+export function needsConfirmation(result: FoodAnalysisResult, threshold: number): boolean {
+  return result.analysis_confidence < threshold;
+}
+
+function toConfirmation(record: PendingMealRecord): PendingMealConfirmation {
+  return {
+    id: record.id,
+    reason: 'low_confidence',
+    threshold: Number(record.threshold),
+    analysis_confidence: record.analysis_result.analysis_confidence,
+    uncertain_food_indices: record.uncertain_food_indices,
+    expires_at: record.expires_at
+  };
+}
+
+/**
+ * 신뢰도가 낮은 분석 결과를 확인 대기 상태로 보관
+ */
+export async function createPendingMeal(
+  userId: string,
+  analysisResult: FoodAnalysisResult,
+  options: {
+    threshold: number;
+    imageHash?: string;
+    perceptualHash?: string;
+    photoCapture?: PhotoCaptureInput | null;
+    uploadResult?: MultiUploadResult;
+    uploadedAt?: Date; // 원래 업로드 시각 (확인 시 검증 기준, 없으면 현재)
+  }
+): Promise<{ success: boolean; data?: PendingMealConfirmation; error?: string }> {
+  try {
+    const supabase = createSupabaseAdmin();
+    const now = Date.now();
+
+    const { data, error } = await supabase
+      .from('pending_meals')
+      .insert([{
+        user_id: userId,
+        analysis_result: analysisResult,
+        image_hash: options.imageHash,
+        perceptual_hash: options.perceptualHash,
+        photo_capture: options.photoCapture,
+        upload_result: options.uploadResult,
+        uncertain_food_indices: findUncertainFoods(analysisResult, options.threshold),
+        threshold: options.threshold,
+        created_at: (options.uploadedAt ?? new Date(now)).toISOString(),
+        expires_at: new Date(now + PENDING_MEAL_TTL_MS).toISOString()
+      }])
+      .select('*')
+      .single();
+
+    if (error) {
+      throw new Error(`확인 대기 결과 저장 실패: ${error.message}`);
+    }
+
+    return { success: true, data: toConfirmation(data as PendingMealRecord) };
+  } catch (error) {
+    console.error('Create pending meal error:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+}
+
+/**
+ * 확인 대기 결과를 식사로 저장
+ * - 수정 사항이 있으면 적용 후 저장 (수정 없이 확인만 해도 됨)
+ * - 식사 규칙(시간대/중복/신선도)은 일반 저장과 같지만 확인 시각이 아닌 원래 업로드 시각 기준으로 검증
+ */
+export async function confirmPendingMeal(
+  userId: string,
+  pendingId: string,
+  corrections: MealCorrectionInput | undefined,
+  context: { clientIP: string; userAgent: string }
+): Promise<ConfirmPendingMealResult> {
+  const startTime = Date.now();
+
+  try {
+    const supabase = createSupabaseAdmin();
+
+    // 1. 확인 대기 결과 조회
+    const { data, error } = await supabase
+      .from('pending_meals')
+      .select('*')
+      .eq('id', pendingId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`확인 대기 결과 조회 실패: ${error.message}`);
+    }
+
+    if (!data) {
+      return { success: false, error: '확인 대기 중인 분석 결과를 찾을 수 없습니다.', code: 'NOT_FOUND' };
+    }
+
+    const pending = data as PendingMealRecord;
+    if (new Date(pending.expires_at).getTime() < Date.now()) {
+      await supabase.from('pending_meals').delete().eq('id', pendingId);
+      return { success: false, error: '확인 기간이 지났습니다. 다시 분석해주세요.', code: 'EXPIRED' };
+    }
+
+    // 2. 수정 사항 검증 (저장은 AI 원본으로 하고 수정은 식사 저장 후 수정 이력과 함께 적용)
+    const original: FoodAnalysisResult = {
+      ...pending.analysis_result,
+      metadata: {
+        ...pending.analysis_result.metadata,
+        user_confirmed: true,
+        confirmed_at: new Date().toISOString()
+      }
+    };
+    let result = original;
+    let warnings: string[] = [];
+    if (corrections) {
+      const validationResult = responseProcessor.applyCorrections(original, corrections, startTime);
+      if (!validationResult.isValid || !validationResult.corrected_data) {
+        return {
+          success: false,
+          error: validationResult.errors.join(', ') || '수정 사항을 적용할 수 없습니다.',
+          code: 'INVALID_CORRECTION'
+        };
+      }
+      result = validationResult.corrected_data as FoodAnalysisResult;
+    }
+
+    // 3. 식사 저장
+    const recordResult = await recordMealAnalysis(userId, original, {
+      uploadResult: pending.upload_result as MultiUploadResult | undefined,
+      imageHash: pending.image_hash,
+      perceptualHash: pending.perceptual_hash,
+      // 신선도는 확인 시각이 아닌 원래 업로드 시각 기준
+      photoCapture: pending.photo_capture
+        ? { takenAt: pending.photo_capture.takenAt, localTime: new Date(pending.photo_capture.localTime) }
+        : pending.photo_capture,
+      uploadedAt: new Date(pending.created_at),
+      // 시간대/중복 검사와 식사 날짜도 확인 시각이 아닌 업로드 시각 기준 (확인 대기는 24시간 유효)
+      mealTime: new Date(pending.created_at),
+      // 수정으로 식사 타입을 바꾸면 바뀐 타입으로 검증
+      mealType: result.meal_type as MealType | undefined,
+      clientIP: context.clientIP,
+      userAgent: context.userAgent
+    });
+
+    if (recordResult.status === 'rejected') {
+      return {
+        success: false,
+        error: recordResult.validation.message,
+        validation: recordResult.validation,
+        analysis: result,
+        code: 'VALIDATION_FAILED'
+      };
+    }
+
+    if (recordResult.status === 'failed') {
+      throw new Error(recordResult.error);
+    }
+
+    // 4. 수정 사항 적용 (AI 원본은 meal_corrections에 보존되어 수정 통계에 포함)
+    if (corrections) {
+      const correctionResult = await saveMealCorrection(userId, recordResult.mealId, corrections, {
+        mealTime: new Date(pending.created_at)
+      });
+      if (correctionResult.success && correctionResult.data) {
+        result = correctionResult.data.result;
+        warnings = correctionResult.data.warnings;
+      } else {
+        // 식사는 이미 저장됐으므로 AI 원본 결과로 응답하고 다시 수정할 수 있도록 안내
+        console.error('Failed to save pending meal correction:', correctionResult.error);
+        result = original;
+        warnings = ['수정 사항을 저장하지 못했습니다. 식사 기록에서 다시 수정해주세요.'];
+      }
+    }
+
+    // 5. 확인 완료된 대기 결과 삭제
+    const { error: deleteError } = await supabase
+      .from('pending_meals')
+      .delete()
+      .eq('id', pendingId);
+
+    if (deleteError) {
+      console.error('Failed to delete confirmed pending meal:', deleteError);
+    }
+
+    return {
+      success: true,
+      data: { meal_id: recordResult.mealId, result, warnings },
+      validation: recordResult.validation
+    };
+  } catch (error) {
+    console.error('Confirm pending meal error:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      code: 'DATABASE_ERROR'
+    };
+  }
+}
+
+/**
+ * 확인 대기 결과 폐기 (저장하지 않음)
+ */
+export async function discardPendingMeal(
+  userId: string,
+  pendingId: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const supabase = createSupabaseAdmin();
+    const { error } = await supabase
+      .from('pending_meals')
+      .delete()
+      .eq('id', pendingId)
+      .eq('user_id', userId);
+
+    if (error) {
+      throw new Error(`확인 대기 결과 삭제 실패: ${error.message}`);
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Discard pending meal error:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+}
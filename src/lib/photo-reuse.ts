@@ -0,0 +1,57 @@
+import { createSupabaseAdmin } from './supabase';
+import { hammingDistance } from './image-processor';
+
+// 이 거리 이하면 같은 사진으로 판단 (64bit dHash 기준)
+export const PHOTO_REUSE_DISTANCE_THRESHOLD = 10;
+
+// 최근 기록 중 비교할 최대 식사 수
+const PHOTO_REUSE_LOOKBACK_LIMIT = 1000;
+
+export interface PhotoReuseCheckResult {
+  isPossiblyReused: boolean;
+  similarMeal?: {
+    id: string;
+    created_at: string;
+    distance: number;
+  };
+}
+
+/**
+ * 사용자의 이전 식사 사진 중 지각 해시가 비슷한 사진이 있는지 확인
+ * 재인코딩/크롭한 같은 사진으로 인증하는 경우를 감지 (저장은 막지 않고 표시만 함)
+ */
+export async function checkReusedPhoto(
+  userId: string,
+  perceptualHash: string
+): Promise<PhotoReuseCheckResult> {
+  try {
+    const supabase = createSupabaseAdmin();
+    const { data: meals, error } = await supabase
+      .from('meals')
+      .select('id, perceptual_hash, created_at')
+      .eq('user_id', userId)
+      .not('perceptual_hash', 'is', null)
+      .order('created_at', { ascending: false })
+      .limit(PHOTO_REUSE_LOOKBACK_LIMIT);
+
+    if (error) {
+      throw new Error(`이전 사진 조회 실패: ${error.message}`);
+    }
+
+    let similarMeal: PhotoReuseCheckResult['similarMeal'];
+    for (const meal of meals || []) {
+      if (meal.perceptual_hash.length !== perceptualHash.length) continue;
+
+      const distance = hammingDistance(perceptualHash, meal.perceptual_hash);
+      if (distance <= PHOTO_REUSE_DISTANCE_THRESHOLD && (!similarMeal || distance < similarMeal.distance)) {
+        similarMeal = { id: meal.id, created_at: meal.created_at, distance };
+      }
+    }
+
+    return { isPossiblyReused: !!similarMeal, similarMeal };
+  } catch (error) {
+    // 재사용 검사 실패는 저장을 막지 않음
+    console.error('Photo reuse check error:', error);
+    return { isPossiblyReused: false };
+  }
+}
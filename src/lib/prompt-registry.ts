@@ -0,0 +1,233 @@
+import crypto from 'crypto';
+import { ResolvedAnalysisOptions } from '@/types/food-analysis';
+
+// 등록된 분석 프롬프트 (id는 "이름@버전", 결과 metadata.prompt_version에 저장)
+export interface AnalysisPromptDefinition {
+  id: string;
+  name: string;
+  version: string;
+  description: string;
+  build: (options: ResolvedAnalysisOptions) => string;
+}
+
+// 프롬프트별 추가 지침 (언어별)
+interface PromptGuidance {
+  ko: string[];
+  en: string[];
+}
+
+const NO_GUIDANCE: PromptGuidance = { ko: [], en: [] };
+
+// v2: 분량을 g 단위로 추정하고 불확실한 음식은 낮은 신뢰도를 주도록 유도 (칼로리 오차와 신뢰도 보정 개선 실험)
+const PORTION_GUIDANCE: PromptGuidance = {
+  ko: [
+    '분량은 그릇, 접시, 수저 크기를 기준으로 g 또는 ml 단위로 추정해서 amount에 함께 적어주세요.',
+    '음식이 가려져 있거나 종류가 확실하지 않으면 confidence를 0.6 이하로 낮춰주세요.'
+  ],
+  en: [
+    'Estimate portions in grams or ml using the size of bowls, plates and utensils, and include them in amount.',
+    'If a food is partly hidden or its type is uncertain, set its confidence to 0.6 or lower.'
+  ]
+};
+
+export const ANALYSIS_PROMPTS: AnalysisPromptDefinition[] = [
+  {
+    id: 'food-analysis@v1',
+    name: 'food-analysis',
+    version: 'v1',
+    description: '상세 수준/언어별 기본 프롬프트',
+    build: options => buildFoodAnalysisTemplate(options, NO_GUIDANCE)
+  },
+  {
+    id: 'food-analysis@v2',
+    name: 'food-analysis',
+    version: 'v2',
+    description: '분량(g) 추정과 불확실한 음식의 신뢰도 하향 지침 추가',
+    build: options => buildFoodAnalysisTemplate(options, PORTION_GUIDANCE)
+  }
+];
+
+export const DEFAULT_ANALYSIS_PROMPT_ID = 'food-analysis@v1';
+
+/**
+ * 프롬프트 조회 (알 수 없는 id면 에러)
+ */
+export function getAnalysisPrompt(promptId: string): AnalysisPromptDefinition {
+  const prompt = ANALYSIS_PROMPTS.find(definition => definition.id === promptId);
+  if (!prompt) {
+    throw new Error(`알 수 없는 분석 프롬프트입니다: ${promptId}`);
+  }
+  return prompt;
+}
+
+// 비율 기반 배정 항목
+export interface PromptRolloutEntry {
+  promptId: string;
+  weight: number;
+}
+
+/**
+ * 설정(ANALYSIS_PROMPT_ROLLOUT)에 따른 프롬프트 배정 비율
+ * 형식: "food-analysis@v1:90,food-analysis@v2:10" (없으면 기본 프롬프트 100%)
+ */
+export function getPromptRollout(): PromptRolloutEntry[] {
+  const rollout = process.env.ANALYSIS_PROMPT_ROLLOUT;
+  if (!rollout) {
+    return [{ promptId: DEFAULT_ANALYSIS_PROMPT_ID, weight: 100 }];
+  }
+
+  const entries = rollout.split(',').map(entry => {
+    const [promptId, weightText] = entry.trim().split(':');
+    const weight = Number(weightText);
+    getAnalysisPrompt(promptId);
+    if (!Number.isFinite(weight) || weight < 0) {
+      throw new Error(`ANALYSIS_PROMPT_ROLLOUT 비율이 올바르지 않습니다: ${entry}`);
+    }
+    return { promptId, weight };
+  });
+
+  if (entries.every(entry => entry.weight === 0)) {
+    throw new Error('ANALYSIS_PROMPT_ROLLOUT에 비율이 0보다 큰 프롬프트가 하나 이상 필요합니다.');
+  }
+  return entries;
+}
+
+/**
+ * 설정(ANALYSIS_PROMPT_USER_OVERRIDES)에 따른 사용자별 고정 배정
+ * 형식: "<user-id>=food-analysis@v2,<user-id>=food-analysis@v1"
+ */
+export function getPromptUserOverrides(): Record<string, string> {
+  const overrides: Record<string, string> = {};
+  const value = process.env.ANALYSIS_PROMPT_USER_OVERRIDES;
+  if (!value) return overrides;
+
+  for (const entry of value.split(',')) {
+    const [userId, promptId] = entry.trim().split('=');
+    if (!userId || !promptId) {
+      throw new Error(`ANALYSIS_PROMPT_USER_OVERRIDES 형식이 올바르지 않습니다: ${entry}`);
+    }
+    getAnalysisPrompt(promptId);
+    overrides[userId] = promptId;
+  }
+  return overrides;
+}
+
+/**
+ * 사용자에게 프롬프트 배정 (사용자별 고정 배정 → 비율 기반 배정 순)
+ * 같은 사용자는 배정 비율이 바뀌지 않는 한 항상 같은 프롬프트를 받음
+ */
+export function assignAnalysisPrompt(userId: string): string {
+  const override = getPromptUserOverrides()[userId];
+  if (override) {
+    return override;
+  }
+
+  const rollout = getPromptRollout();
+  const totalWeight = rollout.reduce((sum, entry) => sum + entry.weight, 0);
+  const bucket = parseInt(crypto.createHash('sha256').update(`analysis-prompt:${userId}`).digest('hex').slice(0, 8), 16) / 0x100000000 * totalWeight;
+
+  let cumulative = 0;
+  for (const entry of rollout) {
+    cumulative += entry.weight;
+    if (bucket < cumulative) {
+      return entry.promptId;
+    }
+  }
+  return rollout[rollout.length - 1].promptId;
+}
+
+/**
+ * 상세 수준과 언어에 맞는 분석 프롬프트 템플릿
+ */
+function buildFoodAnalysisTemplate(options: ResolvedAnalysisOptions, guidance: PromptGuidance): string {
+  return options.preferred_language === 'en'
+    ? buildEnglishPrompt(options, guidance.en)
+    : buildKoreanPrompt(options, guidance.ko);
+}
+
+function buildKoreanPrompt({ detail_level, include_nutrition }: ResolvedAnalysisOptions, guidance: string[]): string {
+  const comprehensive = detail_level === 'comprehensive';
+  const foodFields = [
+    '      "name": "음식 이름"',
+    '      "calories": 칼로리',
+    '      "amount": "분량"',
+    '      "confidence": 0.8',
+    ...(include_nutrition ? [`      "nutrition": {
+        "protein_g": 단백질(g),
+        "carbs_g": 탄수화물(g),
+        "fat_g": 지방(g),
+        "sugar_g": 당류(g),
+        "fiber_g": 식이섬유(g),
+        "sodium_mg": 나트륨(mg)
+      }`] : []),
+    ...(comprehensive ? [
+      '      "ingredients": ["주요 재료"]',
+      '      "cooking_method": "조리법 (예: 볶음, 구이, 찜)"'
+    ] : [])
+  ];
+
+  return `
+이미지에 있는 음식을 분석해주세요.
+
+다음 JSON 형식으로만 응답해주세요:
+
+{
+  "foods": [
+    {
+${foodFields.join(',\n')}
+    }
+  ],
+  "total_calories": 총칼로리,
+  "meal_type": "snack",
+  "analysis_confidence": 0.8${comprehensive ? `,
+  "health_notes": ["식사에 대한 짧은 건강 메모 (최대 3개)"]` : ''}
+}
+
+이미지에 음식이 보이면 반드시 foods 배열에 적어도 하나는 포함해주세요.
+${guidance.map(line => `${line}\n`).join('')}${include_nutrition ? 'nutrition은 해당 분량 기준으로 추정하고, 단백질×4 + 탄수화물×4 + 지방×9가 칼로리와 비슷해야 합니다.\n' : ''}${detail_level === 'basic' ? '설명 없이 간결하게 응답해주세요.\n' : ''}JSON 외의 다른 텍스트는 포함하지 마세요.
+`;
+}
+
+function buildEnglishPrompt({ detail_level, include_nutrition }: ResolvedAnalysisOptions, guidance: string[]): string {
+  const comprehensive = detail_level === 'comprehensive';
+  const foodFields = [
+    '      "name": "food name in English"',
+    '      "name_ko": "standard Korean name of the dish (e.g. 김치찌개)"',
+    '      "calories": calories',
+    '      "amount": "portion in English with grams (e.g. 1 bowl (210g))"',
+    '      "confidence": 0.8',
+    ...(include_nutrition ? [`      "nutrition": {
+        "protein_g": protein (g),
+        "carbs_g": carbohydrates (g),
+        "fat_g": fat (g),
+        "sugar_g": sugar (g),
+        "fiber_g": fiber (g),
+        "sodium_mg": sodium (mg)
+      }`] : []),
+    ...(comprehensive ? [
+      '      "ingredients": ["main ingredients in English"]',
+      '      "cooking_method": "cooking method (e.g. stir-fried, grilled, steamed)"'
+    ] : [])
+  ];
+
+  return `
+Analyze the food in this image.
+
+Respond only with JSON in the following format:
+
+{
+  "foods": [
+    {
+${foodFields.join(',\n')}
+    }
+  ],
+  "total_calories": total calories,
+  "meal_type": "snack",
+  "analysis_confidence": 0.8${comprehensive ? `,
+  "health_notes": ["short health notes about the meal in English (up to 3)"]` : ''}
+}
+
+If any food is visible, include at least one item in the foods array.
+${guidance.map(line => `${line}\n`).join('')}${include_nutrition ? 'Estimate nutrition for the given portion; protein×4 + carbs×4 + fat×9 should be close to the calories.\n' : ''}${detail_level === 'basic' ? 'Keep the response short without explanations.\n' : ''}Do not include any text other than the JSON.
+`;
+}
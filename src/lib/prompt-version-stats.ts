@@ -0,0 +1,124 @@
+import { createSupabaseAdmin } from './supabase';
+import { FoodAnalysisResult } from '@/types/food-analysis';
+
+// 한 번에 집계할 최대 식사 수
+const PROMPT_STATS_MEAL_LIMIT = 5000;
+
+// 프롬프트 버전별 저장된 식사 통계
+export interface PromptVersionStats {
+  prompt_version: string;
+  meal_count: number;
+  corrected_count: number;
+  correction_rate: number;          // 사용자가 분석 결과를 수정한 비율
+  confirmation_rate: number;        // 신뢰도가 낮아 저장 전 확인이 필요했던 비율
+  average_confidence: number;       // 수정 전 AI 분석 신뢰도 평균
+  average_calorie_change: number;   // 수정된 식사의 평균 칼로리 변화량 (절댓값)
+}
+
+/**
+ * 저장된 식사를 프롬프트 버전별로 묶어 수정률과 신뢰도 비교
+ * - 테스트 데이터와 텍스트 기록은 제외
+ * - 수정된 식사는 meal_corrections의 원본 분석 결과로 신뢰도를 계산
+ */
+export async function getPromptVersionStats(
+  since?: Date
+): Promise<{ success: boolean; data?: PromptVersionStats[]; error?: string }> {
+  try {
+    const supabase = createSupabaseAdmin();
+    let query = supabase
+      .from('meals')
+      .select('id, analysis_result, total_calories')
+      .eq('is_mock_data', false)
+      .eq('input_mode', 'photo')
+      .order('created_at', { ascending: false })
+      .limit(PROMPT_STATS_MEAL_LIMIT);
+
+    if (since) {
+      query = query.gte('created_at', since.toISOString());
+    }
+
+    const { data: meals, error } = await query;
+    if (error) {
+      throw new Error(`식사 조회 실패: ${error.message}`);
+    }
+
+    const analyzedMeals = (meals || []).filter(
+      meal => (meal.analysis_result as FoodAnalysisResult | null)?.metadata?.prompt_version
+    );
+
+    // 수정된 식사의 원본 분석 결과 (식사별 첫 수정 기준)
+    const correctedIds = analyzedMeals
+      .filter(meal => (meal.analysis_result as FoodAnalysisResult).metadata?.user_corrected)
+      .map(meal => meal.id);
+    const originals = new Map<string, FoodAnalysisResult>();
+
+    if (correctedIds.length > 0) {
+      const { data: corrections, error: correctionsError } = await supabase
+        .from('meal_corrections')
+        .select('meal_id, original_result, created_at')
+        .in('meal_id', correctedIds)
+        .order('created_at', { ascending: true });
+
+      if (correctionsError) {
+        throw new Error(`수정 기록 조회 실패: ${correctionsError.message}`);
+      }
+
+      for (const correction of corrections || []) {
+        if (!originals.has(correction.meal_id)) {
+          originals.set(correction.meal_id, correction.original_result as FoodAnalysisResult);
+        }
+      }
+    }
+
+    const groups = new Map<string, {
+      meals: number;
+      corrected: number;
+      confirmed: number;
+      confidenceSum: number;
+      calorieChangeSum: number;
+      calorieChangeCount: number;
+    }>();
+
+    for (const meal of analyzedMeals) {
+      const result = meal.analysis_result as FoodAnalysisResult;
+      const version = result.metadata!.prompt_version!;
+      const original = originals.get(meal.id);
+      const isCorrected = !!result.metadata?.user_corrected;
+
+      const group = groups.get(version) ?? { meals: 0, corrected: 0, confirmed: 0, confidenceSum: 0, calorieChangeSum: 0, calorieChangeCount: 0 };
+      group.meals++;
+      group.confidenceSum += (original ?? result).analysis_confidence;
+      if (result.metadata?.user_confirmed) {
+        group.confirmed++;
+      }
+      if (isCorrected) {
+        group.corrected++;
+        if (original) {
+          group.calorieChangeSum += Math.abs(meal.total_calories - original.total_calories);
+          group.calorieChangeCount++;
+        }
+      }
+      groups.set(version, group);
+    }
+
+    const stats = Array.from(groups.entries())
+      .map(([promptVersion, group]) => ({
+        prompt_version: promptVersion,
+        meal_count: group.meals,
+        corrected_count: group.corrected,
+        correction_rate: group.corrected / group.meals,
+        confirmation_rate: group.confirmed / group.meals,
+        average_confidence: group.confidenceSum / group.meals,
+        average_calorie_change: group.calorieChangeCount > 0 ? group.calorieChangeSum / group.calorieChangeCount : 0
+      }))
+      .sort((a, b) => a.prompt_version.localeCompare(b.prompt_version));
+
+    return { success: true, data: stats };
+  } catch (error) {
+    console.error('Prompt version stats error:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+}
@@ -5,8 +5,37 @@ import {
   FoodAnalysisError,
   PerformanceMetrics,
   ValidationResult,
-  FoodItem
+  FoodItem,
+  NutritionFacts,
+  NutritionSource,
+  FoodCorrection,
+  MealCorrectionInput,
+  FoodAnalysisOptions,
+  AnalysisLanguage
 } from '@/types/food-analysis';
+import {
+  NUTRITION_KEYS,
+  NUTRITION_LIMITS,
+  calculateMacroCalories,
+  emptyNutrition,
+  roundNutrition,
+  scaleNutrition,
+  sumFoodNutrition
+} from './nutrition';
+import { crossCheckWithReference } from './nutrition-reference';
+import { resolveAnalysisOptions } from './analysis-prompts';
+
+// 다량 영양소 기준 칼로리와 보고된 칼로리의 허용 오차 비율
+const MACRO_CALORIE_TOLERANCE = 0.2;
+
+// 사용자 분량 배수 허용 범위
+const PORTION_MULTIPLIER_RANGE = { min: 0.25, max: 5 };
+
+const NUTRITION_SOURCES: NutritionSource[] = ['ai', 'reference', 'macros', 'user'];
+
+// comprehensive 상세 정보 제한
+const MAX_INGREDIENTS = 15;
+const MAX_HEALTH_NOTES = 5;
 
 /**
  * 응답 검증 및 처리 유틸리티
@@ -23,17 +52,23 @@ export class ResponseProcessor {
 
   /**
    * AI 응답 검증 및 정제
+   * 원시 응답의 sources는 신뢰하지 않음 - 이미 검증된 칼로리(사용자 수정, 텍스트 입력)는
+   * presetSources(foods와 같은 순서)로만 전달해 참조 DB 보정을 생략
    */
   public validateAndProcessResponse(
     rawResponse: any,
     imageHash: string,
     processingStartTime: number,
     retryCount: number = 0,
-    isMockData: boolean = false
+    isMockData: boolean = false,
+    modelVersion?: string,
+    options?: FoodAnalysisOptions,
+    presetSources: (FoodItem['sources'] | undefined)[] = []
   ): ValidationResult {
     const errors: string[] = [];
     const warnings: string[] = [];
     let correctedData: Partial<FoodAnalysisResult> = {};
+    const analysisOptions = resolveAnalysisOptions(options);
 
     try {
       // 1. 기본 구조 검증
@@ -54,7 +89,25 @@ export class ResponseProcessor {
       }
 
       // 3. 음식 데이터 검증 및 정제
-      const validatedFoods = this.validateFoodItems(rawResponse.foods, warnings);
+      const validatedFoods = this.validateFoodItems(
+        rawResponse.foods,
+        warnings,
+        analysisOptions.preferred_language,
+        presetSources
+      );
+      if (!analysisOptions.include_nutrition) {
+        // 영양 성분을 요청하지 않은 경우 참조 DB로 채운 값도 제외
+        for (const food of validatedFoods) {
+          delete food.nutrition;
+          if (food.sources) delete food.sources.nutrition;
+        }
+      }
+      if (analysisOptions.detail_level !== 'comprehensive') {
+        for (const food of validatedFoods) {
+          delete food.ingredients;
+          delete food.cooking_method;
+        }
+      }
       if (validatedFoods.length === 0) {
         errors.push('유효한 음식 데이터가 없습니다.');
         return { isValid: false, errors, warnings };
@@ -85,11 +138,14 @@ export class ResponseProcessor {
       const processingTime = Date.now() - processingStartTime;
       const metadata = {
         processing_time_ms: processingTime,
-        model_version: isMockData ? 'mock-v1.0' : 'gemini-1.5-pro',
+        model_version: modelVersion ?? (isMockData ? 'mock-v1.0' : 'gemini-1.5-pro'),
         image_quality_score: this.estimateImageQuality(validatedFoods),
         detected_objects_count: validatedFoods.length,
         retry_count: retryCount,
-        is_mock_data: isMockData
+        is_mock_data: isMockData,
+        detail_level: analysisOptions.detail_level,
+        language: analysisOptions.preferred_language,
+        include_nutrition: analysisOptions.include_nutrition
       };
 
       // 8. 수정된 응답 데이터 구성
@@ -99,6 +155,10 @@ export class ResponseProcessor {
         meal_type: mealType as 'breakfast' | 'lunch' | 'dinner' | 'snack',
         analysis_confidence: analysisConfidence,
         analyzed_at: new Date().toISOString(),
+        ...(analysisOptions.include_nutrition && { nutritional_info: sumFoodNutrition(validatedFoods) }),
+        ...(analysisOptions.detail_level === 'comprehensive' && {
+          health_notes: this.validateTextList(rawResponse.health_notes, MAX_HEALTH_NOTES, 200)
+        }),
         metadata
       };
 
@@ -119,11 +179,16 @@ export class ResponseProcessor {
   /**
    * 음식 항목 검증 및 정제
    */
-  private validateFoodItems(foods: any[], warnings: string[]): FoodItem[] {
+  private validateFoodItems(
+    foods: any[],
+    warnings: string[],
+    language: AnalysisLanguage = 'ko',
+    presetSourceList: (FoodItem['sources'] | undefined)[] = []
+  ): FoodItem[] {
     const validatedFoods: FoodItem[] = [];
     const seenFoods = new Set<string>();
 
-    for (const food of foods) {
+    for (const [index, food] of foods.entries()) {
       try {
         // 필수 필드 검증
         if (!food || typeof food !== 'object') {
@@ -131,7 +196,7 @@ export class ResponseProcessor {
           continue;
         }
 
-        const name = this.validateAndCleanFoodName(food.name);
+        const name = this.validateAndCleanFoodName(food.name, language);
         if (!name) {
           warnings.push('음식명이 유효하지 않아 제외됨');
           continue;
@@ -145,21 +210,61 @@ export class ResponseProcessor {
         }
         seenFoods.add(normalizedName);
 
-        const calories = this.validateCalories(food.calories, name);
+        const reportedCalories = this.validateCalories(food.calories, name);
         const amount = this.validateAmount(food.amount);
         const confidence = this.validateConfidence(food.confidence);
 
+        // 내장 영양 DB 교차 검증 (이상치 보정 + 누락된 영양 성분 보충)
+        // 이미 검증되었거나 사용자가 입력한 칼로리(presetSources 지정)는 참조 값으로 덮어쓰지 않음
+        const presetSources = this.validateSources(presetSourceList[index]);
+        // 영어 응답은 한국어 이름(name_ko)으로 참조 DB 매칭
+        const nameKo = language === 'en' ? this.validateAndCleanFoodName(food.name_ko, 'ko') : null;
+        const referenceCheck = crossCheckWithReference(nameKo ?? name, amount, reportedCalories, food.nutrition);
+        const hasNutrition = !!food.nutrition && typeof food.nutrition === 'object';
+        const crossCheck = presetSources ? {
+          ...referenceCheck,
+          calories: reportedCalories,
+          calorieSource: presetSources.calories,
+          nutrition: hasNutrition ? food.nutrition : referenceCheck.nutrition,
+          nutritionSource: hasNutrition ? (presetSources.nutrition ?? 'ai') : referenceCheck.nutritionSource
+        } : referenceCheck;
+        if (!presetSources) {
+          warnings.push(...referenceCheck.warnings);
+        }
+
+        const { nutrition, calories, derivedFromMacros } = this.validateNutrition(
+          crossCheck.nutrition,
+          crossCheck.calories,
+          name,
+          warnings
+        );
+        const calorieSource: NutritionSource = derivedFromMacros ? 'macros' : crossCheck.calorieSource;
+
         // 신뢰도가 너무 낮은 음식 필터링
         if (confidence < 0.4) {
           warnings.push(`신뢰도가 낮은 음식 "${name}" (${confidence}) 제외됨`);
           continue;
         }
 
+        const ingredients = this.validateTextList(food.ingredients, MAX_INGREDIENTS, 30);
+        const cookingMethod = typeof food.cooking_method === 'string' && food.cooking_method.trim()
+          ? food.cooking_method.trim().slice(0, 30)
+          : undefined;
+
         validatedFoods.push({
           name,
+          ...(nameKo && nameKo !== name && { name_ko: nameKo }),
           calories,
           amount,
-          confidence: Number(confidence.toFixed(2))
+          confidence: Number(confidence.toFixed(2)),
+          ...(nutrition && { nutrition }),
+          ...(ingredients.length > 0 && { ingredients }),
+          ...(cookingMethod && { cooking_method: cookingMethod }),
+          ...(crossCheck.reference && { reference_id: crossCheck.reference.id }),
+          sources: {
+            calories: calorieSource,
+            ...(nutrition && { nutrition: crossCheck.nutritionSource })
+          }
         });
 
       } catch (error) {
@@ -173,7 +278,7 @@ export class ResponseProcessor {
   /**
    * 음식명 검증 및 정제
    */
-  private validateAndCleanFoodName(name: any): string | null {
+  private validateAndCleanFoodName(name: any, language: AnalysisLanguage = 'ko'): string | null {
     if (typeof name !== 'string') return null;
     
     const cleaned = name.trim()
@@ -182,13 +287,27 @@ export class ResponseProcessor {
     
     if (cleaned.length < 1 || cleaned.length > 50) return null;
     
-    // 한국어 음식명 검증 (한글이 포함되어야 함)
+    // 한국어 음식명 검증 (한글이 포함되어야 함), 영어 분석은 알파벳 이름도 허용
     const hasKorean = /[\u3131-\u3163\uac00-\ud7af]/.test(cleaned);
-    if (!hasKorean) return null;
+    const hasExpectedScript = language === 'en' ? hasKorean || /[a-zA-Z]/.test(cleaned) : hasKorean;
+    if (!hasExpectedScript) return null;
     
     return cleaned;
   }
 
+  /**
+   * 문자열 목록 검증 (재료, 건강 메모 등)
+   */
+  private validateTextList(values: any, maxItems: number, maxLength: number): string[] {
+    if (!Array.isArray(values)) return [];
+
+    return values
+      .filter((value): value is string => typeof value === 'string')
+      .map(value => value.trim().slice(0, maxLength))
+      .filter(value => value.length > 0)
+      .slice(0, maxItems);
+  }
+
   /**
    * 칼로리 검증
    */
@@ -205,6 +324,89 @@ export class ResponseProcessor {
     return Math.round(parsed);
   }
 
+  /**
+   * 수치 출처 검증 (알 수 없는 값이면 무시)
+   */
+  private validateSources(sources: any): FoodItem['sources'] | undefined {
+    if (!sources || typeof sources !== 'object' || !NUTRITION_SOURCES.includes(sources.calories)) {
+      return undefined;
+    }
+    return {
+      calories: sources.calories,
+      ...(NUTRITION_SOURCES.includes(sources.nutrition) && { nutrition: sources.nutrition })
+    };
+  }
+
+  /**
+   * 영양 성분 검증 및 칼로리 정합성 보정 (단백질 4 / 탄수화물 4 / 지방 9 kcal)
+   */
+  private validateNutrition(
+    rawNutrition: any,
+    calories: number,
+    foodName: string,
+    warnings: string[]
+  ): { nutrition?: NutritionFacts; calories: number; derivedFromMacros?: boolean } {
+    if (!rawNutrition || typeof rawNutrition !== 'object') {
+      return { calories };
+    }
+
+    const nutrition = emptyNutrition();
+    for (const key of NUTRITION_KEYS) {
+      const parsed = Number(rawNutrition[key]);
+      if (isNaN(parsed) || parsed < 0) {
+        if (rawNutrition[key] !== undefined) {
+          warnings.push(`"${foodName}"의 ${key} 값이 유효하지 않아 0으로 처리됨`);
+        }
+        continue;
+      }
+      if (parsed > NUTRITION_LIMITS[key]) {
+        warnings.push(`"${foodName}"의 ${key} 값이 비현실적으로 높음: ${parsed} → ${NUTRITION_LIMITS[key]}로 조정`);
+        nutrition[key] = NUTRITION_LIMITS[key];
+        continue;
+      }
+      nutrition[key] = parsed;
+    }
+
+    // 당류와 식이섬유는 탄수화물에 포함되므로 탄수화물을 넘을 수 없음
+    if (nutrition.sugar_g > nutrition.carbs_g) {
+      warnings.push(`"${foodName}"의 당류가 탄수화물보다 많음: ${nutrition.sugar_g}g → ${nutrition.carbs_g}g로 조정`);
+      nutrition.sugar_g = nutrition.carbs_g;
+    }
+    if (nutrition.fiber_g > nutrition.carbs_g) {
+      warnings.push(`"${foodName}"의 식이섬유가 탄수화물보다 많음: ${nutrition.fiber_g}g → ${nutrition.carbs_g}g로 조정`);
+      nutrition.fiber_g = nutrition.carbs_g;
+    }
+
+    const macroCalories = calculateMacroCalories(nutrition);
+    if (macroCalories === 0) {
+      if (calories > 0) {
+        warnings.push(`"${foodName}"의 다량 영양소 정보가 없어 영양 성분 제외됨`);
+      }
+      return { calories };
+    }
+
+    // 칼로리가 없으면 다량 영양소로 계산
+    if (calories === 0) {
+      const derivedCalories = Math.round(macroCalories);
+      warnings.push(`"${foodName}"의 칼로리를 영양 성분으로 계산: ${derivedCalories}kcal`);
+      return { nutrition: roundNutrition(nutrition), calories: derivedCalories, derivedFromMacros: true };
+    }
+
+    // 칼로리와 다량 영양소가 크게 어긋나면 칼로리를 기준으로 영양 성분을 비례 조정
+    const deviation = Math.abs(macroCalories - calories) / calories;
+    if (deviation > MACRO_CALORIE_TOLERANCE) {
+      const ratio = calories / macroCalories;
+      warnings.push(`"${foodName}"의 영양 성분 칼로리 불일치: ${Math.round(macroCalories)}kcal → ${calories}kcal 기준으로 보정`);
+      for (const key of NUTRITION_KEYS) {
+        if (key !== 'sodium_mg') {
+          nutrition[key] *= ratio;
+        }
+      }
+    }
+
+    return { nutrition: roundNutrition(nutrition), calories };
+  }
+
   /**
    * 분량 검증
    */
@@ -285,6 +487,169 @@ export class ResponseProcessor {
     return Number(Math.min(1, Math.max(0.2, quality)).toFixed(2));
   }
 
+  /**
+   * 사용자 수정 사항 적용 후 총합 재계산
+   * 수정 후 음식 목록을 원시 응답 형태로 재구성해 동일한 검증 과정을 거침
+   */
+  public applyCorrections(
+    original: FoodAnalysisResult,
+    corrections: MealCorrectionInput,
+    processingStartTime: number
+  ): ValidationResult {
+    const warnings: string[] = [];
+
+    if (!corrections || !Array.isArray(corrections.foods)) {
+      return { isValid: false, errors: ['수정할 음식 목록이 유효하지 않습니다.'], warnings };
+    }
+
+    if (corrections.foods.length === 0) {
+      return { isValid: false, errors: ['음식이 최소 1개 이상 필요합니다.'], warnings };
+    }
+
+    const rawFoods = corrections.foods
+      .map(correction => this.buildCorrectedFood(original.foods, correction, warnings))
+      .filter((food): food is FoodItem => food !== null);
+
+    const result = this.validateAndProcessResponse(
+      {
+        foods: rawFoods,
+        total_calories: rawFoods.reduce((sum, food) => sum + food.calories, 0),
+        meal_type: corrections.meal_type ?? original.meal_type,
+        health_notes: original.health_notes
+      },
+      '',
+      processingStartTime,
+      original.metadata?.retry_count ?? 0,
+      original.metadata?.is_mock_data ?? false,
+      original.metadata?.model_version,
+      {
+        detail_level: original.metadata?.detail_level,
+        include_nutrition: original.metadata?.include_nutrition,
+        preferred_language: original.metadata?.language
+      },
+      rawFoods.map(food => food.sources)
+    );
+
+    if (!result.isValid || !result.corrected_data) {
+      return { ...result, warnings: [...warnings, ...result.warnings] };
+    }
+
+    return {
+      ...result,
+      warnings: [...warnings, ...result.warnings],
+      corrected_data: {
+        ...result.corrected_data,
+        analyzed_at: original.analyzed_at,
+        image_url: original.image_url,
+        thumbnail_url: original.thumbnail_url,
+        metadata: {
+          ...original.metadata,
+          ...result.corrected_data.metadata,
+          user_corrected: true,
+          corrected_at: new Date().toISOString()
+        }
+      }
+    };
+  }
+
+  /**
+   * 수정된 음식 1개를 원시 음식 데이터로 변환
+   * - 이름/분량이 그대로면 기존 수치 유지
+   * - 이름이나 분량이 바뀌면 참조 DB로 다시 추정 (사용자가 칼로리를 입력하면 그 값을 우선)
+   * - 분량 배수는 칼로리와 영양 성분에 모두 적용
+   */
+  private buildCorrectedFood(
+    originalFoods: FoodItem[],
+    correction: FoodCorrection,
+    warnings: string[]
+  ): FoodItem | null {
+    if (!correction || typeof correction !== 'object') {
+      warnings.push('잘못된 수정 데이터 형식 감지됨');
+      return null;
+    }
+
+    const base = typeof correction.original_index === 'number'
+      ? originalFoods[correction.original_index]
+      : undefined;
+    if (correction.original_index !== undefined && !base) {
+      warnings.push(`원본 음식(${correction.original_index})을 찾을 수 없어 새 음식으로 처리됨`);
+    }
+
+    const name = (typeof correction.name === 'string' && correction.name.trim()) || base?.name;
+    if (!name) {
+      warnings.push('음식명이 없는 수정 항목 제외됨');
+      return null;
+    }
+
+    const renamed = !base || base.name !== name;
+    const amount = (typeof correction.amount === 'string' && correction.amount.trim()) || base?.amount || '1인분';
+    const amountChanged = !!base && amount !== base.amount;
+    const multiplier = this.validatePortionMultiplier(correction.portion_multiplier, name, warnings);
+
+    let calories: number;
+    let nutrition: NutritionFacts | undefined;
+    let sources: FoodItem['sources'];
+
+    const userCalories = Number(correction.calories);
+    if (correction.calories !== undefined && correction.calories !== null && !isNaN(userCalories) && userCalories >= 0) {
+      calories = userCalories;
+      nutrition = renamed ? undefined : base?.nutrition;
+      sources = { calories: 'user', ...(nutrition && { nutrition: base?.sources?.nutrition ?? 'ai' }) };
+    } else if (base && !renamed && !amountChanged) {
+      calories = base.calories;
+      nutrition = base.nutrition;
+      sources = base.sources ?? { calories: 'ai', ...(nutrition && { nutrition: 'ai' as const }) };
+    } else {
+      const estimate = crossCheckWithReference(name, amount, 0);
+      if (estimate.reference) {
+        calories = estimate.calories;
+        nutrition = estimate.nutrition;
+        sources = { calories: 'reference', nutrition: 'reference' };
+      } else {
+        warnings.push(`"${name}"의 칼로리를 추정할 수 없어 0kcal로 처리됨. 칼로리를 직접 입력해주세요.`);
+        calories = 0;
+        sources = { calories: 'user' };
+      }
+    }
+
+    if (multiplier !== 1) {
+      calories = calories * multiplier;
+      nutrition = nutrition && scaleNutrition(nutrition, multiplier);
+      sources = { ...sources, calories: 'user' };
+    }
+
+    return {
+      name,
+      ...(!renamed && base?.name_ko && { name_ko: base.name_ko }),
+      amount: multiplier !== 1 ? `${amount} ×${multiplier}` : amount,
+      calories: Math.round(calories),
+      confidence: renamed || !base ? 1 : base.confidence,
+      ...(nutrition && { nutrition }),
+      ...(!renamed && base?.ingredients && { ingredients: base.ingredients }),
+      ...(!renamed && base?.cooking_method && { cooking_method: base.cooking_method }),
+      sources
+    };
+  }
+
+  /**
+   * 분량 배수 검증
+   */
+  private validatePortionMultiplier(multiplier: any, foodName: string, warnings: string[]): number {
+    if (multiplier === undefined || multiplier === null) return 1;
+
+    const parsed = Number(multiplier);
+    if (isNaN(parsed) || parsed <= 0) {
+      warnings.push(`"${foodName}"의 분량 배수가 유효하지 않아 1배로 처리됨`);
+      return 1;
+    }
+
+    const clamped = Math.min(PORTION_MULTIPLIER_RANGE.max, Math.max(PORTION_MULTIPLIER_RANGE.min, parsed));
+    if (clamped !== parsed) {
+      warnings.push(`"${foodName}"의 분량 배수 ${parsed} → ${clamped}로 조정`);
+    }
+    return clamped;
+  }
+
   /**
    * 성능 메트릭 생성
    */
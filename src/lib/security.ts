@@ -106,10 +106,10 @@ export const SECURITY_CONSTANTS = {
 export async function checkRateLimit(
   limiter: RateLimiterMemory, 
   key: string
-): Promise<{ allowed: boolean; retryAfter?: number }> {
+): Promise<{ allowed: boolean; retryAfter?: number; remaining?: number }> {
   try {
-    await limiter.consume(key)
-    return { allowed: true }
+    const rateLimiterRes = await limiter.consume(key)
+    return { allowed: true, remaining: rateLimiterRes.remainingPoints }
   } catch (rejRes: unknown) {
     const rateLimitRejection = rejRes as { msBeforeNext?: number; remainingPoints?: number }
     const retryAfter = Math.round(rateLimitRejection.msBeforeNext || 0) || 1000
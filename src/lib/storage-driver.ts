@@ -0,0 +1,427 @@
+import { createSupabaseAdmin } from './supabase';
+import { IMAGE_FORMAT_MIME_TYPES, SupportedImageFormat } from './image-formats';
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+
+// 지원하는 저장소 종류
+export type StorageDriverName = 'supabase' | 'local';
+
+// 저장된 파일 정보
+export interface StoredObject {
+  path: string;
+  size: number;
+  updatedAt?: string;
+}
+
+// 저장소 사용량
+export interface StorageUsage {
+  totalFiles: number;
+  totalSize: number;
+}
+
+// 버킷 생성/검사에 쓰는 설정 (storage.ts의 STORAGE_CONFIG에서 전달)
+export interface StorageDriverConfig {
+  bucketName: string;
+  maxFileSize: number;
+  allowedMimeTypes: string[];
+}
+
+// 파일 저장소 인터페이스 (경로는 버킷 내 상대 경로, 실패 시 예외)
+export interface StorageDriver {
+  readonly name: StorageDriverName;
+  // 버킷/디렉터리 준비 (없으면 생성, 공개 버킷이면 비공개로 전환)
+  initialize(): Promise<void>;
+  // 사용 가능한 상태인지 확인 (문제가 있으면 예외)
+  checkConnection(): Promise<void>;
+  put(path: string, buffer: Buffer, contentType: string): Promise<void>;
+  get(path: string): Promise<Buffer>;
+  delete(paths: string[]): Promise<void>;
+  move(fromPath: string, toPath: string): Promise<void>;
+  // prefix 아래의 모든 파일 (하위 폴더 포함)
+  list(prefix: string): Promise<StoredObject[]>;
+  usage(prefix: string): Promise<StorageUsage>;
+  // 경로별 짧게 유효한 URL (없는 파일은 제외)
+  createSignedUrls(paths: string[], expiresIn: number): Promise<Record<string, string>>;
+}
+
+// Supabase list()의 한 페이지 크기
+const SUPABASE_LIST_PAGE_SIZE = 1000;
+
+/**
+ * Supabase Storage 기반 저장소
+ * 비공개 버킷이므로 서버 전용 admin 클라이언트 사용
+ */
+export class SupabaseStorageDriver implements StorageDriver {
+  public readonly name = 'supabase' as const;
+
+  constructor(private readonly config: StorageDriverConfig) {}
+
+  async initialize(): Promise<void> {
+    const supabase = createSupabaseAdmin();
+    const { data: buckets, error: listError } = await supabase.storage.listBuckets();
+    if (listError) {
+      throw new Error(`버킷 목록 조회 실패: ${listError.message}`);
+    }
+
+    const bucket = buckets?.find(bucket => bucket.name === this.config.bucketName);
+    const bucketOptions = {
+      public: false, // 인증된 사용자만 접근 가능
+      allowedMimeTypes: this.config.allowedMimeTypes,
+      fileSizeLimit: this.config.maxFileSize
+    };
+
+    if (!bucket) {
+      const { error: createError } = await supabase.storage.createBucket(this.config.bucketName, bucketOptions);
+      if (createError) {
+        throw new Error(`버킷 생성 실패: ${createError.message}`);
+      }
+
+      console.log(`Storage bucket '${this.config.bucketName}' created successfully`);
+    } else if (bucket.public) {
+      // 예전에 공개 버킷으로 만들어진 경우 비공개로 전환 (이미지는 서명된 URL로만 제공)
+      const { error: updateError } = await supabase.storage.updateBucket(this.config.bucketName, bucketOptions);
+      if (updateError) {
+        throw new Error(`버킷 비공개 전환 실패: ${updateError.message}`);
+      }
+
+      console.log(`Storage bucket '${this.config.bucketName}' switched to private`);
+    }
+  }
+
+  async checkConnection(): Promise<void> {
+    const supabase = createSupabaseAdmin();
+    const { data, error } = await supabase.storage.listBuckets();
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    const bucket = data?.find(bucket => bucket.name === this.config.bucketName);
+    if (!bucket) {
+      throw new Error('Storage bucket not found');
+    }
+
+    // 공개 버킷이면 초기화에서 비공개로 전환하도록 실패로 보고
+    if (bucket.public) {
+      throw new Error('Storage bucket is public');
+    }
+  }
+
+  async put(path: string, buffer: Buffer, contentType: string): Promise<void> {
+    const supabase = createSupabaseAdmin();
+    const { error } = await supabase.storage
+      .from(this.config.bucketName)
+      .upload(path, buffer, {
+        cacheControl: '3600',
+        upsert: true, // 같은 경로에 있는 파일 덮어쓰기
+        contentType
+      });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+  }
+
+  async get(path: string): Promise<Buffer> {
+    const supabase = createSupabaseAdmin();
+    const { data, error } = await supabase.storage
+      .from(this.config.bucketName)
+      .download(path);
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return Buffer.from(await data.arrayBuffer());
+  }
+
+  async delete(paths: string[]): Promise<void> {
+    if (paths.length === 0) return;
+
+    const supabase = createSupabaseAdmin();
+    const { error } = await supabase.storage
+      .from(this.config.bucketName)
+      .remove(paths);
+
+    if (error) {
+      throw new Error(error.message);
+    }
+  }
+
+  async move(fromPath: string, toPath: string): Promise<void> {
+    const supabase = createSupabaseAdmin();
+    const { error } = await supabase.storage
+      .from(this.config.bucketName)
+      .move(fromPath, toPath);
+
+    if (error) {
+      throw new Error(error.message);
+    }
+  }
+
+  async list(prefix: string): Promise<StoredObject[]> {
+    const supabase = createSupabaseAdmin();
+    const objects: StoredObject[] = [];
+    const folders = [prefix.replace(/\/+$/, '')];
+
+    // list()는 한 단계만 조회하므로 폴더(id가 없는 항목)를 따라 내려가며 수집
+    while (folders.length > 0) {
+      const folder = folders.pop()!;
+      for (let offset = 0; ; offset += SUPABASE_LIST_PAGE_SIZE) {
+        const { data, error } = await supabase.storage
+          .from(this.config.bucketName)
+          .list(folder, { limit: SUPABASE_LIST_PAGE_SIZE, offset, sortBy: { column: 'name', order: 'asc' } });
+
+        if (error) {
+          throw new Error(error.message);
+        }
+
+        for (const item of data || []) {
+          const itemPath = folder ? `${folder}/${item.name}` : item.name;
+          if (item.id === null) {
+            folders.push(itemPath);
+          } else {
+            objects.push({
+              path: itemPath,
+              size: item.metadata?.size ?? 0,
+              updatedAt: item.updated_at ?? undefined
+            });
+          }
+        }
+
+        if (!data || data.length < SUPABASE_LIST_PAGE_SIZE) break;
+      }
+    }
+
+    return objects;
+  }
+
+  async usage(prefix: string): Promise<StorageUsage> {
+    return summarizeUsage(await this.list(prefix));
+  }
+
+  async createSignedUrls(paths: string[], expiresIn: number): Promise<Record<string, string>> {
+    if (paths.length === 0) return {};
+
+    const supabase = createSupabaseAdmin();
+    const { data, error } = await supabase.storage
+      .from(this.config.bucketName)
+      .createSignedUrls(paths, expiresIn);
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    const urls: Record<string, string> = {};
+    for (const item of data || []) {
+      if (item.path && item.signedUrl && !item.error) {
+        urls[item.path] = item.signedUrl;
+      }
+    }
+    return urls;
+  }
+}
+
+// 로컬 저장소 파일을 제공하는 라우트 (서명된 URL로만 접근)
+export const LOCAL_STORAGE_ROUTE = '/api/storage/local';
+
+/**
+ * 로컬 디스크 기반 저장소 (개발/테스트용, 클라우드 프로젝트 없이 동작)
+ * - 파일은 <rootDir>/<bucketName>/<경로>에 저장
+ * - 서명된 URL은 HMAC 서명과 만료 시각을 붙인 LOCAL_STORAGE_ROUTE 주소
+ */
+export class LocalStorageDriver implements StorageDriver {
+  public readonly name = 'local' as const;
+  private readonly bucketDir: string;
+  private signingSecret: Promise<string> | null = null;
+
+  constructor(private readonly config: StorageDriverConfig, rootDir: string) {
+    this.bucketDir = path.resolve(rootDir, config.bucketName);
+  }
+
+  async initialize(): Promise<void> {
+    await fs.mkdir(this.bucketDir, { recursive: true });
+  }
+
+  async checkConnection(): Promise<void> {
+    const stats = await fs.stat(this.bucketDir).catch(() => null);
+    if (!stats?.isDirectory()) {
+      throw new Error('Storage directory not found');
+    }
+  }
+
+  async put(objectPath: string, buffer: Buffer, contentType: string): Promise<void> {
+    if (buffer.length > this.config.maxFileSize) {
+      throw new Error('File size exceeds the bucket limit');
+    }
+    if (!this.config.allowedMimeTypes.includes(contentType)) {
+      throw new Error(`Mime type ${contentType} is not supported`);
+    }
+
+    const filePath = this.resolvePath(objectPath);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, buffer);
+  }
+
+  async get(objectPath: string): Promise<Buffer> {
+    return fs.readFile(this.resolvePath(objectPath));
+  }
+
+  async delete(paths: string[]): Promise<void> {
+    // Supabase remove()처럼 없는 파일은 무시
+    await Promise.all(paths.map(objectPath => fs.rm(this.resolvePath(objectPath), { force: true })));
+  }
+
+  async move(fromPath: string, toPath: string): Promise<void> {
+    const target = this.resolvePath(toPath);
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    await fs.rename(this.resolvePath(fromPath), target);
+  }
+
+  async list(prefix: string): Promise<StoredObject[]> {
+    const baseDir = this.resolvePath(prefix);
+    const entries = await fs.readdir(baseDir, { recursive: true, withFileTypes: true }).catch(error => {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    });
+
+    const objects: StoredObject[] = [];
+    for (const entry of entries) {
+      if (!entry.isFile() || entry.name.startsWith('.')) continue;
+
+      const filePath = path.join(entry.parentPath, entry.name);
+      const stats = await fs.stat(filePath);
+      objects.push({
+        path: path.relative(this.bucketDir, filePath).split(path.sep).join('/'),
+        size: stats.size,
+        updatedAt: stats.mtime.toISOString()
+      });
+    }
+
+    return objects.sort((a, b) => a.path.localeCompare(b.path));
+  }
+
+  async usage(prefix: string): Promise<StorageUsage> {
+    return summarizeUsage(await this.list(prefix));
+  }
+
+  async createSignedUrls(paths: string[], expiresIn: number): Promise<Record<string, string>> {
+    const expires = Math.floor(Date.now() / 1000) + expiresIn;
+    const urls: Record<string, string> = {};
+
+    for (const objectPath of paths) {
+      const exists = await fs.stat(this.resolvePath(objectPath)).then(stats => stats.isFile(), () => false);
+      if (!exists) continue;
+
+      const params = new URLSearchParams({
+        path: objectPath,
+        expires: String(expires),
+        signature: await this.sign(objectPath, expires)
+      });
+      urls[objectPath] = `${LOCAL_STORAGE_ROUTE}?${params.toString()}`;
+    }
+
+    return urls;
+  }
+
+  /**
+   * 서명된 URL 검증 후 파일 반환 (서명이 틀리거나 만료됐으면 null)
+   */
+  async readSigned(
+    objectPath: string,
+    expires: number,
+    signature: string
+  ): Promise<{ buffer: Buffer; contentType: string } | null> {
+    if (!Number.isFinite(expires) || expires * 1000 < Date.now()) {
+      return null;
+    }
+
+    const expected = Buffer.from(await this.sign(objectPath, expires));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+      return null;
+    }
+
+    const buffer = await this.get(objectPath).catch(() => null);
+    if (!buffer) {
+      return null;
+    }
+
+    const extension = objectPath.split('.').pop()?.toLowerCase() as SupportedImageFormat;
+    return { buffer, contentType: IMAGE_FORMAT_MIME_TYPES[extension] ?? 'application/octet-stream' };
+  }
+
+  private async sign(objectPath: string, expires: number): Promise<string> {
+    const secret = await this.getSigningSecret();
+    return crypto.createHmac('sha256', secret).update(`${objectPath}:${expires}`).digest('hex');
+  }
+
+  /**
+   * URL 서명 키 (LOCAL_STORAGE_SIGNING_SECRET이 없으면 저장소 디렉터리에 한 번 생성해서 재사용)
+   * 개발 서버의 라우트들이 서로 다른 모듈 인스턴스로 로드되어도 같은 키를 쓰도록 파일에 보관
+   */
+  private getSigningSecret(): Promise<string> {
+    if (process.env.LOCAL_STORAGE_SIGNING_SECRET) {
+      return Promise.resolve(process.env.LOCAL_STORAGE_SIGNING_SECRET);
+    }
+
+    if (!this.signingSecret) {
+      const secretPath = path.join(this.bucketDir, '.signing-secret');
+      this.signingSecret = fs.readFile(secretPath, 'utf-8').catch(async () => {
+        const secret = crypto.randomBytes(32).toString('hex');
+        await fs.mkdir(this.bucketDir, { recursive: true });
+        // 동시에 생성한 경우 먼저 쓴 키를 사용
+        await fs.writeFile(secretPath, secret, { flag: 'wx' }).catch(() => undefined);
+        return fs.readFile(secretPath, 'utf-8');
+      });
+    }
+
+    return this.signingSecret;
+  }
+
+  /**
+   * 버킷 내 경로를 실제 파일 경로로 변환 (버킷 디렉터리 밖을 가리키면 거부)
+   */
+  private resolvePath(objectPath: string): string {
+    const resolved = path.resolve(this.bucketDir, objectPath);
+    if (resolved !== this.bucketDir && !resolved.startsWith(this.bucketDir + path.sep)) {
+      throw new Error(`잘못된 저장소 경로입니다: ${objectPath}`);
+    }
+    return resolved;
+  }
+}
+
+function summarizeUsage(objects: StoredObject[]): StorageUsage {
+  return {
+    totalFiles: objects.length,
+    totalSize: objects.reduce((sum, object) => sum + object.size, 0)
+  };
+}
+
+// 로컬 저장소 기본 디렉터리 (프로젝트 루트 기준)
+const DEFAULT_LOCAL_STORAGE_DIR = '.local-storage';
+
+let sharedDriver: StorageDriver | null = null;
+
+/**
+ * 설정(STORAGE_DRIVER)에 따른 저장소 반환
+ * local 저장소의 위치는 LOCAL_STORAGE_DIR로 변경 가능
+ */
+export function getStorageDriver(config: StorageDriverConfig): StorageDriver {
+  if (sharedDriver) return sharedDriver;
+
+  const driverName = (process.env.STORAGE_DRIVER || 'supabase') as StorageDriverName;
+
+  switch (driverName) {
+    case 'local':
+      sharedDriver = new LocalStorageDriver(config, process.env.LOCAL_STORAGE_DIR || DEFAULT_LOCAL_STORAGE_DIR);
+      break;
+    case 'supabase':
+      sharedDriver = new SupabaseStorageDriver(config);
+      break;
+    default:
+      throw new Error(`알 수 없는 저장소입니다: ${driverName}`);
+  }
+
+  return sharedDriver;
+}
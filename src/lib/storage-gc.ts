@@ -0,0 +1,326 @@
+import { createSupabaseAdmin } from './supabase';
+import { getStorageDriver, StoredObject } from './storage-driver';
+import { getStoragePathFromUrl, MultiUploadResult, STORAGE_CONFIG } from './storage';
+import { logSecurityEvent } from './security';
+
+// 고아 이미지 처리 방식 (quarantine: 격리 폴더로 옮겨 두었다가 보관 기간이 지나면 삭제)
+export type OrphanImageAction = 'delete' | 'quarantine';
+
+// 업로드 직후 아직 식사가 저장되지 않은 파일을 지우지 않도록 두는 유예 기간 (확인 대기 식사 유효 기간 24시간보다 길게)
+export const DEFAULT_ORPHAN_GRACE_PERIOD_MS = 1000 * 60 * 60 * 48;
+
+// 격리한 파일을 보관하는 기간 (지나면 다음 실행에서 삭제)
+export const DEFAULT_QUARANTINE_RETENTION_MS = 1000 * 60 * 60 * 24 * 30;
+
+// 격리 폴더 (quarantine/<격리 날짜>/<원래 경로>)
+export const QUARANTINE_PREFIX = 'quarantine';
+
+// meals/pending_meals 조회 페이지 크기
+const REFERENCE_PAGE_SIZE = 1000;
+
+// 식사 이미지 폴더 경로 (users/{userId}/meals/{mealId}/{파일})
+const MEAL_IMAGE_PATH_PATTERN = /^users\/([^/]+)\/meals\/([^/]+)\/[^/]+$/;
+
+// AI 장애 재시도용 원본 경로 (users/{userId}/analysis-retry/{jobId}.{확장자})
+const ANALYSIS_RETRY_PATH_PATTERN = /^users\/[^/]+\/analysis-retry\/[^/]+$/;
+
+export interface OrphanImageCollectionOptions {
+  dryRun?: boolean; // true면 삭제/격리하지 않고 리포트만 생성
+  action?: OrphanImageAction;
+  gracePeriodMs?: number;
+  quarantineRetentionMs?: number;
+  userId?: string; // 지정하면 해당 사용자 폴더만 검사
+}
+
+// 식사 행이 없는 이미지 폴더
+export interface OrphanImageFolder {
+  path: string;
+  userId: string;
+  mealId: string;
+  files: number;
+  bytes: number;
+  lastModifiedAt: string;
+}
+
+export interface OrphanImageReport {
+  dryRun: boolean;
+  action: OrphanImageAction;
+  gracePeriodMs: number;
+  scannedFolders: number;
+  scannedFiles: number;
+  scannedBytes: number;
+  skippedRecentFolders: number; // 고아지만 유예 기간이 지나지 않은 폴더
+  orphans: OrphanImageFolder[];
+  orphanFiles: number;
+  orphanBytes: number;
+  staleRetryImages: string[]; // 진행 중인 분석 작업이 참조하지 않는 재시도용 원본 (작업 실패/중단으로 남은 파일)
+  staleRetryBytes: number;
+  quarantinedFiles: number;
+  reclaimedFiles: number; // 실제로 삭제한 파일 (격리 보관 기간이 지난 파일 포함)
+  reclaimedBytes: number;
+  expiredQuarantineFiles: number; // 보관 기간이 지난 격리 파일 (dry run이면 삭제 예정)
+  expiredQuarantineBytes: number;
+  errors: string[];
+  durationMs: number;
+}
+
+/**
+ * 식사 이미지 저장소와 meals 행을 대조해 고아 이미지 정리
+ * - 폴더 단위로 판단: meals에 같은 ID의 식사가 있거나, 식사/확인 대기 식사가 폴더 안의 파일을 참조하면 사용 중
+ * - 폴더의 가장 최근 파일이 유예 기간보다 오래된 경우에만 삭제/격리
+ * - 재시도용 원본(analysis-retry/)은 대기/진행 중인 분석 작업이 참조하지 않고 유예 기간이 지났으면 함께 정리
+ * - 참조 목록을 끝까지 읽지 못하면 아무것도 지우지 않고 실패 반환
+ */
+export async function collectOrphanedMealImages(
+  options: OrphanImageCollectionOptions = {}
+): Promise<{ success: boolean; data?: OrphanImageReport; error?: string }> {
+  const startTime = Date.now();
+  const {
+    dryRun = false,
+    action = 'delete',
+    gracePeriodMs = DEFAULT_ORPHAN_GRACE_PERIOD_MS,
+    quarantineRetentionMs = DEFAULT_QUARANTINE_RETENTION_MS,
+    userId
+  } = options;
+
+  try {
+    const driver = getStorageDriver(STORAGE_CONFIG);
+    const prefixes = userId ? [`users/${userId}/meals`, `users/${userId}/analysis-retry`] : ['users'];
+
+    // 참조 목록보다 파일 목록을 먼저 읽어서, 그 사이에 저장된 식사의 파일을 고아로 오판하지 않도록 함
+    const objects = (await Promise.all(prefixes.map(prefix => driver.list(prefix)))).flat();
+    const referencedFolders = await getReferencedMealFolders(userId);
+    const activeRetryImages = await getActiveRetryImagePaths(userId);
+
+    const folders = groupByMealFolder(objects);
+    const cutoff = startTime - gracePeriodMs;
+    const report: OrphanImageReport = {
+      dryRun,
+      action,
+      gracePeriodMs,
+      scannedFolders: folders.size,
+      scannedFiles: 0,
+      scannedBytes: 0,
+      skippedRecentFolders: 0,
+      orphans: [],
+      orphanFiles: 0,
+      orphanBytes: 0,
+      staleRetryImages: [],
+      staleRetryBytes: 0,
+      quarantinedFiles: 0,
+      reclaimedFiles: 0,
+      reclaimedBytes: 0,
+      expiredQuarantineFiles: 0,
+      expiredQuarantineBytes: 0,
+      errors: [],
+      durationMs: 0
+    };
+
+    const orphanObjects: StoredObject[] = [];
+    for (const [folderPath, folder] of folders) {
+      report.scannedFiles += folder.objects.length;
+      report.scannedBytes += sumBytes(folder.objects);
+
+      if (referencedFolders.has(folderPath)) continue;
+
+      // 수정 시각을 모르는 파일이 있으면 최근 파일로 보고 건너뜀
+      const lastModified = Math.max(...folder.objects.map(object => (object.updatedAt ? new Date(object.updatedAt).getTime() : Infinity)));
+      if (!(lastModified <= cutoff)) {
+        report.skippedRecentFolders++;
+        continue;
+      }
+
+      report.orphans.push({
+        path: folderPath,
+        userId: folder.userId,
+        mealId: folder.mealId,
+        files: folder.objects.length,
+        bytes: sumBytes(folder.objects),
+        lastModifiedAt: new Date(lastModified).toISOString()
+      });
+      orphanObjects.push(...folder.objects);
+    }
+
+    // 재시도용 원본은 폴더가 아닌 파일 단위로 판단 (수정 시각을 모르면 건너뜀)
+    const staleRetryObjects = objects.filter(object =>
+      ANALYSIS_RETRY_PATH_PATTERN.test(object.path) &&
+      !activeRetryImages.has(object.path) &&
+      !!object.updatedAt &&
+      new Date(object.updatedAt).getTime() <= cutoff
+    );
+    report.staleRetryImages = staleRetryObjects.map(object => object.path);
+    report.staleRetryBytes = sumBytes(staleRetryObjects);
+    orphanObjects.push(...staleRetryObjects);
+
+    report.orphanFiles = orphanObjects.length;
+    report.orphanBytes = sumBytes(orphanObjects);
+
+    // 보관 기간이 지난 격리 파일 (사용자 단위 실행에서는 건드리지 않음)
+    const expiredQuarantine = userId
+      ? []
+      : (await driver.list(QUARANTINE_PREFIX)).filter(object => isQuarantineExpired(object.path, startTime - quarantineRetentionMs));
+    report.expiredQuarantineFiles = expiredQuarantine.length;
+    report.expiredQuarantineBytes = sumBytes(expiredQuarantine);
+
+    if (!dryRun) {
+      if (action === 'quarantine') {
+        const quarantineFolder = `${QUARANTINE_PREFIX}/${new Date(startTime).toISOString().split('T')[0]}`;
+        for (const object of orphanObjects) {
+          try {
+            await driver.move(object.path, `${quarantineFolder}/${object.path}`);
+            report.quarantinedFiles++;
+          } catch (error) {
+            report.errors.push(`${object.path} 격리 실패: ${error instanceof Error ? error.message : 'Unknown error'}`);
+          }
+        }
+      }
+
+      const toDelete = action === 'delete' ? [...orphanObjects, ...expiredQuarantine] : expiredQuarantine;
+      for (let start = 0; start < toDelete.length; start += REFERENCE_PAGE_SIZE) {
+        const batch = toDelete.slice(start, start + REFERENCE_PAGE_SIZE);
+        try {
+          await driver.delete(batch.map(object => object.path));
+          report.reclaimedFiles += batch.length;
+          report.reclaimedBytes += sumBytes(batch);
+        } catch (error) {
+          report.errors.push(`파일 ${batch.length}개 삭제 실패: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+      }
+
+      logSecurityEvent('ORPHAN_MEAL_IMAGES_COLLECTED', {
+        action,
+        userId,
+        orphanFolders: report.orphans.length,
+        staleRetryImages: report.staleRetryImages.length,
+        quarantinedFiles: report.quarantinedFiles,
+        reclaimedFiles: report.reclaimedFiles,
+        reclaimedBytes: report.reclaimedBytes,
+        errors: report.errors.length
+      }, report.errors.length > 0 ? 'warn' : 'info');
+    }
+
+    report.durationMs = Date.now() - startTime;
+    return { success: true, data: report };
+  } catch (error) {
+    console.error('Orphaned meal image collection error:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+}
+
+/**
+ * 사용 중인 식사 이미지 폴더 (meals의 식사 ID 폴더 + 식사/확인 대기 식사가 참조하는 파일의 폴더)
+ * 예전 업로드는 폴더 ID와 식사 ID가 달라서 참조 경로로도 확인
+ */
+async function getReferencedMealFolders(userId?: string): Promise<Set<string>> {
+  const supabase = createSupabaseAdmin();
+  const folders = new Set<string>();
+  const addPathFolder = (path: string | null | undefined) => {
+    const storagePath = path ? getStoragePathFromUrl(path) : null;
+    if (storagePath) {
+      folders.add(storagePath.substring(0, storagePath.lastIndexOf('/')));
+    }
+  };
+
+  // 예전 기록의 공개 URL 컬럼까지 읽기 위해 전체 컬럼 조회
+  for (let offset = 0; ; offset += REFERENCE_PAGE_SIZE) {
+    let query = supabase.from('meals').select('*').order('id').range(offset, offset + REFERENCE_PAGE_SIZE - 1);
+    if (userId) query = query.eq('user_id', userId);
+
+    const { data, error } = await query;
+    if (error) {
+      throw new Error(`식사 조회 실패: ${error.message}`);
+    }
+
+    for (const meal of data || []) {
+      folders.add(`users/${meal.user_id}/meals/${meal.id}`);
+      [meal.image_path, meal.thumbnail_path, meal.image_url, meal.photo_url].forEach(addPathFolder);
+    }
+
+    if (!data || data.length < REFERENCE_PAGE_SIZE) break;
+  }
+
+  // 확인 대기 식사는 아직 meals에 없지만 업로드한 이미지를 확인 후 저장에 사용
+  for (let offset = 0; ; offset += REFERENCE_PAGE_SIZE) {
+    let query = supabase.from('pending_meals').select('upload_result').order('id').range(offset, offset + REFERENCE_PAGE_SIZE - 1);
+    if (userId) query = query.eq('user_id', userId);
+
+    const { data, error } = await query;
+    if (error) {
+      throw new Error(`확인 대기 식사 조회 실패: ${error.message}`);
+    }
+
+    for (const pending of data || []) {
+      const uploadResult = pending.upload_result as MultiUploadResult | null;
+      Object.values(uploadResult?.results || {}).forEach(result => addPathFolder(result?.path));
+    }
+
+    if (!data || data.length < REFERENCE_PAGE_SIZE) break;
+  }
+
+  return folders;
+}
+
+/**
+ * 대기/진행 중인 분석 작업이 재시도에 사용할 원본 경로
+ */
+async function getActiveRetryImagePaths(userId?: string): Promise<Set<string>> {
+  const supabase = createSupabaseAdmin();
+  const paths = new Set<string>();
+
+  for (let offset = 0; ; offset += REFERENCE_PAGE_SIZE) {
+    let query = supabase
+      .from('analysis_jobs')
+      .select('retry_image_path')
+      .in('status', ['queued', 'processing'])
+      .not('retry_image_path', 'is', null)
+      .order('id')
+      .range(offset, offset + REFERENCE_PAGE_SIZE - 1);
+    if (userId) query = query.eq('user_id', userId);
+
+    const { data, error } = await query;
+    if (error) {
+      throw new Error(`분석 작업 조회 실패: ${error.message}`);
+    }
+
+    for (const job of data || []) {
+      paths.add(job.retry_image_path);
+    }
+
+    if (!data || data.length < REFERENCE_PAGE_SIZE) break;
+  }
+
+  return paths;
+}
+
+function groupByMealFolder(objects: StoredObject[]) {
+  const folders = new Map<string, { userId: string; mealId: string; objects: StoredObject[] }>();
+
+  for (const object of objects) {
+    // 식사 이미지 폴더가 아닌 파일(재시도용 원본 등)은 폴더 단위 판단에서 제외
+    const match = object.path.match(MEAL_IMAGE_PATH_PATTERN);
+    if (!match) continue;
+
+    const folderPath = object.path.substring(0, object.path.lastIndexOf('/'));
+    const folder = folders.get(folderPath) ?? { userId: match[1], mealId: match[2], objects: [] };
+    folder.objects.push(object);
+    folders.set(folderPath, folder);
+  }
+
+  return folders;
+}
+
+/**
+ * 격리 날짜 폴더(quarantine/YYYY-MM-DD/...)가 기준 시각보다 오래됐는지 확인
+ */
+function isQuarantineExpired(path: string, cutoff: number): boolean {
+  const quarantinedOn = path.split('/')[1];
+  const quarantinedAt = new Date(`${quarantinedOn}T00:00:00.000Z`).getTime();
+  return Number.isFinite(quarantinedAt) && quarantinedAt <= cutoff;
+}
+
+function sumBytes(objects: StoredObject[]): number {
+  return objects.reduce((sum, object) => sum + object.size, 0);
+}
@@ -0,0 +1,249 @@
+import { createSupabaseAdmin } from './supabase';
+import { getStorageDriver } from './storage-driver';
+import { STORAGE_CONFIG } from './storage';
+import { formatBytes } from './utils';
+import { StorageQuotaPolicy, StorageUsageSummary } from '@/types/food-analysis';
+
+// 기본 사용자별 사진 저장 공간 한도 (원본 + 썸네일 + 분석용 이미지 합계)
+export const DEFAULT_STORAGE_QUOTA_MB = 500;
+// 한도의 이 비율 이상 사용하면 경고
+export const DEFAULT_STORAGE_QUOTA_WARNING_RATIO = 0.8;
+
+export const STORAGE_QUOTA_POLICIES: StorageQuotaPolicy[] = ['downgrade', 'refuse'];
+
+// 한 번의 업로드에서 정리하는 최대 식사 수
+const MAX_DOWNGRADES_PER_UPLOAD = 100;
+
+// 사용량 집계 시 meals 조회 페이지 크기
+const USAGE_PAGE_SIZE = 1000;
+
+export interface StorageQuotaConfig {
+  limitBytes: number;
+  warningRatio: number;
+  policy: StorageQuotaPolicy;
+}
+
+// 업로드 전 한도 확인 결과
+export interface StorageQuotaCheck {
+  allowed: boolean;
+  usage?: StorageUsageSummary; // 업로드 전 사용량 (정리한 경우 정리 후)
+  downgradedCount: number;
+  warning?: string; // 사용자에게 보여줄 안내 (경고, 정리, 거부)
+}
+
+/**
+ * 설정(STORAGE_QUOTA_MB, STORAGE_QUOTA_WARNING_RATIO, STORAGE_QUOTA_POLICY)에 따른 저장 공간 한도
+ */
+export function getStorageQuotaConfig(): StorageQuotaConfig {
+  const quotaMb = process.env.STORAGE_QUOTA_MB ? Number(process.env.STORAGE_QUOTA_MB) : DEFAULT_STORAGE_QUOTA_MB;
+  if (!Number.isFinite(quotaMb) || quotaMb < 0) {
+    throw new Error(`STORAGE_QUOTA_MB는 0 이상의 숫자여야 합니다: ${process.env.STORAGE_QUOTA_MB}`);
+  }
+
+  const warningRatio = process.env.STORAGE_QUOTA_WARNING_RATIO
+    ? Number(process.env.STORAGE_QUOTA_WARNING_RATIO)
+    : DEFAULT_STORAGE_QUOTA_WARNING_RATIO;
+  if (!Number.isFinite(warningRatio) || warningRatio <= 0 || warningRatio > 1) {
+    throw new Error(`STORAGE_QUOTA_WARNING_RATIO는 0보다 크고 1 이하인 숫자여야 합니다: ${process.env.STORAGE_QUOTA_WARNING_RATIO}`);
+  }
+
+  const policy = (process.env.STORAGE_QUOTA_POLICY || 'downgrade') as StorageQuotaPolicy;
+  if (!STORAGE_QUOTA_POLICIES.includes(policy)) {
+    throw new Error(`알 수 없는 저장 공간 한도 정책입니다: ${policy}`);
+  }
+
+  return { limitBytes: Math.floor(quotaMb * 1024 * 1024), warningRatio, policy };
+}
+
+/**
+ * 사용자의 사진 저장 공간 사용량
+ * 업로드마다 버킷의 식사 폴더를 모두 조회하지 않도록 meals.image_size 합계로 계산
+ * (식사와 연결되지 않은 파일은 고아 이미지 정리에서 삭제되므로 포함하지 않음)
+ */
+export async function getStorageUsageSummary(
+  userId: string
+): Promise<{ success: boolean; data?: StorageUsageSummary; error?: string }> {
+  try {
+    const config = getStorageQuotaConfig();
+    const supabase = createSupabaseAdmin();
+
+    let usedBytes = 0;
+    let photoCount = 0;
+    let downgradedCount = 0;
+    for (let offset = 0; ; offset += USAGE_PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('meals')
+        .select('image_size, image_downgraded_at')
+        .eq('user_id', userId)
+        .not('image_path', 'is', null)
+        .order('id')
+        .range(offset, offset + USAGE_PAGE_SIZE - 1);
+
+      if (error) {
+        throw new Error(`저장 공간 사용량 조회 실패: ${error.message}`);
+      }
+
+      for (const meal of data || []) {
+        usedBytes += meal.image_size ?? 0;
+        photoCount++;
+        if (meal.image_downgraded_at) {
+          downgradedCount++;
+        }
+      }
+
+      if (!data || data.length < USAGE_PAGE_SIZE) break;
+    }
+
+    return {
+      success: true,
+      data: {
+        used_bytes: usedBytes,
+        limit_bytes: config.limitBytes,
+        remaining_bytes: Math.max(0, config.limitBytes - usedBytes),
+        warning_bytes: Math.floor(config.limitBytes * config.warningRatio),
+        photo_count: photoCount,
+        downgraded_count: downgradedCount,
+        policy: config.policy
+      }
+    };
+  } catch (error) {
+    console.error('Get storage usage error:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+}
+
+/**
+ * 새 이미지를 업로드하기 전에 저장 공간 한도 확인
+ * - 한도 안: 허용 (경고 기준을 넘으면 경고 포함)
+ * - 한도 초과 + downgrade: 오래된 식사부터 분석용 이미지를 지워 공간 확보 후 허용 (원본과 썸네일은 유지, 부족하면 거부)
+ * - 한도 초과 + refuse: 거부
+ * 사용량을 조회할 수 없으면 업로드를 막지 않음 (allowed: true, usage 없음)
+ */
+export async function checkStorageQuota(userId: string, incomingBytes: number): Promise<StorageQuotaCheck> {
+  const result = await getStorageUsageSummary(userId);
+  if (!result.success || !result.data) {
+    return { allowed: true, downgradedCount: 0 };
+  }
+
+  let usage = result.data;
+  const projectedBytes = usage.used_bytes + incomingBytes;
+  if (projectedBytes <= usage.limit_bytes) {
+    return {
+      allowed: true,
+      usage,
+      downgradedCount: 0,
+      warning: projectedBytes >= usage.warning_bytes ? getStorageQuotaWarningMessage(projectedBytes, usage) : undefined
+    };
+  }
+
+  if (usage.policy === 'refuse') {
+    return { allowed: false, usage, downgradedCount: 0, warning: getStorageQuotaRefusedMessage(usage) };
+  }
+
+  const { freedBytes, downgradedCount } = await downgradeOldMealImages(userId, projectedBytes - usage.limit_bytes);
+  usage = {
+    ...usage,
+    used_bytes: usage.used_bytes - freedBytes,
+    remaining_bytes: Math.max(0, usage.limit_bytes - (usage.used_bytes - freedBytes)),
+    downgraded_count: usage.downgraded_count + downgradedCount
+  };
+
+  if (usage.used_bytes + incomingBytes > usage.limit_bytes) {
+    return { allowed: false, usage, downgradedCount, warning: getStorageQuotaRefusedMessage(usage) };
+  }
+
+  return {
+    allowed: true,
+    usage,
+    downgradedCount,
+    warning: downgradedCount > 0
+      ? `사진 저장 공간 한도(${formatBytes(usage.limit_bytes)})를 넘어 오래된 식사 ${downgradedCount}개의 분석용 사진을 정리했어요. 원본 사진과 썸네일은 그대로 남아 있어요.`
+      : undefined
+  };
+}
+
+/**
+ * 오래된 식사부터 분석용 이미지를 지워 공간 확보
+ * 보관용 원본과 썸네일은 남기고 image_size를 남은 파일 크기로 바꾼 뒤 image_downgraded_at 기록
+ */
+export async function downgradeOldMealImages(
+  userId: string,
+  bytesToFree: number
+): Promise<{ freedBytes: number; downgradedCount: number }> {
+  let freedBytes = 0;
+  let downgradedCount = 0;
+
+  try {
+    const supabase = createSupabaseAdmin();
+    const driver = getStorageDriver(STORAGE_CONFIG);
+    const { data: meals, error } = await supabase
+      .from('meals')
+      .select('id, image_path, thumbnail_path, image_size')
+      .eq('user_id', userId)
+      .is('image_downgraded_at', null)
+      .not('image_path', 'is', null)
+      .order('created_at', { ascending: true })
+      .limit(MAX_DOWNGRADES_PER_UPLOAD);
+
+    if (error) {
+      throw new Error(`정리할 식사 조회 실패: ${error.message}`);
+    }
+
+    for (const meal of meals || []) {
+      if (freedBytes >= bytesToFree) break;
+
+      const imagePath: string = meal.image_path;
+      const folder = imagePath.substring(0, imagePath.lastIndexOf('/'));
+      if (!folder.startsWith(`users/${userId}/meals/`)) continue;
+
+      try {
+        const objects = await driver.list(folder);
+        const kept = objects.filter(object => object.path === imagePath || object.path === meal.thumbnail_path);
+        if (!kept.some(object => object.path === imagePath)) continue; // 원본이 없으면 남은 이미지를 지우지 않음
+
+        // 원본과 썸네일만 남기고 분석용 이미지 등 나머지 삭제
+        const removable = objects.filter(object => !kept.includes(object));
+        await driver.delete(removable.map(object => object.path));
+
+        const keptBytes = kept.reduce((sum, object) => sum + object.size, 0);
+        const { error: updateError } = await supabase
+          .from('meals')
+          .update({
+            image_size: keptBytes,
+            image_downgraded_at: new Date().toISOString(),
+            updated_at: new Date().toISOString()
+          })
+          .eq('id', meal.id);
+
+        if (updateError) {
+          throw new Error(updateError.message);
+        }
+
+        // 사용량은 image_size 합계로 계산하므로 같은 기준으로 확보한 공간 계산
+        freedBytes += Math.max(0, (meal.image_size ?? 0) - keptBytes);
+        downgradedCount++;
+      } catch (mealError) {
+        console.error(`Downgrade meal images error (${meal.id}):`, mealError);
+      }
+    }
+  } catch (error) {
+    console.error('Downgrade old meal images error:', error);
+  }
+
+  return { freedBytes, downgradedCount };
+}
+
+function getStorageQuotaWarningMessage(projectedBytes: number, usage: StorageUsageSummary): string {
+  const percent = Math.round((projectedBytes / usage.limit_bytes) * 100);
+  const policyNotice = usage.policy === 'downgrade'
+    ? '한도를 넘으면 오래된 식사의 분석용 사진을 정리해요.'
+    : '한도를 넘으면 새 사진을 저장할 수 없어요.';
+  return `사진 저장 공간의 ${percent}%를 사용 중이에요 (${formatBytes(projectedBytes)} / ${formatBytes(usage.limit_bytes)}). ${policyNotice}`;
+}
+
+function getStorageQuotaRefusedMessage(usage: StorageUsageSummary): string {
+  return `사진 저장 공간 한도(${formatBytes(usage.limit_bytes)})를 초과해 이번 사진은 저장하지 않았어요.`;
+}
@@ -1,14 +1,17 @@
-import { supabase } from './supabase';
-import { ImageProcessingResult } from './image-processor';
+import { getStorageDriver, StorageDriver } from './storage-driver';
+import { ImagePlaceholder, ImageProcessingResult } from './image-processor';
+import { SUPPORTED_IMAGE_MIME_TYPES } from './image-formats';
+import { formatBytes } from './utils';
 import crypto from 'crypto';
 
 // Storage 설정
 export const STORAGE_CONFIG = {
   bucketName: 'meal-images',
   maxFileSize: 10 * 1024 * 1024, // 10MB
-  allowedMimeTypes: ['image/jpeg', 'image/png', 'image/webp'],
+  allowedMimeTypes: SUPPORTED_IMAGE_MIME_TYPES, // 분석 재시도용 원본도 저장하므로 업로드 허용 형식과 동일
   uploadTimeout: 30000, // 30초
-  retryAttempts: 3
+  retryAttempts: 3,
+  signedUrlExpiresIn: 60 * 10 // 서명된 이미지 URL 유효 시간 (초)
 };
 
 // 파일 경로 구조 타입
@@ -22,8 +25,7 @@ export interface StoragePathConfig {
 // 업로드 결과 타입
 export interface UploadResult {
   success: boolean;
-  publicUrl?: string;
-  path?: string;
+  path?: string; // 비공개 버킷 내 경로 (이미지는 createSignedImageUrls로 제공)
   error?: string;
   size?: number;
   uploadTime?: number;
@@ -32,6 +34,7 @@ export interface UploadResult {
 // 다중 업로드 결과 타입
 export interface MultiUploadResult {
   success: boolean;
+  mealId: string; // 업로드 폴더의 meal ID (저장되는 식사 ID와 같아야 정리 작업이 파일을 식사와 연결할 수 있음)
   results: {
     original?: UploadResult;
     thumbnail?: UploadResult;
@@ -39,6 +42,7 @@ export interface MultiUploadResult {
   };
   totalSize: number;
   totalUploadTime: number;
+  placeholder?: ImagePlaceholder; // 식사와 함께 저장할 미리보기 (썸네일 로딩 전 표시)
   error?: string;
 }
 
@@ -58,38 +62,43 @@ export function generateMealId(): string {
 }
 
 /**
- * Storage bucket 초기화 및 정책 설정
+ * 설정(STORAGE_DRIVER)에 따른 저장소
  */
-export async function initializeStorageBucket(): Promise<{ success: boolean; error?: string }> {
-  try {
-    // 버킷 존재 확인
-    const { data: buckets, error: listError } = await supabase.storage.listBuckets();
-    
-    if (listError) {
-      console.error('Failed to list buckets:', listError);
-      return { success: false, error: listError.message };
-    }
-
-    const bucketExists = buckets?.some(bucket => bucket.name === STORAGE_CONFIG.bucketName);
+function getDriver(): StorageDriver {
+  return getStorageDriver(STORAGE_CONFIG);
+}
 
-    if (!bucketExists) {
-      // 버킷 생성
-      const { error: createError } = await supabase.storage.createBucket(STORAGE_CONFIG.bucketName, {
-        public: false, // 인증된 사용자만 접근 가능
-        allowedMimeTypes: STORAGE_CONFIG.allowedMimeTypes,
-        fileSizeLimit: STORAGE_CONFIG.maxFileSize
-      });
+let storageReady: Promise<void> | null = null;
 
-      if (createError) {
-        console.error('Failed to create bucket:', createError);
-        return { success: false, error: createError.message };
+/**
+ * 저장소를 처음 사용할 때 한 번만 연결 확인 및 초기화 (실패하면 다음 사용 때 다시 시도)
+ */
+function ensureStorageReady(): Promise<void> {
+  if (!storageReady) {
+    storageReady = (async () => {
+      const connection = await checkStorageConnection();
+      if (connection.success) return;
+
+      console.log(`Storage 초기화 시도 (${connection.error})...`);
+      const initResult = await initializeStorageBucket();
+      if (!initResult.success) {
+        throw new Error(`Storage 초기화 실패: ${initResult.error}`);
       }
+    })().catch(error => {
+      storageReady = null;
+      throw error;
+    });
+  }
 
-      console.log(`Storage bucket '${STORAGE_CONFIG.bucketName}' created successfully`);
-    } else {
-      console.log(`Storage bucket '${STORAGE_CONFIG.bucketName}' already exists`);
-    }
+  return storageReady;
+}
 
+/**
+ * Storage bucket 초기화 및 정책 설정 (local 저장소는 디렉터리 생성)
+ */
+export async function initializeStorageBucket(): Promise<{ success: boolean; error?: string }> {
+  try {
+    await getDriver().initialize();
     return { success: true };
   } catch (error) {
     console.error('Storage initialization error:', error);
@@ -128,29 +137,14 @@ export async function uploadImage(
       };
     }
 
-    // 업로드 수행
-    const { error } = await supabase.storage
-      .from(STORAGE_CONFIG.bucketName)
-      .upload(path, buffer, {
-        cacheControl: '3600',
-        upsert: true, // 같은 경로에 있는 파일 덮어쓰기
-        contentType: mimeType
-      });
-
-    if (error) {
-      throw new Error(error.message);
-    }
-
-    // Public URL 생성
-    const { data: urlData } = supabase.storage
-      .from(STORAGE_CONFIG.bucketName)
-      .getPublicUrl(path);
+    // 업로드 수행 (같은 경로에 있는 파일은 덮어쓰기)
+    await ensureStorageReady();
+    await getDriver().put(path, buffer, mimeType);
 
     const uploadTime = Date.now() - startTime;
 
     return {
       success: true,
-      publicUrl: urlData.publicUrl,
       path: path,
       size: buffer.length,
       uploadTime
@@ -281,9 +275,11 @@ export async function uploadProcessedImages(
 
     return {
       success: !hasError,
+      mealId: actualMealId,
       results,
       totalSize,
       totalUploadTime,
+      placeholder: processedImages.placeholder,
       error: hasError ? errorMessage : undefined
     };
 
@@ -292,6 +288,7 @@ export async function uploadProcessedImages(
     
     return {
       success: false,
+      mealId: actualMealId,
       results,
       totalSize,
       totalUploadTime,
@@ -301,18 +298,47 @@ export async function uploadProcessedImages(
 }
 
 /**
- * 이미지 삭제
+ * 비공개 버킷 이미지의 서명된 URL 일괄 생성 (경로별 URL, 실패한 경로는 제외)
+ * 권한 확인은 호출하는 쪽에서 수행
  */
-export async function deleteImage(path: string): Promise<{ success: boolean; error?: string }> {
+export async function createSignedImageUrls(
+  paths: string[],
+  expiresIn: number = STORAGE_CONFIG.signedUrlExpiresIn
+): Promise<{ success: boolean; data?: Record<string, string>; error?: string }> {
+  if (paths.length === 0) {
+    return { success: true, data: {} };
+  }
+
   try {
-    const { error } = await supabase.storage
-      .from(STORAGE_CONFIG.bucketName)
-      .remove([path]);
+    const urls = await getDriver().createSignedUrls(paths, expiresIn);
+    return { success: true, data: urls };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+}
 
-    if (error) {
-      throw new Error(error.message);
-    }
+/**
+ * 예전에 저장된 공개 URL에서 버킷 내 경로 추출 (이미 경로면 그대로 반환, 다른 곳의 URL이면 null)
+ */
+export function getStoragePathFromUrl(url: string): string | null {
+  const marker = `/storage/v1/object/public/${STORAGE_CONFIG.bucketName}/`;
+  const index = url.indexOf(marker);
+  if (index >= 0) {
+    return decodeURIComponent(url.substring(index + marker.length).split('?')[0]);
+  }
+
+  return /^https?:\/\//.test(url) ? null : url;
+}
 
+/**
+ * 이미지 삭제
+ */
+export async function deleteImage(path: string): Promise<{ success: boolean; error?: string }> {
+  try {
+    await getDriver().delete([path]);
     return { success: true };
   } catch (error) {
     return {
@@ -336,14 +362,7 @@ export async function deleteUserMealImages(
       generateStoragePath({ userId, mealId, imageType: 'analysis', format: 'jpeg' })
     ];
 
-    const { error } = await supabase.storage
-      .from(STORAGE_CONFIG.bucketName)
-      .remove(paths);
-
-    if (error) {
-      throw new Error(error.message);
-    }
-
+    await getDriver().delete(paths);
     return { success: true };
   } catch (error) {
     return {
@@ -356,16 +375,9 @@ export async function deleteUserMealImages(
 /**
  * 이미지 다운로드
  */
-export async function downloadImage(path: string): Promise<{ success: boolean; data?: Blob; error?: string }> {
+export async function downloadImage(path: string): Promise<{ success: boolean; data?: Buffer; error?: string }> {
   try {
-    const { data, error } = await supabase.storage
-      .from(STORAGE_CONFIG.bucketName)
-      .download(path);
-
-    if (error) {
-      throw new Error(error.message);
-    }
-
+    const data = await getDriver().get(path);
     return { success: true, data };
   } catch (error) {
     return {
@@ -388,43 +400,7 @@ export async function getUserStorageUsage(userId: string): Promise<{
   error?: string;
 }> {
   try {
-    const { data, error } = await supabase.storage
-      .from(STORAGE_CONFIG.bucketName)
-      .list(`users/${userId}/meals`, {
-        limit: 1000,
-        sortBy: { column: 'name', order: 'asc' }
-      });
-
-    if (error) {
-      throw new Error(error.message);
-    }
-
-    let totalFiles = 0;
-    let totalSize = 0;
-
-    if (data) {
-      const getAllFiles = async (path: string): Promise<void> => {
-        const { data: files, error } = await supabase.storage
-          .from(STORAGE_CONFIG.bucketName)
-          .list(path, { limit: 1000 });
-
-        if (error) throw new Error(error.message);
-
-        for (const file of files || []) {
-          if (file.metadata?.size) {
-            totalFiles++;
-            totalSize += file.metadata.size;
-          }
-        }
-      };
-
-      for (const folder of data) {
-        if (folder.name) {
-          await getAllFiles(`users/${userId}/meals/${folder.name}`);
-        }
-      }
-    }
-
+    const { totalFiles, totalSize } = await getDriver().usage(`users/${userId}/meals`);
     const formattedSize = formatBytes(totalSize);
 
     return {
@@ -443,38 +419,12 @@ export async function getUserStorageUsage(userId: string): Promise<{
   }
 }
 
-/**
- * 바이트를 읽기 쉬운 형태로 변환
- */
-function formatBytes(bytes: number, decimals = 2): string {
-  if (bytes === 0) return '0 Bytes';
-
-  const k = 1024;
-  const dm = decimals < 0 ? 0 : decimals;
-  const sizes = ['Bytes', 'KB', 'MB', 'GB', 'TB'];
-
-  const i = Math.floor(Math.log(bytes) / Math.log(k));
-
-  return parseFloat((bytes / Math.pow(k, i)).toFixed(dm)) + ' ' + sizes[i];
-}
-
 /**
  * Storage 연결 상태 확인
  */
 export async function checkStorageConnection(): Promise<{ success: boolean; error?: string }> {
   try {
-    const { data, error } = await supabase.storage.listBuckets();
-    
-    if (error) {
-      throw new Error(error.message);
-    }
-
-    const bucketExists = data?.some(bucket => bucket.name === STORAGE_CONFIG.bucketName);
-    
-    if (!bucketExists) {
-      return { success: false, error: 'Storage bucket not found' };
-    }
-
+    await getDriver().checkConnection();
     return { success: true };
   } catch (error) {
     return {
@@ -0,0 +1,61 @@
+import { createSupabaseAdmin } from './supabase';
+import { UserPhotoSettings } from '@/types/database';
+
+// 동의하지 않은 사용자의 기본값 (촬영 시각을 저장하지 않음)
+export const DEFAULT_PHOTO_SETTINGS: UserPhotoSettings = {
+  keep_photo_taken_at: false
+};
+
+/**
+ * 사용자의 사진 개인정보 설정 조회
+ * 조회에 실패하면 촬영 시각을 저장하지 않는 기본값으로 동작 (개인정보 우선)
+ */
+export async function getUserPhotoSettings(userId: string): Promise<UserPhotoSettings> {
+  try {
+    const supabase = createSupabaseAdmin();
+    const { data, error } = await supabase
+      .from('users')
+      .select('keep_photo_taken_at')
+      .eq('id', userId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`사진 설정 조회 실패: ${error.message}`);
+    }
+
+    return { keep_photo_taken_at: data?.keep_photo_taken_at ?? DEFAULT_PHOTO_SETTINGS.keep_photo_taken_at };
+  } catch (error) {
+    console.error('Get user photo settings error:', error);
+    return DEFAULT_PHOTO_SETTINGS;
+  }
+}
+
+/**
+ * 사용자의 사진 개인정보 설정 변경
+ */
+export async function updateUserPhotoSettings(
+  userId: string,
+  settings: UserPhotoSettings
+): Promise<{ success: boolean; data?: UserPhotoSettings; error?: string }> {
+  try {
+    const supabase = createSupabaseAdmin();
+    const { data, error } = await supabase
+      .from('users')
+      .update({ keep_photo_taken_at: settings.keep_photo_taken_at })
+      .eq('id', userId)
+      .select('keep_photo_taken_at')
+      .single();
+
+    if (error) {
+      throw new Error(`사진 설정 저장 실패: ${error.message}`);
+    }
+
+    return { success: true, data: { keep_photo_taken_at: data.keep_photo_taken_at } };
+  } catch (error) {
+    console.error('Update user photo settings error:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+}
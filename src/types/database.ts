@@ -1,5 +1,7 @@
 // Database types for couple diet app
 
+import { MealInputMode, NutritionFacts } from './food-analysis';
+
 export type MealType = 'breakfast' | 'lunch' | 'dinner' | 'snack';
 
 export interface User {
@@ -8,6 +10,7 @@ export interface User {
   display_name: string | null;
   avatar_url: string | null;
   partner_id: string | null;
+  keep_photo_taken_at: boolean;
   created_at: string;
   updated_at: string;
 }
@@ -24,6 +27,12 @@ export interface UserUpdate {
   display_name?: string | null;
   avatar_url?: string | null;
   partner_id?: string | null;
+  keep_photo_taken_at?: boolean;
+}
+
+// 사진 개인정보 설정 (사진 파일의 EXIF/GPS는 항상 제거되고, 촬영 시각만 동의 시 별도 보관)
+export interface UserPhotoSettings {
+  keep_photo_taken_at: boolean;
 }
 
 export interface Meal {
@@ -34,6 +43,8 @@ export interface Meal {
   meal_type: MealType;
   photo_url: string | null;
   description: string | null;
+  nutritional_info: NutritionFacts | null;
+  input_mode: MealInputMode;
   meal_date: string;
   created_at: string;
   updated_at: string;
@@ -46,6 +57,8 @@ export interface MealInsert {
   meal_type: MealType;
   photo_url?: string | null;
   description?: string | null;
+  nutritional_info?: NutritionFacts | null;
+  input_mode?: MealInputMode;
   meal_date?: string;
 }
 
@@ -55,6 +68,7 @@ export interface MealUpdate {
   meal_type?: MealType;
   photo_url?: string | null;
   description?: string | null;
+  nutritional_info?: NutritionFacts | null;
   meal_date?: string;
 }
 
@@ -1,10 +1,52 @@
 // Google Gemini Pro Vision API 기반 음식 분석 타입 정의
 
+// 영양 성분 (다량/미량 영양소)
+export interface NutritionFacts {
+  protein_g: number
+  carbs_g: number
+  fat_g: number
+  sugar_g: number
+  fiber_g: number
+  sodium_mg: number
+}
+
+// 수치 출처 (ai: 모델 추정, reference: 내장 영양 DB, macros: 다량 영양소로 계산, user: 사용자 수정)
+export type NutritionSource = 'ai' | 'reference' | 'macros' | 'user'
+
+// 식사 기록 방식 (text: 사진 없이 텍스트로 입력 → 미인증)
+export type MealInputMode = 'photo' | 'text'
+
+// 분석 상세 수준 (basic: 이름/분량/칼로리, detailed: + 영양 성분, comprehensive: + 재료/조리법/건강 메모)
+export type AnalysisDetailLevel = 'basic' | 'detailed' | 'comprehensive'
+
+// 분석 결과 언어 (음식명, 분량, 메모)
+export type AnalysisLanguage = 'ko' | 'en'
+
+// 분석 요청 옵션
+export interface FoodAnalysisOptions {
+  detail_level?: AnalysisDetailLevel
+  include_nutrition?: boolean // 지정하지 않으면 basic은 false, 나머지는 true
+  preferred_language?: AnalysisLanguage
+  prompt_version?: string // 프롬프트 레지스트리 id (예: food-analysis@v1), 지정하지 않으면 기본 프롬프트
+}
+
+// 기본값이 채워진 분석 옵션
+export type ResolvedAnalysisOptions = Required<FoodAnalysisOptions>
+
 export interface FoodItem {
   name: string
+  name_ko?: string // 영어 분석 시 참조 DB 매칭용 한국어 이름
   amount: string
   calories: number
   confidence: number
+  nutrition?: NutritionFacts
+  ingredients?: string[] // comprehensive
+  cooking_method?: string // comprehensive
+  reference_id?: string // 매칭된 내장 영양 DB 항목 id
+  sources?: {
+    calories: NutritionSource
+    nutrition?: NutritionSource
+  }
 }
 
 export interface FoodAnalysisResult {
@@ -15,26 +57,38 @@ export interface FoodAnalysisResult {
   image_url?: string
   thumbnail_url?: string
   analyzed_at?: string
-  nutritional_info?: {
-    [key: string]: number | string
-  }
+  nutritional_info?: NutritionFacts // 음식별 nutrition 합계
+  health_notes?: string[] // comprehensive
   metadata?: {
     processing_time_ms?: number;
     model_version?: string;
+    prompt_version?: string; // AI 분석에 사용한 프롬프트 (A/B 비교용)
     image_quality_score?: number;
     detected_objects?: number;
     retry_count?: number;
-    is_mock_data?: boolean;
+    is_mock_data?: boolean; // 실제 AI 분석이 아닌 fixture 결과 (통계에서 제외)
     request_id?: string;
     api_version?: string;
     cache_hit?: boolean;
     rate_limit_remaining?: number;
+    user_corrected?: boolean;
+    corrected_at?: string;
+    user_confirmed?: boolean; // 신뢰도가 낮아 사용자 확인 후 저장됨
+    confirmed_at?: string;
+    input_mode?: MealInputMode;
+    imported?: boolean; // 과거 사진 일괄 가져오기로 기록
+    detail_level?: AnalysisDetailLevel;
+    language?: AnalysisLanguage;
+    include_nutrition?: boolean;
   }
 }
 
 export interface FoodAnalysisResponse {
   success: boolean;
   data?: FoodAnalysisResult;
+  meal_id?: string; // 히스토리에 저장된 경우 식사 ID
+  confirmation?: PendingMealConfirmation; // 신뢰도가 낮아 저장 전 확인이 필요한 경우
+  storage_warning?: string; // 저장 공간 한도에 가까워졌거나 초과해 사진을 저장하지 않은 경우
   error?: string;
   message?: string;
   // 추가된 응답 메타데이터
@@ -44,7 +98,11 @@ export interface FoodAnalysisResponse {
     api_version: string;
     cached?: boolean;
     rate_limit_remaining?: number;
-    quota_used?: number;
+    quota_used?: number; // 오늘 사용한 AI 분석 호출 수
+    quota_remaining?: {
+      daily: number;
+      monthly: number;
+    };
   };
 }
 
@@ -54,11 +112,7 @@ export interface FoodAnalysisRequest {
   save_to_history?: boolean;
   save_images?: boolean;
   // 추가된 요청 옵션
-  options?: {
-    detail_level?: 'basic' | 'detailed' | 'comprehensive';
-    include_nutrition?: boolean;
-    preferred_language?: 'ko' | 'en';
-  };
+  options?: FoodAnalysisOptions;
 }
 
 // 개선된 에러 타입
@@ -136,13 +190,157 @@ export interface MealAnalysisRecord {
   total_calories: number;
   meal_type: string;
   image_hash?: string;
+  perceptual_hash?: string; // dHash (재사용 사진 감지용)
+  possibly_reused?: boolean; // 이전 식사 사진을 다시 사용한 것으로 의심됨
+  reused_from_meal_id?: string;
+  photo_freshness?: 'fresh' | 'late' | 'missing'; // late: 오래된 사진으로 늦은 인증 (미인증)
+  photo_taken_at?: string; // EXIF 촬영 시각 (사용자가 보관에 동의한 경우에만)
   processing_time?: number;
-  image_size?: number;
-  image_url?: string;
+  image_size?: number; // 저장된 이미지 변형 전체 크기 (bytes, 저장 공간 한도 계산에 사용)
+  image_path?: string; // 비공개 버킷 내 원본(아카이브) 이미지 경로
+  thumbnail_path?: string;
+  image_placeholder?: string; // 썸네일 로딩 전 흐리게 보여줄 16px 미리보기 (data URL)
+  image_dominant_color?: string; // 사진 대표 색상 (#rrggbb, 미리보기 배경)
+  image_downgraded_at?: string; // 저장 공간 한도로 분석용 이미지를 지운 시각 (원본과 썸네일은 유지)
+  image_url?: string; // 화면 표시용 서명된 URL (예전 기록은 공개 URL이 저장되어 있음)
+  nutritional_info?: NutritionFacts;
+  input_mode?: MealInputMode;
+  is_mock_data?: boolean; // 통계 집계에서 제외
+  meal_date?: string; // YYYY-MM-DD (과거 식사 가져오기는 촬영 날짜)
+  created_at?: string;
+  updated_at?: string;
+}
+
+// 사용자 수정 - 음식 1개 (original_index가 있으면 AI 결과의 해당 음식을 수정)
+export interface FoodCorrection {
+  original_index?: number;
+  name: string;
+  amount?: string;
+  calories?: number; // 사용자가 직접 입력한 칼로리
+  portion_multiplier?: number; // 0.5, 1.5, 2 등
+}
+
+// 사용자 수정 - 식사 전체 (foods는 수정 후 최종 음식 목록)
+export interface MealCorrectionInput {
+  foods: FoodCorrection[];
+  meal_type?: 'breakfast' | 'lunch' | 'dinner' | 'snack';
+}
+
+// 수정 이력 저장용 타입 (AI 원본과 수정 결과를 분리 보관)
+export interface MealCorrectionRecord {
+  id: string;
+  meal_id: string;
+  user_id: string;
+  original_result: FoodAnalysisResult;
+  corrections: MealCorrectionInput;
+  corrected_result: FoodAnalysisResult;
   created_at?: string;
+}
+
+// 저장 전 사용자 확인 대기 중인 분석 결과 (pending_meals 테이블)
+export interface PendingMealRecord {
+  id: string;
+  user_id: string;
+  analysis_result: FoodAnalysisResult;
+  image_hash?: string;
+  perceptual_hash?: string;
+  photo_capture?: { takenAt: string; localTime: string } | null; // EXIF 촬영 시각 (null: 사진에 없음)
+  upload_result?: unknown; // MultiUploadResult (이미지 저장 정보)
+  uncertain_food_indices: number[];
+  threshold: number;
+  created_at: string;
+  expires_at: string;
+}
+
+// 확인 요청 응답 정보 (불확실한 음식은 foods의 index로 표시)
+export interface PendingMealConfirmation {
+  id: string;
+  reason: 'low_confidence';
+  threshold: number;
+  analysis_confidence: number;
+  uncertain_food_indices: number[];
+  expires_at: string;
+}
+
+// 과거 사진 일괄 가져오기 - 파일별 결과
+export type MealImportStatus = 'imported' | 'duplicate' | 'skipped' | 'failed';
+
+export interface MealImportFileResult {
+  file_name: string;
+  status: MealImportStatus;
+  meal_id?: string;
+  meal_date?: string;
+  meal_type?: 'breakfast' | 'lunch' | 'dinner' | 'snack';
+  captured_at?: string;
+  total_calories?: number;
+  is_mock_data?: boolean;
+  existing_meal_id?: string; // duplicate인 경우 이미 기록된 식사
+  error?: string;
+}
+
+// AI 분석 실패 시 처리 방식
+// fail: 에러 반환, mock-in-dev: 개발 환경에서만 fixture 결과로 대체, queue-for-retry: 작업으로 등록 후 나중에 재시도
+export type AnalysisFallbackPolicy = 'fail' | 'mock-in-dev' | 'queue-for-retry';
+
+// 비동기 분석 작업 상태
+export type AnalysisJobStatus = 'queued' | 'processing' | 'succeeded' | 'failed';
+
+// 비동기 분석 작업 (analysis_jobs 테이블)
+export interface AnalysisJob {
+  id: string;
+  user_id: string;
+  status: AnalysisJobStatus;
+  image_hash?: string;
+  options: {
+    save_to_history: boolean;
+    save_images: boolean;
+    analysis?: FoodAnalysisOptions;
+    confidence_threshold?: number; // 재시도 시 같은 기준으로 확인 대기 여부 판단
+  };
+  result?: FoodAnalysisResult;
+  meal_id?: string;
+  confirmation?: PendingMealConfirmation;
+  error?: string;
+  validation?: unknown; // 식사 규칙 위반 또는 늦은 사진 저장 시 422 응답의 validation과 같은 형식
+  attempts?: number; // AI 서비스 장애로 재시도한 횟수 (queue-for-retry 정책)
+  next_retry_at?: string;
+  retry_image_path?: string | null; // 재시도용 원본 이미지 storage 경로 (메타데이터 제거됨)
+  photo_capture?: { takenAt: string; mealDate: string; localTime: string } | null; // 재시도 시 신선도 검증에 쓸 EXIF 촬영 시각
+  created_at: string;
+  started_at?: string;
+  completed_at?: string;
   updated_at?: string;
 }
 
+// AI 사용량 (기간별)
+export interface AIQuotaPeriodUsage {
+  used: number;
+  limit: number;
+  remaining: number;
+  resets_at: string;
+}
+
+// 사용자별 AI 사용량 요약 (UTC 기준 일/월)
+export interface AIUsageSummary {
+  daily: AIQuotaPeriodUsage;
+  monthly: AIQuotaPeriodUsage;
+  by_provider: Record<string, number>; // 이번 달 provider별 호출 수
+}
+
+// 저장 공간 한도 초과 시 처리 방식 (downgrade: 오래된 식사의 분석용 이미지를 지우고 원본과 썸네일만 보관, refuse: 새 사진 저장 거부)
+export type StorageQuotaPolicy = 'downgrade' | 'refuse';
+
+// 사용자별 사진 저장 공간 사용량
+export interface StorageUsageSummary {
+  used_bytes: number;
+  limit_bytes: number;
+  remaining_bytes: number;
+  warning_bytes: number; // 이 이상 사용하면 경고
+  photo_count: number; // 사진이 저장된 식사 수
+  downgraded_count: number; // 분석용 이미지를 정리한 식사 수
+  policy: StorageQuotaPolicy;
+}
+
 // 설정 타입
 export interface FoodAnalysisConfig {
   maxFileSize: number; // bytes
@@ -162,6 +360,7 @@ export interface FoodAnalysisConfig {
 // 캐시 관련 타입
 export interface AnalysisCache {
   image_hash: string;
+  variant: string; // provider/모델 구분 (같은 이미지라도 분석기가 다르면 별도 캐시)
   result: FoodAnalysisResult;
   cached_at: string;
   expires_at: string;
@@ -0,0 +1,12 @@
+// heic-decode는 타입 선언을 제공하지 않음 (사용하는 API만 선언)
+declare module 'heic-decode' {
+  interface DecodedHeicImage {
+    width: number;
+    height: number;
+    data: Uint8ClampedArray; // RGBA
+  }
+
+  function decode(input: { buffer: ArrayBufferLike | Uint8Array }): Promise<DecodedHeicImage>;
+
+  export default decode;
+}